@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+"use strict";
+var __importDefault = (this && this.__importDefault) || function (mod) {
+    return (mod && mod.__esModule) ? mod : { "default": mod };
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+const node_path_1 = __importDefault(require("node:path"));
+const config_js_1 = require("../src/lib/config.js");
+const document_store_js_1 = require("../src/lib/document-store.js");
+const sqlite_storage_js_1 = require("../src/lib/sqlite-storage.js");
+const USAGE = `Usage: agelum-db <command>
+
+  import <repo> [path]   Copy the agelum folder of a checkout into the database
+  export <repo> [path]   Write a stored repository back to a checkout's agelum folder
+  list                   List the repositories in the database
+
+[path] is a repository checkout or its agelum folder and defaults to the
+repository of that name in ~/.agelum/config.json. The database is
+${sqlite_storage_js_1.DATABASE_FILE} (set AGELUM_DATABASE to change it).`;
+/** Paths are relative to where the command was started, not this package */
+function toAgelumPath(repo, target) {
+    if (!target)
+        return (0, document_store_js_1.getAgelumPath)((0, config_js_1.resolveRepositoryPath)(repo));
+    const resolved = node_path_1.default.resolve(process.env.INIT_CWD ?? process.cwd(), target);
+    return node_path_1.default.basename(resolved) === 'agelum' ? resolved : (0, document_store_js_1.getAgelumPath)(resolved);
+}
+function run() {
+    const [command, repo, target] = process.argv.slice(2);
+    if (command === 'list') {
+        (0, sqlite_storage_js_1.listStoredRepositories)().forEach((name) => console.log(name));
+        return;
+    }
+    if ((command !== 'import' && command !== 'export') || !repo) {
+        console.error(USAGE);
+        process.exit(1);
+    }
+    const agelumPath = toAgelumPath(repo, target);
+    if (command === 'import') {
+        const files = (0, sqlite_storage_js_1.importAgelumFolder)(repo, agelumPath);
+        console.error(`Imported ${files} files from ${agelumPath} into ${repo}`);
+    }
+    else {
+        const files = (0, sqlite_storage_js_1.exportAgelumFolder)(repo, agelumPath);
+        console.error(`Exported ${files} files from ${repo} to ${agelumPath}`);
+    }
+}
+try {
+    run();
+}
+catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+}
@@ -3,12 +3,12 @@
 Object.defineProperty(exports, "__esModule", { value: true });
 const stdio_js_1 = require("@modelcontextprotocol/sdk/server/stdio.js");
 const mcp_js_1 = require("../src/lib/mcp.js");
-const config_js_1 = require("../src/lib/config.js");
 async function run() {
-    // Load global config to find root if CWD fails
-    const config = (0, config_js_1.getAgelumConfig)();
-    const globalRoot = config?.rootGitDirectory;
-    const server = (0, mcp_js_1.createAgelumMcpServer)(globalRoot);
+    // Tools default to the repo around the CWD; repositories from the global
+    // config can still be targeted by name
+    const server = (0, mcp_js_1.createAgelumMcpServer)({
+        detectRepoFromCwd: true,
+    });
     const transport = new stdio_js_1.StdioServerTransport();
     await server.connect(transport);
     console.error('Agelum MCP Server running on stdio');
@@ -3,14 +3,47 @@ var __importDefault = (this && this.__importDefault) || function (mod) {
     return (mod && mod.__esModule) ? mod : { "default": mod };
 };
 Object.defineProperty(exports, "__esModule", { value: true });
+exports.ConfigValidationError = exports.RepositoryNotFoundError = exports.THEMES = void 0;
 exports.getAgelumConfig = getAgelumConfig;
 exports.saveAgelumConfig = saveAgelumConfig;
-exports.ensureRootGitDirectory = ensureRootGitDirectory;
+exports.isValidRepositoryName = isValidRepositoryName;
+exports.parseAgelumConfig = parseAgelumConfig;
+exports.isServerMode = isServerMode;
+exports.getRootGitDirectories = getRootGitDirectories;
+exports.discoverRepositories = discoverRepositories;
+exports.listRepositories = listRepositories;
+exports.resolveRepositoryPath = resolveRepositoryPath;
 const node_fs_1 = __importDefault(require("node:fs"));
 const node_path_1 = __importDefault(require("node:path"));
 const node_os_1 = __importDefault(require("node:os"));
+const zod_1 = require("zod");
+const routes_1 = require("./routes");
 const CONFIG_DIR = node_path_1.default.join(node_os_1.default.homedir(), '.agelum');
 const CONFIG_FILE = node_path_1.default.join(CONFIG_DIR, 'config.json');
+/** Used when the config names no root directory */
+const DEFAULT_ROOT_GIT_DIRECTORY = node_path_1.default.join(node_os_1.default.homedir(), 'git');
+exports.THEMES = ['dark', 'light', 'system'];
+class RepositoryNotFoundError extends Error {
+    repo;
+    constructor(repo) {
+        super(`Repository not found: ${repo}`);
+        this.repo = repo;
+        this.name = 'RepositoryNotFoundError';
+    }
+}
+exports.RepositoryNotFoundError = RepositoryNotFoundError;
+/** Raised when a config fails validation, with one issue per bad setting */
+class ConfigValidationError extends Error {
+    issues;
+    constructor(issues) {
+        super(`Invalid config: ${issues
+            .map((issue) => `${issue.field}: ${issue.message}`)
+            .join('; ')}`);
+        this.issues = issues;
+        this.name = 'ConfigValidationError';
+    }
+}
+exports.ConfigValidationError = ConfigValidationError;
 function getAgelumConfig() {
     try {
         if (!node_fs_1.default.existsSync(CONFIG_FILE)) {
@@ -36,11 +69,140 @@ function saveAgelumConfig(config) {
         throw error;
     }
 }
-function ensureRootGitDirectory() {
-    const config = getAgelumConfig();
-    if (config?.rootGitDirectory) {
-        return config.rootGitDirectory;
+function expandHome(value) {
+    return value === '~' || value.startsWith('~/')
+        ? node_path_1.default.join(node_os_1.default.homedir(), value.slice(1))
+        : value;
+}
+function isDirectory(dir) {
+    return node_fs_1.default.existsSync(dir) && node_fs_1.default.statSync(dir).isDirectory();
+}
+/** Repository names are single, non-hidden path segments */
+function isValidRepositoryName(name) {
+    return !!name && name === node_path_1.default.basename(name) && !name.startsWith('.');
+}
+// --- Validation ---
+const directorySchema = zod_1.z
+    .string()
+    .trim()
+    .min(1)
+    .superRefine((value, ctx) => {
+    const resolved = expandHome(value);
+    if (!node_path_1.default.isAbsolute(resolved)) {
+        ctx.addIssue({ code: 'custom', message: `Use an absolute path: ${value}` });
+    }
+    else if (!isDirectory(resolved)) {
+        ctx.addIssue({ code: 'custom', message: `Directory does not exist: ${value}` });
+    }
+});
+const repositoryNameSchema = zod_1.z
+    .string()
+    .trim()
+    .refine(isValidRepositoryName, 'Invalid repository name');
+const repositorySettingsSchema = zod_1.z.object({
+    defaultView: zod_1.z.enum(routes_1.VIEWS).optional(),
+    theme: zod_1.z.enum(exports.THEMES).optional(),
+});
+const agelumConfigSchema = repositorySettingsSchema.extend({
+    rootGitDirectory: directorySchema.optional(),
+    rootGitDirectories: zod_1.z.array(directorySchema).optional(),
+    repositories: zod_1.z
+        .array(zod_1.z.union([
+        directorySchema,
+        zod_1.z.object({
+            name: repositoryNameSchema.optional(),
+            path: directorySchema,
+        }),
+    ]))
+        .optional(),
+    excludedRepositories: zod_1.z.array(repositoryNameSchema).optional(),
+    repositoryOverrides: zod_1.z
+        .record(repositoryNameSchema, repositorySettingsSchema)
+        .optional(),
+});
+/**
+ * Checks a config before it is saved: known settings only, and every root
+ * and registered repository must be an existing directory.
+ */
+function parseAgelumConfig(input) {
+    const result = agelumConfigSchema.safeParse(input ?? {});
+    if (!result.success) {
+        throw new ConfigValidationError(result.error.issues.map((issue) => ({
+            field: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+            message: issue.message,
+        })));
+    }
+    return result.data;
+}
+// --- Repository resolution ---
+/**
+ * Server mode serves repositories from the database (see `sqlite-storage`)
+ * instead of the directories below.
+ */
+function isServerMode() {
+    return process.env.SERVER_MODE === 'true';
+}
+/** Root directories from the config, falling back to `~/git` */
+function getRootGitDirectories(config = getAgelumConfig()) {
+    const roots = [
+        ...(config?.rootGitDirectories ?? []),
+        ...(config?.rootGitDirectory ? [config.rootGitDirectory] : []),
+    ]
+        .filter((root) => typeof root === 'string' && root.trim())
+        .map((root) => node_path_1.default.resolve(expandHome(root.trim())));
+    return roots.length > 0
+        ? Array.from(new Set(roots))
+        : [DEFAULT_ROOT_GIT_DIRECTORY];
+}
+/**
+ * Registered repositories first, then the folders of each root. The first
+ * repository with a name wins, so a registered repository shadows a root
+ * folder of the same name. Includes excluded repositories.
+ */
+function discoverRepositories(config = getAgelumConfig()) {
+    const repositories = new Map();
+    for (const entry of config?.repositories ?? []) {
+        const registered = typeof entry === 'string' ? { path: entry } : entry;
+        if (!registered || typeof registered.path !== 'string')
+            continue;
+        const repoPath = node_path_1.default.resolve(expandHome(registered.path.trim()));
+        const name = registered.name?.trim() || node_path_1.default.basename(repoPath);
+        if (!isValidRepositoryName(name) || repositories.has(name))
+            continue;
+        if (!isDirectory(repoPath))
+            continue;
+        repositories.set(name, { name, path: repoPath });
+    }
+    for (const root of getRootGitDirectories(config)) {
+        if (!isDirectory(root))
+            continue;
+        for (const entry of node_fs_1.default.readdirSync(root, { withFileTypes: true })) {
+            if (!entry.isDirectory() || !isValidRepositoryName(entry.name))
+                continue;
+            if (repositories.has(entry.name))
+                continue;
+            repositories.set(entry.name, {
+                name: entry.name,
+                path: node_path_1.default.join(root, entry.name),
+                root,
+            });
+        }
+    }
+    return Array.from(repositories.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+/** Every repository the app and the MCP server can open */
+function listRepositories(config = getAgelumConfig()) {
+    const excluded = new Set(config?.excludedRepositories ?? []);
+    return discoverRepositories(config).filter((repo) => !excluded.has(repo.name));
+}
+/** Path of a repository by name; the one resolver every route goes through */
+function resolveRepositoryPath(repo) {
+    const name = repo.trim();
+    if (!isValidRepositoryName(name)) {
+        throw new Error(`Invalid repository name: ${repo}`);
     }
-    // Default fallback (legacy behavior)
-    return node_path_1.default.resolve(process.cwd(), '../../..');
+    const found = listRepositories().find((entry) => entry.name === name);
+    if (!found)
+        throw new RepositoryNotFoundError(name);
+    return found.path;
 }
@@ -0,0 +1,331 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.ToolArgumentsError = exports.removalAreaSchema = exports.documentTypeSchema = void 0;
+exports.createToolSchemas = createToolSchemas;
+exports.isToolName = isToolName;
+exports.parseToolArguments = parseToolArguments;
+exports.toInputSchema = toInputSchema;
+const zod_1 = require("zod");
+const document_store_1 = require("./document-store");
+const workflow_1 = require("./workflow");
+// --- Shared Schemas ---
+exports.documentTypeSchema = zod_1.z.enum(document_store_1.DOCUMENT_TYPES);
+const statefulTypeSchema = zod_1.z.enum(workflow_1.STATEFUL_TYPES);
+exports.removalAreaSchema = zod_1.z.enum(['trash', 'archive']);
+const repoSchema = zod_1.z
+    .string()
+    .min(1)
+    .describe('Repository name as returned by list_repositories (optional, defaults to the selected repository)');
+const prioritySchema = zod_1.z
+    .number()
+    .nonnegative()
+    .describe('Task priority number (only for type=task)');
+const storyPointsSchema = zod_1.z
+    .number()
+    .nonnegative()
+    .describe('Story points (type=task required, type=epic optional)');
+const epicSchema = zod_1.z
+    .string()
+    .describe('Epic name if the task is grouped (only for type=task)');
+const fileNameSchema = zod_1.z
+    .string()
+    .min(1)
+    .describe('Override file name (optional, with or without .md)');
+const sectionUpdateSchema = zod_1.z.object({
+    heading: zod_1.z.string().min(1).describe('Heading text'),
+    content: zod_1.z.string().describe('Section content'),
+    mode: zod_1.z
+        .enum(['replace', 'append'])
+        .default('replace')
+        .describe('Replace the section content or append to it'),
+});
+function requireLocator(value, ctx) {
+    if (value.path)
+        return;
+    if (!value.type) {
+        ctx.addIssue({
+            code: 'custom',
+            path: ['type'],
+            message: 'type is required if path is not provided',
+        });
+    }
+    if (!value.title && !value.fileName) {
+        ctx.addIssue({
+            code: 'custom',
+            path: ['title'],
+            message: 'title is required if path and fileName are not provided',
+        });
+    }
+}
+function describeStates(workflow) {
+    return workflow_1.STATEFUL_TYPES.map((type) => `${type}: ${(0, workflow_1.getStateIds)(workflow, type).join(', ')}`).join('; ');
+}
+// --- Tool Schemas ---
+/**
+ * Builds the tool schemas for a repository. State arguments only accept the
+ * states its workflow (`agelum/config/workflow.json`) defines for each type.
+ */
+function createToolSchemas(workflow = workflow_1.DEFAULT_WORKFLOW) {
+    const stateSchema = zod_1.z.enum((0, workflow_1.getAllStateIds)(workflow));
+    const requireValidState = (value, ctx, field = 'state') => {
+        if (!value.type || !value.state || !(0, document_store_1.isStatefulType)(value.type))
+            return;
+        const states = (0, workflow_1.getStateIds)(workflow, value.type);
+        if (!states.includes(value.state)) {
+            ctx.addIssue({
+                code: 'custom',
+                path: [field],
+                message: `${value.state} is not a valid ${value.type} state (expected one of ${states.join(', ')})`,
+            });
+        }
+    };
+    // Fields shared by every tool that targets an existing document
+    const documentLocatorShape = {
+        repo: repoSchema.optional(),
+        path: zod_1.z
+            .string()
+            .min(1)
+            .describe('File path as returned by list/get (absolute or relative to the agelum folder)')
+            .optional(),
+        type: exports.documentTypeSchema.describe('Document type (if path omitted)').optional(),
+        title: zod_1.z
+            .string()
+            .describe('Title used to build the file name (if path and fileName omitted)')
+            .optional(),
+        state: stateSchema
+            .describe(`State folder (optional). ${describeStates(workflow)}`)
+            .optional(),
+        priority: prioritySchema.optional(),
+        storyPoints: storyPointsSchema.optional(),
+        fileName: fileNameSchema.optional(),
+        epic: epicSchema.optional(),
+    };
+    const documentLocatorSchema = zod_1.z
+        .object(documentLocatorShape)
+        .superRefine((value, ctx) => {
+        requireLocator(value, ctx);
+        requireValidState(value, ctx);
+    });
+    const createToolSchema = zod_1.z
+        .object({
+        repo: repoSchema.optional(),
+        type: exports.documentTypeSchema.describe('Document type'),
+        title: zod_1.z.string().trim().min(1).describe('Title used for naming and frontmatter'),
+        content: zod_1.z.string().default('').describe('Markdown content body'),
+        state: stateSchema
+            .describe(`Initial state for task, epic or idea (optional, defaults to the workflow's initial state). ${describeStates(workflow)}`)
+            .optional(),
+        priority: prioritySchema.optional(),
+        storyPoints: storyPointsSchema.optional(),
+        fileName: fileNameSchema.optional(),
+        epic: zod_1.z
+            .string()
+            .describe('Epic name to group this task under (only for type=task)')
+            .optional(),
+    })
+        .superRefine((value, ctx) => {
+        requireValidState(value, ctx);
+        if (value.type !== 'task' || value.fileName)
+            return;
+        for (const field of ['priority', 'storyPoints']) {
+            if (value[field] === undefined) {
+                ctx.addIssue({
+                    code: 'custom',
+                    path: [field],
+                    message: `${field} is required for task`,
+                });
+            }
+        }
+    });
+    const moveToolSchema = zod_1.z
+        .object({
+        repo: repoSchema.optional(),
+        type: statefulTypeSchema.describe('Document type (task, epic or idea)'),
+        title: zod_1.z.string().describe('Document title').optional(),
+        priority: zod_1.z.number().nonnegative().describe('Task priority number').optional(),
+        storyPoints: zod_1.z.number().nonnegative().describe('Story points').optional(),
+        fileName: fileNameSchema.optional(),
+        fromState: stateSchema.describe('Current state'),
+        toState: stateSchema.describe(`Target state. ${describeStates(workflow)}`),
+        epic: zod_1.z.string().describe('Epic name if the task is grouped').optional(),
+        force: zod_1.z
+            .boolean()
+            .describe('Start a task even though its dependsOn tasks are unfinished')
+            .optional(),
+    })
+        .superRefine((value, ctx) => {
+        requireValidState({ type: value.type, state: value.fromState }, ctx, 'fromState');
+        requireValidState({ type: value.type, state: value.toState }, ctx, 'toState');
+        if (value.fromState === value.toState) {
+            ctx.addIssue({
+                code: 'custom',
+                path: ['toState'],
+                message: 'fromState and toState must be different',
+            });
+        }
+        if (!value.title && !value.fileName) {
+            ctx.addIssue({
+                code: 'custom',
+                path: ['title'],
+                message: 'title is required if fileName is not provided',
+            });
+        }
+    });
+    const getToolSchema = zod_1.z
+        .object({
+        ...documentLocatorShape,
+        type: exports.documentTypeSchema.describe('Document type'),
+    })
+        .superRefine((value, ctx) => {
+        requireLocator(value, ctx);
+        requireValidState(value, ctx);
+    });
+    const listToolSchema = zod_1.z.object({
+        repo: repoSchema.optional(),
+        type: exports.documentTypeSchema
+            .describe('Only list documents of this type (optional)')
+            .optional(),
+        state: zod_1.z
+            .string()
+            .describe('Only list tasks/epics/ideas in this state (optional)')
+            .optional(),
+        epic: zod_1.z
+            .string()
+            .describe('Only list tasks grouped under this epic (optional)')
+            .optional(),
+        assignee: zod_1.z
+            .string()
+            .describe('Only list documents assigned to this user (optional)')
+            .optional(),
+        query: zod_1.z
+            .string()
+            .describe('Case-insensitive text matched against title and content (optional)')
+            .optional(),
+    });
+    const updateToolSchema = zod_1.z
+        .object({
+        ...documentLocatorShape,
+        frontmatter: zod_1.z
+            .record(zod_1.z.string(), zod_1.z.unknown())
+            .describe('Frontmatter fields to set. Use null to remove a field (optional)')
+            .optional(),
+        body: zod_1.z.string().describe('Replace the whole markdown body (optional)').optional(),
+        sections: zod_1.z
+            .array(sectionUpdateSchema)
+            .describe('Sections to replace or append to, matched by heading text. Missing sections are added at the end (optional)')
+            .optional(),
+        append: zod_1.z
+            .string()
+            .describe('Markdown appended to the end of the body (optional)')
+            .optional(),
+    })
+        .superRefine((value, ctx) => {
+        requireLocator(value, ctx);
+        requireValidState(value, ctx);
+    });
+    const restoreToolSchema = zod_1.z.object({
+        repo: repoSchema.optional(),
+        id: zod_1.z.string().min(1).describe('Entry id returned by delete/archive or list_trash'),
+        area: exports.removalAreaSchema
+            .describe('Where to look for the entry (optional, both by default)')
+            .optional(),
+    });
+    const listTrashToolSchema = zod_1.z.object({
+        repo: repoSchema.optional(),
+        area: exports.removalAreaSchema
+            .describe('Only list one area (optional, both by default)')
+            .optional(),
+    });
+    const listRepositoriesToolSchema = zod_1.z.object({});
+    const selectRepositoryToolSchema = zod_1.z.object({
+        repo: zod_1.z.string().min(1).describe('Repository name as returned by list_repositories'),
+    });
+    return {
+        create: {
+            description: 'Create a new markdown file in the agelum structure. Returns the file path only.',
+            schema: createToolSchema,
+        },
+        move: {
+            description: 'Move a task, epic or idea between states. Returns from/to paths only.',
+            schema: moveToolSchema,
+        },
+        get: {
+            description: 'Resolve a file path in the agelum structure. Returns the file path only.',
+            schema: getToolSchema,
+        },
+        list: {
+            description: 'List documents in the agelum structure. Returns structured entries (type, state, epic, title, priority, storyPoints, path, frontmatter).',
+            schema: listToolSchema,
+        },
+        read: {
+            description: 'Read a document. Returns its path, parsed frontmatter and markdown body.',
+            schema: documentLocatorSchema,
+        },
+        update: {
+            description: 'Update a document in place. Patches frontmatter keys (null removes a key, other keys are kept) and replaces the body or individual sections. Returns the updated frontmatter and body.',
+            schema: updateToolSchema,
+        },
+        delete: {
+            description: 'Move a document to agelum/.trash. Returns the trash entry id, which can be passed to restore.',
+            schema: documentLocatorSchema,
+        },
+        archive: {
+            description: 'Move a document to agelum/archive. Returns the archive entry id, which can be passed to restore.',
+            schema: documentLocatorSchema,
+        },
+        restore: {
+            description: 'Restore a deleted or archived document to its original path. Returns from/to paths only.',
+            schema: restoreToolSchema,
+        },
+        list_trash: {
+            description: 'List deleted and archived documents with their original path and removal time.',
+            schema: listTrashToolSchema,
+        },
+        list_repositories: {
+            description: 'List repositories in the configured root directories or registered in the config, and which one is selected for this session.',
+            schema: listRepositoriesToolSchema,
+        },
+        select_repository: {
+            description: 'Select the default repository for this session. Tools called without a repo argument use it.',
+            schema: selectRepositoryToolSchema,
+        },
+    };
+}
+const TOOL_NAMES = Object.keys(createToolSchemas());
+/**
+ * Raised when tool arguments fail validation. Carries one issue per
+ * offending field so clients can fix their call.
+ */
+class ToolArgumentsError extends Error {
+    tool;
+    issues;
+    constructor(tool, issues) {
+        super(`Invalid arguments for ${tool}: ${issues
+            .map((issue) => `${issue.field}: ${issue.message}`)
+            .join('; ')}`);
+        this.tool = tool;
+        this.issues = issues;
+        this.name = 'ToolArgumentsError';
+    }
+}
+exports.ToolArgumentsError = ToolArgumentsError;
+function isToolName(name) {
+    return TOOL_NAMES.includes(name);
+}
+function parseToolArguments(name, args, workflow = workflow_1.DEFAULT_WORKFLOW) {
+    const result = createToolSchemas(workflow)[name].schema.safeParse(args ?? {});
+    if (!result.success) {
+        throw new ToolArgumentsError(name, result.error.issues.map((issue) => ({
+            field: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+            message: issue.message,
+        })));
+    }
+    return result.data;
+}
+/**
+ * JSON Schema advertised in `tools/list`, derived from the zod schema.
+ */
+function toInputSchema(schema) {
+    const { $schema, ...jsonSchema } = zod_1.z.toJSONSchema(schema, { io: 'input' });
+    return { ...jsonSchema, type: 'object' };
+}
@@ -9,242 +9,28 @@ const node_fs_1 = __importDefault(require("node:fs"));
 const node_path_1 = __importDefault(require("node:path"));
 const types_js_1 = require("@modelcontextprotocol/sdk/types.js");
 const index_js_1 = require("@modelcontextprotocol/sdk/server/index.js");
-const AGELUM_STRUCTURE = [
-    'docs',
-    'plans',
-    'tasks/pending',
-    'tasks/doing',
-    'tasks/done',
-    'commands',
-    'skills',
-    'agents',
-    'context',
-    'epics',
-];
-const nonTaskTypeToDir = {
-    epic: 'epics',
-    plan: 'plans',
-    doc: 'docs',
-    command: 'commands',
-    skill: 'skills',
-    agent: 'agents',
-    context: 'context',
-};
-// --- Helpers ---
-function getAgelumPath(repoPath) {
-    return node_path_1.default.join(repoPath, 'agelum');
-}
-function ensureAgelumStructure(repoPath) {
-    const agelumPath = getAgelumPath(repoPath);
-    node_fs_1.default.mkdirSync(agelumPath, { recursive: true });
-    AGELUM_STRUCTURE.forEach((dir) => {
-        node_fs_1.default.mkdirSync(node_path_1.default.join(agelumPath, dir), { recursive: true });
-    });
-    return agelumPath;
-}
-function sanitizeFileNamePart(value) {
-    return value
-        .replace(/[\/\\]/g, '-')
-        .replace(/[\0<>:"|?*]/g, '')
-        .replace(/\s+/g, ' ')
-        .trim();
-}
-function ensureMdExtension(fileName) {
-    const trimmed = fileName.trim();
-    if (trimmed.toLowerCase().endsWith('.md'))
-        return trimmed;
-    return `${trimmed}.md`;
-}
-function formatStoryPoints(value) {
-    return Number.isInteger(value) ? String(value) : String(value);
-}
-function formatPriority(value) {
-    if (!Number.isFinite(value) || value < 0) {
-        throw new Error('priority must be a non-negative number');
-    }
-    return String(Math.trunc(value)).padStart(2, '0');
-}
-function buildFileName(args) {
-    const title = sanitizeFileNamePart(args.title);
-    if (!title)
-        throw new Error('title is required');
-    if (args.type === 'task') {
-        if (args.priority === undefined)
-            throw new Error('priority is required for task');
-        if (args.storyPoints === undefined)
-            throw new Error('storyPoints is required for task');
-        const priority = formatPriority(args.priority);
-        const storyPoints = formatStoryPoints(args.storyPoints);
-        return `${priority} ${title} (${storyPoints}).md`;
-    }
-    if (args.storyPoints !== undefined) {
-        const storyPoints = formatStoryPoints(args.storyPoints);
-        return `${title} (${storyPoints}).md`;
-    }
-    return `${title}.md`;
-}
-function buildFrontmatter(args) {
-    const lines = [
-        '---',
-        `title: ${args.title}`,
-        `created: ${new Date().toISOString()}`,
-        `type: ${args.type}`,
-    ];
-    if (args.type === 'task') {
-        if (!args.state)
-            throw new Error('state is required for task');
-        lines.push(`state: ${args.state}`);
-        if (args.priority !== undefined)
-            lines.push(`priority: ${formatPriority(args.priority)}`);
-        if (args.storyPoints !== undefined)
-            lines.push(`storyPoints: ${formatStoryPoints(args.storyPoints)}`);
-    }
-    else {
-        if (args.storyPoints !== undefined)
-            lines.push(`storyPoints: ${formatStoryPoints(args.storyPoints)}`);
-    }
-    lines.push('---');
-    return `${lines.join('\n')}\n`;
-}
+const trash_1 = require("./trash");
+const config_1 = require("./config");
+const sqlite_storage_1 = require("./sqlite-storage");
+const storage_1 = require("./storage");
+const document_store_1 = require("./document-store");
+const workflow_1 = require("./workflow");
+const mcp_schemas_1 = require("./mcp-schemas");
 // --- Tools Definition ---
-const tools = {
-    create: {
-        name: 'create',
-        description: 'Create a new markdown file in the agelum structure. Returns the file path only.',
-        inputSchema: {
-            type: 'object',
-            properties: {
-                type: {
-                    type: 'string',
-                    enum: [
-                        'task',
-                        'epic',
-                        'plan',
-                        'doc',
-                        'command',
-                        'skill',
-                        'agent',
-                        'context',
-                    ],
-                    description: 'Document type',
-                },
-                title: {
-                    type: 'string',
-                    description: 'Title used for naming and frontmatter',
-                },
-                content: { type: 'string', description: 'Markdown content body' },
-                state: {
-                    type: 'string',
-                    enum: ['pending', 'doing', 'done'],
-                    default: 'pending',
-                    description: 'Task state (only for type=task)',
-                },
-                priority: {
-                    type: 'number',
-                    description: 'Task priority number (only for type=task)',
-                },
-                storyPoints: {
-                    type: 'number',
-                    description: 'Story points (type=task required, type=epic optional)',
-                },
-                fileName: {
-                    type: 'string',
-                    description: 'Override file name (optional, with or without .md)',
-                },
-            },
-            required: ['type', 'title'],
-        },
-    },
-    move: {
-        name: 'move',
-        description: 'Move a task between states. Returns from/to paths only.',
-        inputSchema: {
-            type: 'object',
-            properties: {
-                type: {
-                    type: 'string',
-                    enum: ['task'],
-                    description: 'Only task is supported',
-                },
-                title: { type: 'string', description: 'Task title' },
-                priority: { type: 'number', description: 'Task priority number' },
-                storyPoints: { type: 'number', description: 'Task story points' },
-                fileName: {
-                    type: 'string',
-                    description: 'Override file name (optional)',
-                },
-                fromState: {
-                    type: 'string',
-                    enum: ['pending', 'doing', 'done'],
-                    description: 'Current state',
-                },
-                toState: {
-                    type: 'string',
-                    enum: ['pending', 'doing', 'done'],
-                    description: 'Target state',
-                },
-            },
-            required: ['type', 'fromState', 'toState'],
-        },
-    },
-    get: {
-        name: 'get',
-        description: 'Resolve a file path in the agelum structure. Returns the file path only.',
-        inputSchema: {
-            type: 'object',
-            properties: {
-                type: {
-                    type: 'string',
-                    enum: [
-                        'task',
-                        'epic',
-                        'plan',
-                        'doc',
-                        'command',
-                        'skill',
-                        'agent',
-                        'context',
-                    ],
-                    description: 'Document type',
-                },
-                title: {
-                    type: 'string',
-                    description: 'Title used to build the file name (if fileName omitted)',
-                },
-                state: {
-                    type: 'string',
-                    enum: ['pending', 'doing', 'done'],
-                    description: 'Task state (optional)',
-                },
-                priority: {
-                    type: 'number',
-                    description: 'Task priority number (only for type=task)',
-                },
-                storyPoints: {
-                    type: 'number',
-                    description: 'Story points (type=task required, type=epic optional)',
-                },
-                fileName: {
-                    type: 'string',
-                    description: 'Override file name (optional)',
-                },
-            },
-            required: ['type'],
-        },
-    },
-};
-// --- Repo Discovery Logic ---
+function listTools(workflow) {
+    return Object.entries((0, mcp_schemas_1.createToolSchemas)(workflow)).map(([name, { description, schema }]) => ({
+        name,
+        description,
+        inputSchema: (0, mcp_schemas_1.toInputSchema)(schema),
+    }));
+}
 /**
- * Finds the repository root.
- * Prioritizes `process.cwd()` (Stdio mode).
- * If not found, falls back to `globalConfigRoot` (Service mode).
+ * Finds the repository containing `startPath` by walking up to the nearest
+ * folder with a `.git` entry.
  */
-function findRepoRootPath(globalConfigRoot) {
-    // 1. Try finding .git from current working directory (Stdio mode)
-    console.error(`Agelum: Searching for .git starting from ${process.cwd()}`);
-    let currentPath = process.cwd();
-    // Safety check: Don't walk up if we are in a system root or unexpected place
-    // But for now, standard walking is fine.
+function findRepoRootPath(startPath = process.cwd()) {
+    console.error(`Agelum: Searching for .git starting from ${startPath}`);
+    let currentPath = startPath;
     // We limit the walk to avoid infinite loops or going too far up in Docker
     const MAX_DEPTH = 10;
     let depth = 0;
@@ -261,163 +47,482 @@ function findRepoRootPath(globalConfigRoot) {
         depth++;
     }
     console.error('Agelum: Could not find .git via CWD traversal.');
-    // 2. Fallback to Global Config (Service mode / Web App context)
-    if (globalConfigRoot) {
-        console.error(`Agelum: Falling back to global config root: ${globalConfigRoot}`);
-        if (node_fs_1.default.existsSync(globalConfigRoot)) {
-            // Check if it has .git or is a valid dir
-            return globalConfigRoot;
+    return null;
+}
+// --- Resources ---
+const RESOURCE_SCHEME = 'agelum://';
+// Coalesces the burst of fs events a single save usually produces
+const WATCH_DEBOUNCE_MS = 100;
+function toResourceUri(store, filePath) {
+    const segments = node_path_1.default
+        .relative(store.agelumPath, filePath)
+        .split(node_path_1.default.sep)
+        .map(encodeURIComponent);
+    return `${RESOURCE_SCHEME}${segments.join('/')}`;
+}
+function fromResourceUri(store, uri) {
+    if (!uri.startsWith(RESOURCE_SCHEME)) {
+        throw new Error(`Unsupported resource URI: ${uri}`);
+    }
+    const relative = uri
+        .slice(RESOURCE_SCHEME.length)
+        .split('/')
+        .map(decodeURIComponent)
+        .join(node_path_1.default.sep);
+    // Same guard as the tools: `..`, absolute paths and symlinks out are rejected
+    const filePath = store.resolvePath(relative, { mustExist: true });
+    store.inferType(filePath);
+    return filePath;
+}
+function listDocumentResources(store) {
+    return store.list().map((entry) => ({
+        uri: toResourceUri(store, entry.path),
+        name: node_path_1.default.relative(store.agelumPath, entry.path).split(node_path_1.default.sep).join('/'),
+        title: entry.title,
+        description: [entry.type, entry.state, entry.epic]
+            .filter(Boolean)
+            .join(' / '),
+        mimeType: 'text/markdown',
+    }));
+}
+function listResourceTemplates() {
+    return document_store_1.DOCUMENT_TYPES.flatMap((type) => {
+        const dir = (0, document_store_1.typeToDir)(type);
+        const templates = [];
+        // Tasks, epics and ideas always live under a state folder
+        if (!(0, document_store_1.isStatefulType)(type)) {
+            templates.push({
+                uriTemplate: `${RESOURCE_SCHEME}${dir}/{file}`,
+                name: `${type}`,
+                description: `A ${type} document in agelum/${dir}`,
+                mimeType: 'text/markdown',
+            });
+        }
+        if ((0, document_store_1.isStatefulType)(type)) {
+            templates.push({
+                uriTemplate: `${RESOURCE_SCHEME}${dir}/{state}/{file}`,
+                name: `${type}-by-state`,
+                description: `A ${type} document in agelum/${dir}/<state>`,
+                mimeType: 'text/markdown',
+            });
+        }
+        if (type === 'task') {
+            templates.push({
+                uriTemplate: `${RESOURCE_SCHEME}${dir}/{state}/{epic}/{file}`,
+                name: 'task-by-epic',
+                description: 'A task grouped under an epic in agelum/tasks/<state>/<epic>',
+                mimeType: 'text/markdown',
+            });
+        }
+        return templates;
+    });
+}
+/**
+ * Serves agelum documents as MCP resources and notifies subscribers when the
+ * underlying files change. The file watcher starts once a client lists or
+ * subscribes to resources and stops when the server closes.
+ */
+function registerResourceHandlers(server, resolveStore) {
+    const subscriptions = new Set();
+    const pending = new Map();
+    let watcher = null;
+    const notify = (key, send) => {
+        clearTimeout(pending.get(key));
+        pending.set(key, setTimeout(() => {
+            pending.delete(key);
+            send().catch((error) => console.error('Agelum: Failed to send resource notification:', error));
+        }, WATCH_DEBOUNCE_MS));
+    };
+    // Only folders on disk can be watched; database changes go unannounced
+    const startWatcher = (store) => {
+        if (watcher || !(store.storage instanceof storage_1.FileSystemStorage))
+            return;
+        watcher = node_fs_1.default.watch(store.agelumPath, { recursive: true }, (eventType, file) => {
+            if (!file || !file.toString().toLowerCase().endsWith('.md'))
+                return;
+            const filePath = node_path_1.default.join(store.agelumPath, file.toString());
+            const uri = toResourceUri(store, filePath);
+            // 'rename' covers files being created, deleted or moved
+            if (eventType === 'rename') {
+                notify('list', () => server.sendResourceListChanged());
+            }
+            if (subscriptions.has(uri)) {
+                notify(uri, () => server.sendResourceUpdated({ uri }));
+            }
+        });
+        watcher.on('error', (error) => {
+            console.error('Agelum: Resource watcher failed:', error);
+            watcher?.close();
+            watcher = null;
+        });
+    };
+    server.setRequestHandler(types_js_1.ListResourcesRequestSchema, async () => {
+        const store = resolveStore();
+        startWatcher(store);
+        return { resources: listDocumentResources(store) };
+    });
+    server.setRequestHandler(types_js_1.ListResourceTemplatesRequestSchema, async () => {
+        return { resourceTemplates: listResourceTemplates() };
+    });
+    server.setRequestHandler(types_js_1.ReadResourceRequestSchema, async (request) => {
+        const { uri } = request.params;
+        const store = resolveStore();
+        const filePath = fromResourceUri(store, uri);
+        return {
+            contents: [
+                {
+                    uri,
+                    mimeType: 'text/markdown',
+                    text: store.storage.readFile(filePath),
+                },
+            ],
+        };
+    });
+    server.setRequestHandler(types_js_1.SubscribeRequestSchema, async (request) => {
+        const store = resolveStore();
+        fromResourceUri(store, request.params.uri);
+        subscriptions.add(request.params.uri);
+        startWatcher(store);
+        return {};
+    });
+    server.setRequestHandler(types_js_1.UnsubscribeRequestSchema, async (request) => {
+        subscriptions.delete(request.params.uri);
+        return {};
+    });
+    const stop = () => {
+        watcher?.close();
+        watcher = null;
+        pending.forEach((timeout) => clearTimeout(timeout));
+        pending.clear();
+        subscriptions.clear();
+    };
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+        previousOnClose?.();
+        stop();
+    };
+    return {
+        /** Drops subscriptions and the watcher after the session switches repository */
+        reset: () => {
+            stop();
+            server
+                .sendResourceListChanged()
+                .catch((error) => console.error('Agelum: Failed to send resource notification:', error));
+        },
+    };
+}
+// --- Prompts ---
+// Markdown folders whose files are advertised as prompts
+const PROMPT_SOURCES = [
+    { type: 'command', prefix: '' },
+    { type: 'skill', prefix: 'skill:' },
+];
+function toPromptName(value) {
+    return value
+        .trim()
+        .toLowerCase()
+        .replace(/\.md$/, '')
+        .replace(/[^a-z0-9_:-]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+/**
+ * Reads prompt arguments from frontmatter. Accepts either a list of names
+ * (`arguments: [branch, ticket]`) or a list of objects with `name`,
+ * `description` and `required`.
+ */
+function parsePromptArguments(value) {
+    if (!Array.isArray(value))
+        return [];
+    return value.flatMap((item) => {
+        if (typeof item === 'string' && item.trim()) {
+            return [{ name: item.trim() }];
+        }
+        if (item && typeof item === 'object' && typeof item.name === 'string') {
+            return [
+                {
+                    name: item.name.trim(),
+                    ...(typeof item.description === 'string' && {
+                        description: item.description,
+                    }),
+                    ...(item.required === true && { required: true }),
+                },
+            ];
+        }
+        return [];
+    });
+}
+function loadPrompts(store) {
+    const prompts = [];
+    for (const source of PROMPT_SOURCES) {
+        const dir = store.typePath(source.type);
+        for (const filePath of store.listFiles(source.type)) {
+            const { frontmatter, body, title } = store.read(filePath, source.type);
+            if (frontmatter.prompt === false)
+                continue;
+            const baseName = typeof frontmatter.name === 'string' && frontmatter.name.trim()
+                ? frontmatter.name
+                : node_path_1.default.relative(dir, filePath).split(node_path_1.default.sep).join('/');
+            prompts.push({
+                name: `${source.prefix}${toPromptName(baseName)}`,
+                title,
+                ...(typeof frontmatter.description === 'string' && {
+                    description: frontmatter.description,
+                }),
+                arguments: parsePromptArguments(frontmatter.arguments),
+                filePath,
+                template: body.trim(),
+            });
         }
     }
-    return null;
+    return prompts.sort((a, b) => a.name.localeCompare(b.name));
+}
+function renderPrompt(prompt, values) {
+    const missing = (prompt.arguments ?? []).filter((arg) => arg.required && !values[arg.name]);
+    if (missing.length > 0) {
+        throw new Error(`Missing required arguments: ${missing.map((arg) => arg.name).join(', ')}`);
+    }
+    // Unknown placeholders are left untouched so literal braces survive
+    const known = new Set((prompt.arguments ?? []).map((arg) => arg.name));
+    return prompt.template.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (match, name) => (known.has(name) ? values[name] ?? '' : match));
+}
+/**
+ * Turns markdown files in `agelum/commands` and `agelum/skills` into MCP
+ * prompts. Set `prompt: false` in a file's frontmatter to hide it.
+ */
+function registerPromptHandlers(server, resolveStore) {
+    server.setRequestHandler(types_js_1.ListPromptsRequestSchema, async () => {
+        const prompts = loadPrompts(resolveStore()).map(({ filePath, template, ...prompt }) => prompt);
+        return { prompts };
+    });
+    server.setRequestHandler(types_js_1.GetPromptRequestSchema, async (request) => {
+        const { name, arguments: values = {} } = request.params;
+        const prompt = loadPrompts(resolveStore()).find((p) => p.name === name);
+        if (!prompt)
+            throw new Error(`Unknown prompt: ${name}`);
+        return {
+            ...(prompt.description && { description: prompt.description }),
+            messages: [
+                {
+                    role: 'user',
+                    content: { type: 'text', text: renderPrompt(prompt, values) },
+                },
+            ],
+        };
+    });
 }
 // --- Server Setup ---
-function createAgelumMcpServer(globalConfigRoot) {
+function createAgelumMcpServer(options = {}) {
+    const { detectRepoFromCwd = false } = options;
+    let selectedRepo = null;
     const server = new index_js_1.Server({
         name: 'agelum',
         version: '0.1.0',
     }, {
         capabilities: {
             tools: {},
+            resources: {
+                subscribe: true,
+                listChanged: true,
+            },
+            prompts: {},
         },
     });
+    // An explicit repo wins, then the session selection, then the CWD (stdio)
+    const openStore = (repo) => {
+        const name = repo ?? selectedRepo;
+        if (name)
+            return (0, document_store_1.openRepoDocumentStore)(name);
+        const cwdRepo = detectRepoFromCwd ? findRepoRootPath() : null;
+        if (cwdRepo)
+            return document_store_1.DocumentStore.forRepoPath(cwdRepo);
+        throw new Error('No repository selected. Pass repo or call select_repository (see list_repositories).');
+    };
+    const resolveStore = (repo) => openStore(repo).ensureStructure();
+    const resources = registerResourceHandlers(server, () => resolveStore());
+    registerPromptHandlers(server, () => resolveStore());
     server.setRequestHandler(types_js_1.ListToolsRequestSchema, async () => {
+        // State enums follow the current repository's workflow when there is one
+        let workflow = workflow_1.DEFAULT_WORKFLOW;
+        try {
+            workflow = openStore().workflow;
+        }
+        catch {
+            // No repository selected yet (or an invalid workflow.json)
+        }
         return {
-            tools: Object.values(tools),
+            tools: listTools(workflow),
         };
     });
     server.setRequestHandler(types_js_1.CallToolRequestSchema, async (request) => {
         const { name, arguments: args } = request.params;
         try {
-            const repoRootPath = findRepoRootPath(globalConfigRoot);
-            if (!repoRootPath)
-                throw new Error('Could not find repository root');
-            const agelumPath = ensureAgelumStructure(repoRootPath);
+            if (!(0, mcp_schemas_1.isToolName)(name))
+                throw new Error(`Unknown tool: ${name}`);
+            if (name === 'list_repositories') {
+                // Server mode has no directories: every repository is in the database
+                const listing = (0, config_1.isServerMode)()
+                    ? {
+                        roots: [],
+                        repositories: (0, sqlite_storage_1.listStoredRepositories)().map((repo) => ({
+                            name: repo,
+                            hasAgelum: true,
+                        })),
+                    }
+                    : {
+                        roots: (0, config_1.getRootGitDirectories)(),
+                        repositories: (0, config_1.listRepositories)().map((repo) => ({
+                            name: repo.name,
+                            path: repo.path,
+                            hasAgelum: node_fs_1.default.existsSync((0, document_store_1.getAgelumPath)(repo.path)),
+                        })),
+                    };
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: JSON.stringify({ ...listing, selected: selectedRepo }),
+                        },
+                    ],
+                };
+            }
+            if (name === 'select_repository') {
+                const { repo } = (0, mcp_schemas_1.parseToolArguments)(name, args);
+                const repoPath = node_path_1.default.dirname((0, document_store_1.openRepoDocumentStore)(repo).agelumPath);
+                if (selectedRepo !== repo) {
+                    selectedRepo = repo;
+                    resources.reset();
+                }
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: JSON.stringify({ repo, path: repoPath }),
+                        },
+                    ],
+                };
+            }
+            // Arguments are validated against the target repository's workflow
+            const store = resolveStore(typeof args?.repo === 'string' ? args.repo : undefined);
+            const input = (0, mcp_schemas_1.parseToolArguments)(name, args, store.workflow);
             switch (name) {
                 case 'create': {
-                    const { type, title, content = '', state = 'pending', priority, storyPoints, fileName, } = args;
-                    const resolvedFileName = ensureMdExtension(sanitizeFileNamePart(fileName ?? buildFileName({ type, title, priority, storyPoints })));
-                    const targetDir = type === 'task'
-                        ? node_path_1.default.join(agelumPath, 'tasks', state)
-                        : node_path_1.default.join(agelumPath, nonTaskTypeToDir[type]);
-                    node_fs_1.default.mkdirSync(targetDir, { recursive: true });
-                    const filePath = node_path_1.default.join(targetDir, resolvedFileName);
-                    if (node_fs_1.default.existsSync(filePath))
-                        throw new Error(`File already exists: ${filePath}`);
-                    const frontmatter = buildFrontmatter({
-                        type,
-                        title,
-                        state,
-                        priority,
-                        storyPoints,
-                    });
-                    const body = `\n# ${title}\n\n${content}\n`;
-                    node_fs_1.default.writeFileSync(filePath, `${frontmatter}${body}`);
+                    const entry = store.create(input);
                     return {
                         content: [
                             {
                                 type: 'text',
-                                text: JSON.stringify({ path: filePath }),
+                                text: JSON.stringify({ path: entry.path }),
                             },
                         ],
                     };
                 }
                 case 'move': {
-                    const { type, title = '', priority, storyPoints, fileName, fromState, toState, } = args;
-                    if (fromState === toState) {
-                        throw new Error('fromState and toState must be different');
-                    }
-                    let sourceFileName = fileName;
-                    if (!sourceFileName) {
-                        if (!title)
-                            throw new Error('title is required if fileName is not provided');
-                        sourceFileName = buildFileName({ type, title, priority, storyPoints });
-                    }
-                    sourceFileName = ensureMdExtension(sourceFileName);
-                    const sourceDir = node_path_1.default.join(agelumPath, 'tasks', fromState);
-                    const sourcePath = node_path_1.default.join(sourceDir, sourceFileName);
-                    if (!node_fs_1.default.existsSync(sourcePath)) {
-                        throw new Error(`Source file not found: ${sourcePath}`);
-                    }
-                    const targetDir = node_path_1.default.join(agelumPath, 'tasks', toState);
-                    node_fs_1.default.mkdirSync(targetDir, { recursive: true });
-                    const targetPath = node_path_1.default.join(targetDir, sourceFileName);
-                    if (node_fs_1.default.existsSync(targetPath)) {
-                        throw new Error(`Target file already exists: ${targetPath}`);
-                    }
-                    node_fs_1.default.renameSync(sourcePath, targetPath);
+                    const { type, title = '', priority, storyPoints, fileName, fromState, toState, epic, force, } = input;
+                    const result = store.move({
+                        type,
+                        fileName: fileName ?? (0, document_store_1.buildFileName)({ type, title, priority, storyPoints }),
+                        fromState,
+                        toState,
+                        epic,
+                        force,
+                    });
                     return {
                         content: [
                             {
                                 type: 'text',
-                                text: JSON.stringify({ from: sourcePath, to: targetPath }),
+                                text: JSON.stringify(result),
                             },
                         ],
                     };
                 }
                 case 'get': {
-                    const { type, title = '', state, priority, storyPoints, fileName, } = args;
-                    let resolvedFileName = fileName;
-                    if (!resolvedFileName) {
-                        if (!title)
-                            throw new Error('title is required if fileName is not provided');
-                        // For tasks, we might not have priority/storyPoints when getting, so we might need to search?
-                        // But the user simplified requirements: "get will return the path only".
-                        // If the user provides partial info, we can't build the exact filename if it relies on priority.
-                        // Assuming strict inputs for now as per "buildFileName".
-                        if (type === 'task') {
-                            if (priority !== undefined && storyPoints !== undefined) {
-                                resolvedFileName = buildFileName({ type, title, priority, storyPoints });
-                            }
-                            else {
-                                // If we lack details, we might want to SEARCH for the file by title?
-                                // For now, let's assume exact match or fail if params missing.
-                                // But let's allow "fuzzy" get if just title is provided?
-                                // The user requirement "get will return the path only" implies resolution.
-                            }
-                        }
-                        else {
-                            resolvedFileName = buildFileName({ type, title, priority, storyPoints });
-                        }
-                    }
-                    if (!resolvedFileName && type === 'task') {
-                        // Fallback: search for file starting with title? Or containing title?
-                        // Given strict naming, maybe we search.
-                        // Let's keep it simple: if we can't build it, we return what we think it is.
-                        resolvedFileName = ensureMdExtension(sanitizeFileNamePart(title));
-                    }
-                    if (resolvedFileName) {
-                        resolvedFileName = ensureMdExtension(resolvedFileName);
-                    }
-                    else {
-                        throw new Error("Could not resolve filename from arguments");
-                    }
-                    let possiblePaths = [];
-                    if (type === 'task') {
-                        if (state) {
-                            possiblePaths.push(node_path_1.default.join(agelumPath, 'tasks', state, resolvedFileName));
-                        }
-                        else {
-                            possiblePaths.push(node_path_1.default.join(agelumPath, 'tasks', 'pending', resolvedFileName));
-                            possiblePaths.push(node_path_1.default.join(agelumPath, 'tasks', 'doing', resolvedFileName));
-                            possiblePaths.push(node_path_1.default.join(agelumPath, 'tasks', 'done', resolvedFileName));
-                        }
-                    }
-                    else {
-                        possiblePaths.push(node_path_1.default.join(agelumPath, nonTaskTypeToDir[type], resolvedFileName));
-                    }
-                    const existingPath = possiblePaths.find(p => node_fs_1.default.existsSync(p));
-                    if (existingPath) {
-                        return {
-                            content: [{ type: 'text', text: JSON.stringify({ path: existingPath, exists: true }) }]
-                        };
-                    }
-                    // If not found, return the expected path (first option)
+                    const searchPath = store.resolve(input);
                     return {
                         content: [
                             {
                                 type: 'text',
-                                text: JSON.stringify({ path: possiblePaths[0], exists: false }),
+                                text: JSON.stringify({ path: searchPath }),
+                            },
+                        ],
+                    };
+                }
+                case 'list': {
+                    const filters = input;
+                    const entries = store.list(filters);
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify({ entries }),
+                            },
+                        ],
+                    };
+                }
+                case 'read': {
+                    const filePath = store.resolve(input);
+                    const { frontmatter, body } = store.read(filePath);
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify({ path: filePath, frontmatter, body }),
+                            },
+                        ],
+                    };
+                }
+                case 'update': {
+                    const { frontmatter, body, sections, append, ...locator } = input;
+                    const filePath = store.resolve(locator);
+                    // Only documents inside a known type folder can be edited
+                    store.inferType(filePath);
+                    const updated = store.update(filePath, {
+                        frontmatter,
+                        body,
+                        sections,
+                        append,
+                    });
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify({ path: filePath, ...updated }),
+                            },
+                        ],
+                    };
+                }
+                case 'delete':
+                case 'archive': {
+                    const filePath = store.resolve(input);
+                    const entry = (0, trash_1.moveToArea)(store.storage, filePath, name === 'delete' ? 'trash' : 'archive');
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify(entry),
+                            },
+                        ],
+                    };
+                }
+                case 'restore': {
+                    const { id, area } = input;
+                    const result = (0, trash_1.restoreRemoved)(store.storage, id, area, (target) => store.resolvePath(target));
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify(result),
+                            },
+                        ],
+                    };
+                }
+                case 'list_trash': {
+                    const { area } = input;
+                    const entries = (0, trash_1.listRemoved)(store.storage, area);
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify({ entries }),
                             },
                         ],
                     };
@@ -427,6 +532,21 @@ function createAgelumMcpServer(globalConfigRoot) {
             }
         }
         catch (error) {
+            if (error instanceof mcp_schemas_1.ToolArgumentsError) {
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: JSON.stringify({
+                                error: 'Invalid arguments',
+                                tool: error.tool,
+                                issues: error.issues,
+                            }),
+                        },
+                    ],
+                    isError: true,
+                };
+            }
             return {
                 content: [
                     {
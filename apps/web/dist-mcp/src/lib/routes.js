@@ -0,0 +1,107 @@
+"use strict";
+// --- Types & Constants ---
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.BOARD_VIEW_TYPES = exports.VIEWS = exports.DEFAULT_VIEW = void 0;
+exports.viewToSegment = viewToSegment;
+exports.segmentToView = segmentToView;
+exports.parseRoute = parseRoute;
+exports.buildRoute = buildRoute;
+exports.fromDocSegments = fromDocSegments;
+exports.toDocSegments = toDocSegments;
+exports.DEFAULT_VIEW = 'epics';
+/** URL segment per view; the rest use their own name */
+const VIEW_SEGMENTS = {
+    kanban: 'tasks',
+    browser: 'files',
+};
+exports.VIEWS = [
+    'ideas',
+    'research',
+    'docs',
+    'plan',
+    'epics',
+    'kanban',
+    'graph',
+    'commands',
+    'browser',
+];
+/**
+ * Boards address documents by their path below the type folder
+ * (`/repo/tasks/pending/<epic>/<taskId>.md`). The folder changes with the
+ * document's state, so a link to a document that has moved since falls back
+ * to its file name.
+ */
+exports.BOARD_VIEW_TYPES = {
+    ideas: 'idea',
+    epics: 'epic',
+    kanban: 'task',
+};
+/**
+ * Views address documents by their path below this folder of the agelum
+ * directory (`/repo/docs/guides/setup.md`). Document paths from
+ * the API are already relative to the agelum directory.
+ */
+const VIEW_ROOTS = {
+    ideas: 'ideas',
+    epics: 'epics',
+    kanban: 'tasks',
+    research: 'research',
+    docs: 'docs',
+    plan: 'plan',
+    commands: 'commands',
+    browser: '',
+    graph: '',
+};
+// --- Parsing & building ---
+function viewToSegment(view) {
+    return VIEW_SEGMENTS[view] ?? view;
+}
+function segmentToView(segment) {
+    return exports.VIEWS.find((view) => viewToSegment(view) === segment);
+}
+/**
+ * `/<repo>/<view>/<doc...>[?epic=<slug>]`; unknown views fall back to the
+ * repo's default
+ */
+function parseRoute(pathname, search = '') {
+    const [repo, view, ...doc] = pathname
+        .split('/')
+        .filter(Boolean)
+        .map((segment) => decodeURIComponent(segment));
+    if (!repo)
+        return {};
+    const parsedView = view ? segmentToView(view) : undefined;
+    const epic = new URLSearchParams(search).get('epic');
+    return {
+        repo,
+        ...(parsedView && { view: parsedView }),
+        ...(parsedView && doc.length > 0 && { doc }),
+        ...(parsedView === 'kanban' && epic && { epic }),
+    };
+}
+function buildRoute(route) {
+    if (!route.repo)
+        return '/';
+    const segments = [route.repo];
+    if (route.view) {
+        segments.push(viewToSegment(route.view), ...(route.doc ?? []));
+    }
+    const pathname = `/${segments.map((segment) => encodeURIComponent(segment)).join('/')}`;
+    return route.view === 'kanban' && route.epic
+        ? `${pathname}?${new URLSearchParams({ epic: route.epic })}`
+        : pathname;
+}
+// --- Documents ---
+/** Agelum-relative path of the document the URL segments name in `view` */
+function fromDocSegments(view, doc) {
+    const root = VIEW_ROOTS[view];
+    return [root, ...doc].filter(Boolean).join('/');
+}
+/** URL segments that identify the agelum-relative `filePath` in `view` */
+function toDocSegments(view, filePath) {
+    const root = VIEW_ROOTS[view];
+    const relative = root && filePath.startsWith(`${root}/`)
+        ? filePath.slice(root.length + 1)
+        : filePath;
+    return relative.split('/').filter(Boolean);
+}
@@ -0,0 +1,231 @@
+"use strict";
+var __importDefault = (this && this.__importDefault) || function (mod) {
+    return (mod && mod.__esModule) ? mod : { "default": mod };
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.SqliteStorage = exports.DATABASE_FILE = void 0;
+exports.openDatabase = openDatabase;
+exports.getDatabase = getDatabase;
+exports.listStoredRepositories = listStoredRepositories;
+exports.createStoredRepository = createStoredRepository;
+exports.importAgelumFolder = importAgelumFolder;
+exports.exportAgelumFolder = exportAgelumFolder;
+const node_fs_1 = __importDefault(require("node:fs"));
+const node_os_1 = __importDefault(require("node:os"));
+const node_path_1 = __importDefault(require("node:path"));
+const better_sqlite3_1 = __importDefault(require("better-sqlite3"));
+const config_1 = require("./config");
+const storage_1 = require("./storage");
+// --- Database ---
+/** Server mode keeps every repository's agelum folder in this file */
+exports.DATABASE_FILE = process.env.AGELUM_DATABASE ||
+    node_path_1.default.join(node_os_1.default.homedir(), '.agelum', 'agelum.db');
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS repositories (
+    name TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS entries (
+    repo TEXT NOT NULL REFERENCES repositories (name) ON DELETE CASCADE,
+    -- Relative to the agelum folder, '/'-separated; the folder itself has no row
+    path TEXT NOT NULL,
+    parent TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('file', 'directory')),
+    content TEXT,
+    mtime INTEGER NOT NULL,
+    PRIMARY KEY (repo, path)
+  );
+  CREATE INDEX IF NOT EXISTS entries_by_parent ON entries (repo, parent);
+`;
+let database = null;
+function openDatabase(file = exports.DATABASE_FILE) {
+    node_fs_1.default.mkdirSync(node_path_1.default.dirname(file), { recursive: true });
+    const db = new better_sqlite3_1.default(file);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    db.exec(SCHEMA);
+    return db;
+}
+/** Shared connection to `DATABASE_FILE`, opened on first use */
+function getDatabase() {
+    database ??= openDatabase();
+    return database;
+}
+function listStoredRepositories(db = getDatabase()) {
+    return db.prepare('SELECT name FROM repositories ORDER BY name').all().map((row) => row.name);
+}
+function createStoredRepository(name, db = getDatabase()) {
+    if (!(0, config_1.isValidRepositoryName)(name)) {
+        throw new Error(`Invalid repository name: ${name}`);
+    }
+    db.prepare('INSERT OR IGNORE INTO repositories (name, created_at) VALUES (?, ?)').run(name, new Date().toISOString());
+}
+function parentOf(key) {
+    const index = key.lastIndexOf('/');
+    return index === -1 ? '' : key.slice(0, index);
+}
+/**
+ * The agelum folder of one repository stored in SQLite. Paths look like
+ * `/<repo>/agelum/...` so the rest of the app can treat them like files on
+ * disk; there are no symlinks to follow.
+ */
+class SqliteStorage {
+    repo;
+    db;
+    root;
+    constructor(repo, db = getDatabase()) {
+        this.repo = repo;
+        this.db = db;
+        this.root = node_path_1.default.resolve(node_path_1.default.sep, repo, 'agelum');
+    }
+    /** Storage for a repository that is already in the database */
+    static open(repo, db = getDatabase()) {
+        const found = db
+            .prepare('SELECT 1 FROM repositories WHERE name = ?')
+            .get(repo);
+        if (!found)
+            throw new config_1.RepositoryNotFoundError(repo);
+        return new SqliteStorage(repo, db);
+    }
+    /** Row key of an absolute path; `''` is the agelum folder itself */
+    key(target) {
+        const relative = node_path_1.default.relative(this.root, node_path_1.default.resolve(this.root, target));
+        if (relative.startsWith('..') || node_path_1.default.isAbsolute(relative)) {
+            throw new Error(`Path is outside the agelum folder: ${target}`);
+        }
+        return relative.split(node_path_1.default.sep).join('/');
+    }
+    row(key) {
+        return this.db
+            .prepare('SELECT path, kind, content, mtime FROM entries WHERE repo = ? AND path = ?')
+            .get(this.repo, key);
+    }
+    put(key, kind, content) {
+        this.db
+            .prepare(`INSERT INTO entries (repo, path, parent, kind, content, mtime)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (repo, path) DO UPDATE
+         SET kind = excluded.kind, content = excluded.content, mtime = excluded.mtime`)
+            .run(this.repo, key, parentOf(key), kind, content, Date.now());
+    }
+    /** Keys of a folder and everything below it */
+    subtree(key) {
+        return this.db
+            .prepare(`SELECT path FROM entries
+           WHERE repo = @repo AND (path = @key OR substr(path, 1, length(@prefix)) = @prefix)`)
+            .all({ repo: this.repo, key, prefix: `${key}/` }).map((row) => row.path);
+    }
+    ensureFolder(key) {
+        const missing = [];
+        for (let current = key; current; current = parentOf(current)) {
+            const row = this.row(current);
+            if (row?.kind === 'directory')
+                break;
+            if (row)
+                throw new Error(`Not a directory: ${current}`);
+            missing.push(current);
+        }
+        missing.forEach((folder) => this.put(folder, 'directory', null));
+    }
+    stat(target) {
+        const key = this.key(target);
+        if (!key)
+            return { kind: 'directory', mtime: new Date(0) };
+        const row = this.row(key);
+        return row ? { kind: row.kind, mtime: new Date(row.mtime) } : null;
+    }
+    list(dir) {
+        const key = this.key(dir);
+        const rows = this.db
+            .prepare('SELECT path, kind FROM entries WHERE repo = ? AND parent = ?')
+            .all(this.repo, key);
+        return rows.map((row) => ({
+            name: row.path.slice(key ? key.length + 1 : 0),
+            kind: row.kind,
+        }));
+    }
+    readFile(file) {
+        const row = this.row(this.key(file));
+        if (!row || row.kind !== 'file') {
+            throw new Error(`File not found: ${file}`);
+        }
+        return row.content ?? '';
+    }
+    writeFile(file, content) {
+        const key = this.key(file);
+        if (this.row(key)?.kind === 'directory') {
+            throw new Error(`Is a directory: ${file}`);
+        }
+        this.db.transaction(() => {
+            this.ensureFolder(parentOf(key));
+            this.put(key, 'file', content);
+        })();
+    }
+    mkdir(dir) {
+        const key = this.key(dir);
+        this.db.transaction(() => this.ensureFolder(key))();
+    }
+    rename(from, to) {
+        const fromKey = this.key(from);
+        const toKey = this.key(to);
+        if (!fromKey || !toKey)
+            throw new Error('Cannot move the agelum folder');
+        if (toKey === fromKey || toKey.startsWith(`${fromKey}/`)) {
+            throw new Error(`Cannot move ${from} into itself`);
+        }
+        this.db.transaction(() => {
+            const keys = this.subtree(fromKey);
+            if (keys.length === 0)
+                throw new Error(`Path does not exist: ${from}`);
+            // Like rename(2), an existing file at the target is replaced
+            if (this.row(toKey)?.kind === 'directory') {
+                throw new Error(`Target already exists: ${to}`);
+            }
+            this.ensureFolder(parentOf(toKey));
+            const move = this.db.prepare('UPDATE entries SET path = ?, parent = ? WHERE repo = ? AND path = ?');
+            this.db
+                .prepare('DELETE FROM entries WHERE repo = ? AND path = ?')
+                .run(this.repo, toKey);
+            for (const key of keys) {
+                const next = toKey + key.slice(fromKey.length);
+                move.run(next, parentOf(next), this.repo, key);
+            }
+        })();
+    }
+    remove(target) {
+        const key = this.key(target);
+        if (!key)
+            throw new Error('Cannot remove the agelum folder');
+        this.db
+            .prepare(`DELETE FROM entries
+         WHERE repo = @repo AND (path = @key OR substr(path, 1, length(@prefix)) = @prefix)`)
+            .run({ repo: this.repo, key, prefix: `${key}/` });
+    }
+    realPath(target) {
+        return node_path_1.default.resolve(this.root, target);
+    }
+}
+exports.SqliteStorage = SqliteStorage;
+// --- Import & export ---
+/**
+ * Replaces a repository's stored agelum folder with the one at `agelumPath`,
+ * creating the repository when needed. Returns the number of files copied.
+ */
+function importAgelumFolder(repo, agelumPath, db = getDatabase()) {
+    const source = new storage_1.FileSystemStorage(agelumPath);
+    if (!(0, storage_1.isDirectory)(source, source.root)) {
+        throw new Error(`Not a directory: ${agelumPath}`);
+    }
+    return db.transaction(() => {
+        createStoredRepository(repo, db);
+        db.prepare('DELETE FROM entries WHERE repo = ?').run(repo);
+        return (0, storage_1.copyTree)(source, new SqliteStorage(repo, db));
+    })();
+}
+/**
+ * Writes a stored repository's agelum folder to `agelumPath`. Files there are
+ * overwritten; files that only exist on disk are left alone.
+ */
+function exportAgelumFolder(repo, agelumPath, db = getDatabase()) {
+    return (0, storage_1.copyTree)(SqliteStorage.open(repo, db), new storage_1.FileSystemStorage(agelumPath));
+}
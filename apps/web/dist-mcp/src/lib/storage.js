@@ -0,0 +1,103 @@
+"use strict";
+var __importDefault = (this && this.__importDefault) || function (mod) {
+    return (mod && mod.__esModule) ? mod : { "default": mod };
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.FileSystemStorage = void 0;
+exports.exists = exists;
+exports.isDirectory = isDirectory;
+exports.copyTree = copyTree;
+const node_fs_1 = __importDefault(require("node:fs"));
+const node_path_1 = __importDefault(require("node:path"));
+// --- Helpers ---
+function exists(storage, target) {
+    return storage.stat(target) !== null;
+}
+function isDirectory(storage, target) {
+    return storage.stat(target)?.kind === 'directory';
+}
+/**
+ * Copies every file and folder below `from.root` into `to`, keeping paths
+ * relative to the agelum folder. Returns the number of files copied.
+ */
+function copyTree(from, to) {
+    let copied = 0;
+    const walk = (dir) => {
+        const target = node_path_1.default.join(to.root, node_path_1.default.relative(from.root, dir));
+        to.mkdir(target);
+        for (const entry of from.list(dir)) {
+            const source = node_path_1.default.join(dir, entry.name);
+            if (entry.kind === 'directory') {
+                walk(source);
+            }
+            else {
+                to.writeFile(node_path_1.default.join(target, entry.name), from.readFile(source));
+                copied++;
+            }
+        }
+    };
+    walk(from.root);
+    return copied;
+}
+// --- File system ---
+/**
+ * Follows symlinks in the deepest part of `target` that exists, so paths to
+ * files that are about to be created are checked too. Dangling links throw.
+ */
+function realPathOfExisting(target) {
+    let current = target;
+    const missing = [];
+    while (!node_fs_1.default.lstatSync(current, { throwIfNoEntry: false })) {
+        const parent = node_path_1.default.dirname(current);
+        if (parent === current)
+            break;
+        missing.unshift(node_path_1.default.basename(current));
+        current = parent;
+    }
+    return node_path_1.default.join(node_fs_1.default.realpathSync(current), ...missing);
+}
+/** The agelum folder of a repository checkout on disk */
+class FileSystemStorage {
+    root;
+    constructor(root) {
+        this.root = node_path_1.default.resolve(root);
+    }
+    stat(target) {
+        const stats = node_fs_1.default.statSync(target, { throwIfNoEntry: false });
+        if (!stats || !(stats.isFile() || stats.isDirectory()))
+            return null;
+        return { kind: stats.isDirectory() ? 'directory' : 'file', mtime: stats.mtime };
+    }
+    list(dir) {
+        if (!node_fs_1.default.existsSync(dir))
+            return [];
+        return node_fs_1.default
+            .readdirSync(dir, { withFileTypes: true })
+            .filter((entry) => entry.isFile() || entry.isDirectory())
+            .map((entry) => ({
+            name: entry.name,
+            kind: entry.isDirectory() ? 'directory' : 'file',
+        }));
+    }
+    readFile(file) {
+        return node_fs_1.default.readFileSync(file, 'utf-8');
+    }
+    writeFile(file, content) {
+        node_fs_1.default.mkdirSync(node_path_1.default.dirname(file), { recursive: true });
+        node_fs_1.default.writeFileSync(file, content);
+    }
+    mkdir(dir) {
+        node_fs_1.default.mkdirSync(dir, { recursive: true });
+    }
+    rename(from, to) {
+        node_fs_1.default.mkdirSync(node_path_1.default.dirname(to), { recursive: true });
+        node_fs_1.default.renameSync(from, to);
+    }
+    remove(target) {
+        node_fs_1.default.rmSync(target, { recursive: true, force: true });
+    }
+    realPath(target) {
+        return realPathOfExisting(target);
+    }
+}
+exports.FileSystemStorage = FileSystemStorage;
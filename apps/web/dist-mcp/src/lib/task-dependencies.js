@@ -0,0 +1,112 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.BlockedTaskError = exports.DependencyError = void 0;
+exports.toDependsOnRefs = toDependsOnRefs;
+exports.getDependsOn = getDependsOn;
+exports.findTask = findTask;
+exports.buildDependencyGraph = buildDependencyGraph;
+exports.validateDependsOn = validateDependsOn;
+const workflow_1 = require("./workflow");
+/** Raised when `dependsOn` names unknown tasks or would create a cycle */
+class DependencyError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = 'DependencyError';
+    }
+}
+exports.DependencyError = DependencyError;
+/** Raised when a task with unfinished dependencies is started */
+class BlockedTaskError extends workflow_1.WorkflowViolationError {
+    taskId;
+    blockedBy;
+    constructor(taskId, blockedBy) {
+        super(`${taskId} is blocked by: ${blockedBy.join(', ')}`);
+        this.taskId = taskId;
+        this.blockedBy = blockedBy;
+        this.name = 'BlockedTaskError';
+    }
+}
+exports.BlockedTaskError = BlockedTaskError;
+// --- Helpers ---
+/** `dependsOn` references from a list or a comma separated string */
+function toDependsOnRefs(value) {
+    const refs = Array.isArray(value)
+        ? value
+        : typeof value === 'string'
+            ? value.split(',')
+            : [];
+    return refs.map((ref) => String(ref).trim()).filter(Boolean);
+}
+/** Raw `dependsOn` entries of a task */
+function getDependsOn(task) {
+    return toDependsOnRefs(task.frontmatter.dependsOn);
+}
+/**
+ * Tasks are referenced by title, which survives priority and story point
+ * changes; file names (ids) are accepted too.
+ */
+function findTask(ref, tasks) {
+    const key = ref.trim().toLowerCase();
+    return (tasks.find((task) => task.id.toLowerCase() === key) ??
+        tasks.find((task) => task.title.toLowerCase() === key));
+}
+function buildDependencyGraph(tasks, finalState) {
+    const graph = new Map();
+    for (const task of tasks) {
+        graph.set(task.id, { dependsOn: [], missing: [], blockedBy: [], blocks: [] });
+    }
+    for (const task of tasks) {
+        const node = graph.get(task.id);
+        for (const ref of getDependsOn(task)) {
+            const target = findTask(ref, tasks);
+            if (!target || target.id === task.id) {
+                node.missing.push(ref);
+                continue;
+            }
+            if (node.dependsOn.includes(target.id))
+                continue;
+            node.dependsOn.push(target.id);
+            graph.get(target.id).blocks.push(task.id);
+            if (target.state !== finalState)
+                node.blockedBy.push(target.id);
+        }
+    }
+    return graph;
+}
+/**
+ * Resolves the `dependsOn` entries for `task` to task titles, rejecting
+ * unknown tasks, self references and cycles.
+ */
+function validateDependsOn(task, refs, tasks) {
+    const targets = refs.map((ref) => {
+        const target = findTask(ref, tasks);
+        if (!target)
+            throw new DependencyError(`Unknown task: ${ref}`);
+        if (target.path === task.path) {
+            throw new DependencyError('A task cannot depend on itself');
+        }
+        return target;
+    });
+    // Walk the existing dependencies of each target looking for the task
+    const edges = new Map(tasks.map((entry) => [
+        entry.path,
+        getDependsOn(entry)
+            .map((ref) => findTask(ref, tasks))
+            .filter((dep) => dep !== undefined),
+    ]));
+    const visited = new Set();
+    const visit = (current, trail) => {
+        if (current.path === task.path) {
+            throw new DependencyError(`Dependency cycle: ${[task.title, ...trail].join(' -> ')}`);
+        }
+        if (visited.has(current.path))
+            return;
+        visited.add(current.path);
+        for (const dep of edges.get(current.path) ?? []) {
+            visit(dep, [...trail, dep.title]);
+        }
+    };
+    for (const target of targets)
+        visit(target, [target.title]);
+    return Array.from(new Set(targets.map((target) => target.title)));
+}
@@ -0,0 +1,111 @@
+"use strict";
+var __importDefault = (this && this.__importDefault) || function (mod) {
+    return (mod && mod.__esModule) ? mod : { "default": mod };
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.moveToArea = moveToArea;
+exports.listRemoved = listRemoved;
+exports.restoreRemoved = restoreRemoved;
+const node_path_1 = __importDefault(require("node:path"));
+const storage_1 = require("./storage");
+const AREA_DIRS = {
+    trash: '.trash',
+    archive: 'archive',
+};
+const REMOVAL_AREAS = Object.keys(AREA_DIRS);
+const META_FILE = 'meta.json';
+function getAreaPath(agelumPath, area) {
+    return node_path_1.default.join(agelumPath, AREA_DIRS[area]);
+}
+function isInside(parent, child) {
+    const relative = node_path_1.default.relative(parent, child);
+    return !!relative && !relative.startsWith('..') && !node_path_1.default.isAbsolute(relative);
+}
+/**
+ * Moves a file or folder into `agelum/.trash` (or `agelum/archive`) next to a
+ * `meta.json` recording where it came from, so it can be restored later.
+ */
+function moveToArea(storage, targetPath, area) {
+    const root = storage.root;
+    const resolved = node_path_1.default.resolve(targetPath);
+    if (!isInside(root, resolved)) {
+        throw new Error(`Path is outside the agelum folder: ${targetPath}`);
+    }
+    const stat = storage.stat(resolved);
+    if (!stat) {
+        throw new Error(`Path does not exist: ${targetPath}`);
+    }
+    const areaPath = getAreaPath(root, area);
+    if (resolved === areaPath || isInside(areaPath, resolved)) {
+        throw new Error(`Path is already in ${AREA_DIRS[area]}: ${targetPath}`);
+    }
+    const name = node_path_1.default.basename(resolved);
+    const removedAt = new Date().toISOString();
+    const id = `${Date.now()}-${name.replace(/[^\w.-]+/g, '-')}`;
+    const entryDir = node_path_1.default.join(areaPath, id);
+    const entry = {
+        id,
+        area,
+        name,
+        kind: stat.kind,
+        originalPath: node_path_1.default.relative(root, resolved),
+        removedAt,
+    };
+    storage.rename(resolved, node_path_1.default.join(entryDir, name));
+    storage.writeFile(node_path_1.default.join(entryDir, META_FILE), JSON.stringify(entry, null, 2));
+    return entry;
+}
+function readEntry(storage, entryDir) {
+    try {
+        const raw = storage.readFile(node_path_1.default.join(entryDir, META_FILE));
+        return JSON.parse(raw);
+    }
+    catch {
+        return null;
+    }
+}
+function listRemoved(storage, area) {
+    const areas = area ? [area] : REMOVAL_AREAS;
+    const entries = [];
+    for (const current of areas) {
+        const areaPath = getAreaPath(storage.root, current);
+        for (const item of storage.list(areaPath)) {
+            if (item.kind !== 'directory')
+                continue;
+            const entry = readEntry(storage, node_path_1.default.join(areaPath, item.name));
+            if (entry)
+                entries.push({ ...entry, area: current });
+        }
+    }
+    return entries.sort((a, b) => b.removedAt.localeCompare(a.removedAt));
+}
+/**
+ * Moves a trashed or archived item back to its original location. `resolveTarget`
+ * lets callers apply a stricter check (e.g. symlinks) to the restore path.
+ */
+function restoreRemoved(storage, id, area, resolveTarget) {
+    const root = storage.root;
+    const areas = area ? [area] : REMOVAL_AREAS;
+    for (const current of areas) {
+        const entryDir = node_path_1.default.join(getAreaPath(root, current), id);
+        if (!isInside(getAreaPath(root, current), entryDir))
+            continue;
+        const entry = readEntry(storage, entryDir);
+        if (!entry)
+            continue;
+        const from = node_path_1.default.join(entryDir, entry.name);
+        const to = resolveTarget
+            ? resolveTarget(entry.originalPath)
+            : node_path_1.default.resolve(root, entry.originalPath);
+        if (!isInside(root, to)) {
+            throw new Error(`Invalid original path: ${entry.originalPath}`);
+        }
+        if ((0, storage_1.exists)(storage, to)) {
+            throw new Error(`Target already exists: ${to}`);
+        }
+        storage.rename(from, to);
+        storage.remove(entryDir);
+        return { from, to };
+    }
+    throw new Error(`Removed item not found: ${id}`);
+}
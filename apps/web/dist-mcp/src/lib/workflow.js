@@ -0,0 +1,184 @@
+"use strict";
+var __importDefault = (this && this.__importDefault) || function (mod) {
+    return (mod && mod.__esModule) ? mod : { "default": mod };
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.WorkflowViolationError = exports.DEFAULT_WORKFLOW = exports.WORKFLOW_FILE = exports.STATEFUL_TYPES = void 0;
+exports.loadWorkflow = loadWorkflow;
+exports.getStateIds = getStateIds;
+exports.getAllStateIds = getAllStateIds;
+exports.getWorkflowState = getWorkflowState;
+exports.canTransition = canTransition;
+exports.getFinalState = getFinalState;
+const node_path_1 = __importDefault(require("node:path"));
+const zod_1 = require("zod");
+const storage_1 = require("./storage");
+exports.STATEFUL_TYPES = ['task', 'epic', 'idea'];
+exports.WORKFLOW_FILE = node_path_1.default.join('config', 'workflow.json');
+const BOARD_STATES = [
+    { id: 'backlog', title: 'Backlog', color: 'gray' },
+    { id: 'priority', title: 'Priority', color: 'red' },
+    { id: 'pending', title: 'Pending', color: 'yellow' },
+    { id: 'doing', title: 'Doing', color: 'blue' },
+    { id: 'done', title: 'Done', color: 'green' },
+];
+exports.DEFAULT_WORKFLOW = {
+    task: { states: BOARD_STATES, initial: 'pending' },
+    epic: { states: BOARD_STATES, initial: 'backlog' },
+    idea: {
+        states: [
+            { id: 'thinking', title: 'Thinking', color: 'purple' },
+            { id: 'important', title: 'Important', color: 'orange' },
+            { id: 'priority', title: 'Priority', color: 'red' },
+            { id: 'planned', title: 'Planned', color: 'blue' },
+            { id: 'done', title: 'Done', color: 'green' },
+        ],
+        initial: 'thinking',
+    },
+};
+/**
+ * Raised when a move breaks the workflow rules (a transition that isn't
+ * allowed or a state that is already at its WIP limit).
+ */
+class WorkflowViolationError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = 'WorkflowViolationError';
+    }
+}
+exports.WorkflowViolationError = WorkflowViolationError;
+// --- Schema ---
+const workflowStateSchema = zod_1.z.union([
+    zod_1.z.string(),
+    zod_1.z.object({
+        id: zod_1.z.string(),
+        title: zod_1.z.string().min(1).optional(),
+        color: zod_1.z.string().optional(),
+        wipLimit: zod_1.z.number().int().nonnegative().optional(),
+    }),
+]);
+const typeWorkflowSchema = zod_1.z
+    .object({
+    states: zod_1.z.array(workflowStateSchema).min(1),
+    initial: zod_1.z.string().optional(),
+    transitions: zod_1.z.record(zod_1.z.string(), zod_1.z.array(zod_1.z.string())).optional(),
+})
+    .superRefine((value, ctx) => {
+    const ids = value.states.map((state) => typeof state === 'string' ? state : state.id);
+    ids.forEach((id, index) => {
+        // State ids become folder names
+        if (!/^[\w-]+$/.test(id)) {
+            ctx.addIssue({
+                code: 'custom',
+                path: ['states', index],
+                message: `Invalid state id: ${id} (use letters, digits, - and _)`,
+            });
+        }
+        else if (ids.indexOf(id) !== index) {
+            ctx.addIssue({
+                code: 'custom',
+                path: ['states', index],
+                message: `Duplicate state: ${id}`,
+            });
+        }
+    });
+    if (value.initial && !ids.includes(value.initial)) {
+        ctx.addIssue({
+            code: 'custom',
+            path: ['initial'],
+            message: `Unknown initial state: ${value.initial}`,
+        });
+    }
+    for (const [from, targets] of Object.entries(value.transitions ?? {})) {
+        for (const state of [from, ...targets]) {
+            if (!ids.includes(state)) {
+                ctx.addIssue({
+                    code: 'custom',
+                    path: ['transitions', from],
+                    message: `Unknown state in transitions: ${state}`,
+                });
+            }
+        }
+    }
+});
+const workflowFileSchema = zod_1.z.object({
+    task: typeWorkflowSchema.optional(),
+    epic: typeWorkflowSchema.optional(),
+    idea: typeWorkflowSchema.optional(),
+});
+// --- Helpers ---
+function toTitle(id) {
+    const words = id.replace(/[-_]+/g, ' ').trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+function toTypeWorkflow(value) {
+    const states = value.states.map((state) => {
+        if (typeof state === 'string')
+            return { id: state, title: toTitle(state) };
+        return {
+            id: state.id,
+            title: state.title ?? toTitle(state.id),
+            ...(state.color && { color: state.color }),
+            ...(state.wipLimit !== undefined && { wipLimit: state.wipLimit }),
+        };
+    });
+    return {
+        states,
+        initial: value.initial ?? states[0].id,
+        ...(value.transitions && { transitions: value.transitions }),
+    };
+}
+/**
+ * Reads `agelum/config/workflow.json`. Types missing from the file keep the
+ * default states; states may be plain ids or `{ id, title, color, wipLimit }`
+ * objects.
+ */
+function loadWorkflow(storage) {
+    const filePath = node_path_1.default.join(storage.root, exports.WORKFLOW_FILE);
+    if (!(0, storage_1.exists)(storage, filePath))
+        return exports.DEFAULT_WORKFLOW;
+    let raw;
+    try {
+        raw = JSON.parse(storage.readFile(filePath));
+    }
+    catch (error) {
+        throw new Error(`Invalid ${exports.WORKFLOW_FILE}: ${error instanceof Error ? error.message : error}`);
+    }
+    const result = workflowFileSchema.safeParse(raw);
+    if (!result.success) {
+        const issues = result.error.issues
+            .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+            .join('; ');
+        throw new Error(`Invalid ${exports.WORKFLOW_FILE}: ${issues}`);
+    }
+    const workflow = { ...exports.DEFAULT_WORKFLOW };
+    for (const type of exports.STATEFUL_TYPES) {
+        const value = result.data[type];
+        if (value)
+            workflow[type] = toTypeWorkflow(value);
+    }
+    return workflow;
+}
+function getStateIds(workflow, type) {
+    return workflow[type].states.map((state) => state.id);
+}
+/** Every state used by any type, in board order */
+function getAllStateIds(workflow) {
+    return Array.from(new Set(exports.STATEFUL_TYPES.flatMap((type) => getStateIds(workflow, type))));
+}
+function getWorkflowState(workflow, type, state) {
+    return workflow[type].states.find((s) => s.id === state);
+}
+/**
+ * States without an entry in `transitions` can move anywhere, so a workflow
+ * only needs to list the states it wants to restrict.
+ */
+function canTransition(workflow, type, from, to) {
+    const targets = workflow[type].transitions?.[from];
+    return !targets || targets.includes(to);
+}
+/** The last state of a type's workflow counts as finished */
+function getFinalState(workflow, type) {
+    const { states } = workflow[type];
+    return states[states.length - 1].id;
+}
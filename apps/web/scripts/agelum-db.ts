@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+import path from 'node:path';
+import { resolveRepositoryPath } from '../src/lib/config.js';
+import { getAgelumPath } from '../src/lib/document-store.js';
+import {
+  DATABASE_FILE,
+  exportAgelumFolder,
+  importAgelumFolder,
+  listStoredRepositories,
+} from '../src/lib/sqlite-storage.js';
+
+const USAGE = `Usage: agelum-db <command>
+
+  import <repo> [path]   Copy the agelum folder of a checkout into the database
+  export <repo> [path]   Write a stored repository back to a checkout's agelum folder
+  list                   List the repositories in the database
+
+[path] is a repository checkout or its agelum folder and defaults to the
+repository of that name in ~/.agelum/config.json. The database is
+${DATABASE_FILE} (set AGELUM_DATABASE to change it).`;
+
+/** Paths are relative to where the command was started, not this package */
+function toAgelumPath(repo: string, target?: string): string {
+  if (!target) return getAgelumPath(resolveRepositoryPath(repo));
+  const resolved = path.resolve(process.env.INIT_CWD ?? process.cwd(), target);
+  return path.basename(resolved) === 'agelum' ? resolved : getAgelumPath(resolved);
+}
+
+function run() {
+  const [command, repo, target] = process.argv.slice(2);
+
+  if (command === 'list') {
+    listStoredRepositories().forEach((name) => console.log(name));
+    return;
+  }
+
+  if ((command !== 'import' && command !== 'export') || !repo) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const agelumPath = toAgelumPath(repo, target);
+  if (command === 'import') {
+    const files = importAgelumFolder(repo, agelumPath);
+    console.error(`Imported ${files} files from ${agelumPath} into ${repo}`);
+  } else {
+    const files = exportAgelumFolder(repo, agelumPath);
+    console.error(`Exported ${files} files from ${repo} to ${agelumPath}`);
+  }
+}
+
+try {
+  run();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -1,14 +1,13 @@
 #!/usr/bin/env node
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { createAgelumMcpServer, findRepoRootPath } from '../src/lib/mcp.js';
-import { getAgelumConfig } from '../src/lib/config.js';
+import { createAgelumMcpServer } from '../src/lib/mcp.js';
 
 async function run() {
-  // Load global config to find root if CWD fails
-  const config = getAgelumConfig();
-  const globalRoot = config?.rootGitDirectory;
-
-  const server = createAgelumMcpServer(globalRoot);
+  // Tools default to the repo around the CWD; repositories from the global
+  // config can still be targeted by name
+  const server = createAgelumMcpServer({
+    detectRepoFromCwd: true,
+  });
   const transport = new StdioServerTransport();
   
   await server.connect(transport);
@@ -0,0 +1,696 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { usePathname, useSearchParams } from "next/navigation";
+import FileBrowser from "@/components/FileBrowser";
+import FileViewer from "@/components/FileViewer";
+import TaskKanban from "@/components/TaskKanban";
+import EpicsKanban from "@/components/EpicsKanban";
+import IdeasKanban from "@/components/IdeasKanban";
+import DependencyGraph from "@/components/DependencyGraph";
+import SearchBox from "@/components/SearchBox";
+import CommandPalette, { type CreatableType, type PalettePage } from "@/components/CommandPalette";
+import type { SearchResult } from "@/lib/search";
+import type { AgelumConfig } from "@/lib/config";
+import { applyTheme } from "@/lib/theme";
+import {
+  DEFAULT_SHORTCUTS,
+  findCommand,
+  loadShortcuts,
+  saveShortcuts,
+  type CommandId,
+  type ShortcutMap,
+} from "@/lib/commands";
+import {
+  BOARD_VIEW_TYPES,
+  DEFAULT_VIEW,
+  buildRoute,
+  fromDocSegments,
+  parseRoute,
+  toDocSegments,
+  type ViewMode,
+} from "@/lib/routes";
+import { MonochromeLogo } from "@agelum/shadcn";
+import { Kanban, Files, Layers, FolderGit2, Lightbulb, BookOpen, Map, Terminal, ListTodo, FlaskConical, Network, Settings } from "lucide-react";
+
+interface FileNode {
+  name: string;
+  path: string;
+  type: "file" | "directory";
+  children?: FileNode[];
+  content?: string;
+}
+
+interface Task {
+  id: string;
+  title: string;
+  description: string;
+  state: string;
+  createdAt: string;
+  epic?: string;
+  assignee?: string;
+  path?: string;
+}
+
+interface Epic {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  state: string;
+  createdAt: string;
+  path?: string;
+}
+
+interface Idea {
+  id: string;
+  title: string;
+  description: string;
+  state: string;
+  createdAt: string;
+  path?: string;
+}
+
+/** The repository's own default view, then the global one */
+function defaultViewFor(config: AgelumConfig | null, repo: string | null): ViewMode {
+  return (repo && config?.repositoryOverrides?.[repo]?.defaultView) || config?.defaultView || DEFAULT_VIEW;
+}
+
+export default function Home() {
+  const [repositories, setRepositories] = React.useState<string[]>([]);
+  const [config, setConfig] = React.useState<AgelumConfig | null>(null);
+  const [currentPath, setCurrentPath] = React.useState<string>("");
+  const [fileTree, setFileTree] = React.useState<FileNode | null>(null);
+  const [selectedFile, setSelectedFile] = React.useState<{
+    path: string;
+    content: string;
+  } | null>(null);
+  // The slug comes from the URL; the title is looked up for the board header
+  const [epicFilter, setEpicFilter] = React.useState<{ slug: string; title: string } | null>(null);
+  const [palettePage, setPalettePage] = React.useState<PalettePage | null>(null);
+  const [shortcuts, setShortcuts] = React.useState<ShortcutMap>(DEFAULT_SHORTCUTS);
+  const [isMac, setIsMac] = React.useState(false);
+  // Bumped after the palette changes documents so the boards reload
+  const [boardVersion, setBoardVersion] = React.useState(0);
+  const selectedRepoStorageKey = "agelum.selectedRepo";
+
+  // Repository, view, open document and epic filter all live in the URL
+  const pathname = usePathname();
+  const search = useSearchParams()?.toString() ?? "";
+  const route = React.useMemo(() => parseRoute(pathname || "/", search), [pathname, search]);
+  const selectedRepo = route.repo ?? null;
+  const viewMode = route.view ?? defaultViewFor(config, selectedRepo);
+  const docKey = route.doc?.join("/") ?? "";
+  // The page a document was opened from, so its back button can pop history
+  const openedFrom = React.useRef<{ from: string; to: string } | null>(null);
+
+  const selectedTaskPath =
+    selectedFile && selectedFile.path.startsWith("tasks/")
+      ? selectedFile.path
+      : null;
+
+  React.useEffect(() => {
+    Promise.all([
+      fetch("/api/repositories").then((res) => res.json()),
+      fetch("/api/config").then((res) => res.json()),
+    ]).then(([data, settings]) => {
+      const nextRepos = (data.repositories || []) as string[];
+      const nextConfig = (settings.config ?? null) as AgelumConfig | null;
+      setRepositories(nextRepos);
+      setConfig(nextConfig);
+
+      if (nextRepos.length > 0 && !parseRoute(window.location.pathname).repo) {
+        const saved = window.localStorage.getItem(selectedRepoStorageKey);
+        const nextSelected = saved && nextRepos.includes(saved) ? saved : nextRepos[0];
+        window.history.replaceState(
+          null,
+          "",
+          buildRoute({ repo: nextSelected, view: defaultViewFor(nextConfig, nextSelected) })
+        );
+      }
+    });
+  }, []);
+
+  const theme =
+    (selectedRepo && config?.repositoryOverrides?.[selectedRepo]?.theme) || config?.theme;
+  React.useEffect(() => applyTheme(theme), [theme]);
+
+  React.useEffect(() => {
+    if (!selectedRepo) return;
+    window.localStorage.setItem(selectedRepoStorageKey, selectedRepo);
+  }, [selectedRepo]);
+
+  React.useEffect(() => {
+    setShortcuts(loadShortcuts());
+    setIsMac(/Mac|iPhone|iPad/.test(navigator.userAgent));
+  }, []);
+
+  const samePath = (a: string, b: string) => decodeURIComponent(a) === decodeURIComponent(b);
+  const currentHref = () => window.location.pathname + window.location.search;
+
+  /**
+   * Pushes a history entry for another repository, view, document or epic
+   * filter. Next keeps `usePathname` and `useSearchParams` in sync with
+   * `pushState`, so the page stays mounted. The epic filter is kept while
+   * staying on the task board.
+   */
+  const navigate = (
+    next: { repo?: string; view?: ViewMode; file?: string | null; epic?: string | null },
+    options: { replace?: boolean } = {}
+  ) => {
+    const repo = next.repo ?? selectedRepo;
+    if (!repo) return;
+    const view = next.view ?? viewMode;
+    const epic =
+      next.epic !== undefined ? next.epic : repo === selectedRepo && view === viewMode ? route.epic : null;
+    const href = buildRoute({
+      repo,
+      view,
+      ...(next.file && { doc: toDocSegments(view, next.file) }),
+      ...(epic && { epic }),
+    });
+    if (samePath(href, currentHref())) return;
+
+    if (options.replace) {
+      window.history.replaceState(null, "", href);
+      return;
+    }
+    openedFrom.current = next.file ? { from: currentHref(), to: href } : null;
+    window.history.pushState(null, "", href);
+  };
+
+  const fileUrl = (repo: string, filePath: string) =>
+    `/api/file?repo=${encodeURIComponent(repo)}&path=${encodeURIComponent(filePath)}`;
+
+  const loadFile = (filePath: string) => {
+    if (!selectedRepo) return;
+    fetch(fileUrl(selectedRepo, filePath))
+      .then((res) => res.json())
+      .then((data) => {
+        setSelectedFile({ path: filePath, content: data.content || "" });
+      });
+  };
+
+  // Opens the document named by the URL. A board document may have changed
+  // state since the link was made; then its file name finds it, if unique.
+  React.useEffect(() => {
+    if (!selectedRepo || !docKey) {
+      setSelectedFile(null);
+      return;
+    }
+
+    let cancelled = false;
+    const type = BOARD_VIEW_TYPES[viewMode];
+    const linkedPath = fromDocSegments(viewMode, docKey.split("/"));
+    const resolved: Promise<string | undefined> = type
+      ? fetch(`/api/documents?repo=${encodeURIComponent(selectedRepo)}`)
+          .then((res) => res.json())
+          .then((data) => {
+            const documents = ((data.documents || []) as { type: string; id: string; path: string }[]).filter(
+              (document) => document.type === type
+            );
+            if (documents.some((document) => document.path === linkedPath)) return linkedPath;
+            const id = linkedPath.split("/").pop()!.replace(/\.md$/i, "");
+            const matches = documents.filter((document) => document.id === id);
+            return matches.length === 1 ? matches[0].path : undefined;
+          })
+      : Promise.resolve(linkedPath);
+
+    resolved
+      .then((filePath) => {
+        if (!filePath) throw new Error(`Document not found: ${docKey}`);
+        return fetch(fileUrl(selectedRepo, filePath))
+          .then((res) => res.json())
+          .then((data) => {
+            if (cancelled) return;
+            if (data.error) throw new Error(data.error);
+            setSelectedFile({ path: filePath, content: data.content || "" });
+          });
+      })
+      .catch((error) => {
+        console.error("Failed to open document:", error);
+        if (!cancelled) setSelectedFile(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRepo, viewMode, docKey]);
+
+  const handleBack = () => {
+    const opened = openedFrom.current;
+    openedFrom.current = null;
+    // Going back in history keeps forward working; deep links have nothing to go back to
+    if (opened && samePath(opened.to, currentHref())) {
+      window.history.back();
+    } else {
+      navigate({ file: null });
+    }
+  };
+
+  const loadFileTree = React.useCallback(() => {
+    if (selectedRepo) {
+      let url = `/api/files?repo=${encodeURIComponent(selectedRepo)}`;
+      if (viewMode === 'research') url += '&path=research';
+      if (viewMode === 'docs') url += '&path=docs';
+      if (viewMode === 'plan') url += '&path=plan';
+      if (viewMode === 'commands') url += '&path=commands';
+      
+      fetch(url)
+        .then((res) => res.json())
+        .then((data) => {
+          setFileTree(data.tree);
+          setCurrentPath(data.rootPath);
+        });
+    }
+  }, [selectedRepo, viewMode]);
+
+  React.useEffect(() => {
+    loadFileTree();
+  }, [loadFileTree]);
+
+  const epicSlug = route.epic;
+  React.useEffect(() => {
+    if (!selectedRepo || !epicSlug) {
+      setEpicFilter(null);
+      return;
+    }
+
+    let cancelled = false;
+    // Opening an epic sets its title already; a link only has the slug
+    setEpicFilter((current) => (current?.slug === epicSlug ? current : { slug: epicSlug, title: epicSlug }));
+    fetch(`/api/epics?repo=${encodeURIComponent(selectedRepo)}`)
+      .then((res) => res.json())
+      .then((data) => {
+        const epic = (data.epics || []).find((entry: Epic) => entry.slug === epicSlug);
+        if (!cancelled && epic) setEpicFilter({ slug: epic.slug, title: epic.title });
+      })
+      .catch((error) => console.error("Failed to load epic:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRepo, epicSlug]);
+
+  const handleFileSelect = (node: FileNode) => {
+    if (node.type === "file") {
+      navigate({ file: node.path });
+    }
+  };
+
+  const handleTaskSelect = (task: Task) => {
+    if (!selectedRepo || !task.id) return;
+
+    const filePath =
+      task.path || `tasks/${task.state}/${task.epic ? `${task.epic}/` : ""}${task.id}.md`;
+
+    navigate({ file: filePath });
+  };
+
+  const handleEpicSelect = (epic: Epic) => {
+    if (!selectedRepo || !epic.id) return;
+
+    const filePath = epic.path || `epics/${epic.state}/${epic.id}.md`;
+
+    navigate({ file: filePath });
+  };
+
+  const handleEpicOpen = (epic: Epic) => {
+    setEpicFilter({ slug: epic.slug, title: epic.title });
+    navigate({ view: "kanban", file: null, epic: epic.slug });
+  };
+
+  const handleGraphNodeSelect = (node: { path: string }) => {
+    navigate({ file: node.path });
+  };
+
+  const openDocument = (type: string, filePath: string) => {
+    const views: Record<string, ViewMode> = {
+      idea: "ideas",
+      epic: "epics",
+      task: "kanban",
+      doc: "docs",
+      plan: "plan",
+      research: "research",
+    };
+
+    navigate({ view: views[type] || "browser", file: filePath, epic: null });
+  };
+
+  const handleSearchResultSelect = (result: SearchResult) => {
+    openDocument(result.type, result.path);
+  };
+
+  const handleShortcutsChange = (next: ShortcutMap) => {
+    setShortcuts(next);
+    saveShortcuts(next);
+  };
+
+  const runCommand = (id: CommandId) => {
+    if (id.startsWith("view.")) {
+      navigate({ view: id.slice("view.".length) as ViewMode, file: null, epic: null });
+      setPalettePage(null);
+      return;
+    }
+
+    switch (id) {
+      case "palette":
+        setPalettePage({ kind: "commands" });
+        break;
+      case "repo.switch":
+        setPalettePage({ kind: "repositories" });
+        break;
+      case "document.open":
+        setPalettePage({ kind: "documents" });
+        break;
+      case "create.task":
+      case "create.epic":
+      case "create.idea":
+        setPalettePage({ kind: "create", type: id.slice("create.".length) as CreatableType });
+        break;
+      case "task.move":
+        if (selectedTaskPath) setPalettePage({ kind: "move" });
+        break;
+      case "shortcuts.edit":
+        setPalettePage({ kind: "shortcuts" });
+        break;
+    }
+  };
+
+  const runCommandRef = React.useRef(runCommand);
+  runCommandRef.current = runCommand;
+
+  React.useEffect(() => {
+    if (palettePage) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      const command = findCommand(shortcuts, event);
+      if (!command) return;
+
+      // Plain keys keep typing into fields; only modified combos work there
+      const target = event.target as HTMLElement | null;
+      const editable =
+        !!target &&
+        (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) || target.isContentEditable);
+      if (editable && !event.metaKey && !event.ctrlKey && !event.altKey) return;
+
+      event.preventDefault();
+      runCommandRef.current(command);
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [palettePage, shortcuts]);
+
+  const handleDocumentCreated = (type: CreatableType) => {
+    const views: Record<CreatableType, ViewMode> = { task: "kanban", epic: "epics", idea: "ideas" };
+    navigate({ view: views[type], file: null });
+    setBoardVersion((version) => version + 1);
+  };
+
+  const handleTaskMoved = (filePath: string) => {
+    setBoardVersion((version) => version + 1);
+    // Boards keep the same URL when only the state folder changed
+    navigate({ file: filePath }, { replace: true });
+    loadFile(filePath);
+  };
+
+  const handleIdeaSelect = (idea: Idea) => {
+    if (!selectedRepo || !idea.id) return;
+
+    const filePath = idea.path || `ideas/${idea.state}/${idea.id}.md`;
+
+    navigate({ file: filePath });
+  };
+
+  return (
+    <div className="flex flex-col w-full h-full">
+      <CommandPalette
+        page={palettePage}
+        onPageChange={setPalettePage}
+        repo={selectedRepo}
+        repositories={repositories}
+        selectedTaskPath={selectedTaskPath}
+        shortcuts={shortcuts}
+        onShortcutsChange={handleShortcutsChange}
+        isMac={isMac}
+        onRunCommand={runCommand}
+        onRepoSelect={(repo) => {
+          navigate({ repo, file: null, epic: null });
+        }}
+        onDocumentSelect={(document) => openDocument(document.type, document.path)}
+        onDocumentCreated={handleDocumentCreated}
+        onTaskMoved={handleTaskMoved}
+      />
+      <div className="flex items-center justify-between px-4 py-2 border-b border-border bg-secondary">
+        <div className="flex items-center gap-6">
+          <MonochromeLogo size="sm" color="text-foreground" />
+
+          <div className="h-6 w-px bg-border mx-2" />
+
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => navigate({ view: "ideas", file: null })}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                viewMode === "ideas"
+                  ? "bg-blue-600 text-white"
+                  : "text-muted-foreground hover:bg-accent"
+              }`}
+            >
+              <Lightbulb className="w-4 h-4" />
+              Ideas
+            </button>
+            <button
+              onClick={() => navigate({ view: "research", file: null })}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                viewMode === "research"
+                  ? "bg-blue-600 text-white"
+                  : "text-muted-foreground hover:bg-accent"
+              }`}
+            >
+              <FlaskConical className="w-4 h-4" />
+              Research
+            </button>
+            <button
+              onClick={() => navigate({ view: "docs", file: null })}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                viewMode === "docs"
+                  ? "bg-blue-600 text-white"
+                  : "text-muted-foreground hover:bg-accent"
+              }`}
+            >
+              <BookOpen className="w-4 h-4" />
+              Docs
+            </button>
+            <button
+              onClick={() => navigate({ view: "plan", file: null })}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                viewMode === "plan"
+                  ? "bg-blue-600 text-white"
+                  : "text-muted-foreground hover:bg-accent"
+              }`}
+            >
+              <Map className="w-4 h-4" />
+              Plan
+            </button>
+            <button
+              onClick={() => navigate({ view: "epics", file: null })}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                viewMode === "epics"
+                  ? "bg-blue-600 text-white"
+                  : "text-muted-foreground hover:bg-accent"
+              }`}
+            >
+              <Layers className="w-4 h-4" />
+              Epics
+            </button>
+            <button
+              onClick={() => {
+                navigate({ view: "kanban", file: null, epic: null });
+              }}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                viewMode === "kanban"
+                  ? "bg-blue-600 text-white"
+                  : "text-muted-foreground hover:bg-accent"
+              }`}
+            >
+              <ListTodo className="w-4 h-4" />
+              Tasks
+            </button>
+            <button
+              onClick={() => navigate({ view: "graph", file: null })}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                viewMode === "graph"
+                  ? "bg-blue-600 text-white"
+                  : "text-muted-foreground hover:bg-accent"
+              }`}
+            >
+              <Network className="w-4 h-4" />
+              Graph
+            </button>
+            <button
+              onClick={() => navigate({ view: "commands", file: null })}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                viewMode === "commands"
+                  ? "bg-blue-600 text-white"
+                  : "text-muted-foreground hover:bg-accent"
+              }`}
+            >
+              <Terminal className="w-4 h-4" />
+              Commands
+            </button>
+            <button
+              onClick={() => navigate({ view: "browser", file: null })}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                viewMode === "browser"
+                  ? "bg-blue-600 text-white"
+                  : "text-muted-foreground hover:bg-accent"
+              }`}
+            >
+              <Files className="w-4 h-4" />
+              Files
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <SearchBox repo={selectedRepo} onResultSelect={handleSearchResultSelect} />
+          <Link
+            href="/settings"
+            title="Settings"
+            className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-accent rounded-lg transition-colors"
+          >
+            <Settings className="w-4 h-4" />
+          </Link>
+          <select
+            value={selectedRepo || ""}
+            onChange={(e) => {
+              navigate({ repo: e.target.value, file: null, epic: null });
+            }}
+            className="bg-accent text-foreground text-sm rounded-lg border-none focus:ring-2 focus:ring-blue-500 p-1.5 min-w-[160px]"
+          >
+            <option value="" disabled>Select repository</option>
+            {repositories.map((repo) => (
+              <option key={repo} value={repo}>
+                {repo}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col">
+        <div className="flex-1 flex overflow-hidden">
+          {["browser", "research", "docs", "plan", "commands"].includes(viewMode) ? (
+            <>
+              <FileBrowser
+                repo={selectedRepo}
+                fileTree={fileTree}
+                currentPath={currentPath}
+                onFileSelect={handleFileSelect}
+                onRefresh={loadFileTree}
+              />
+              <FileViewer repo={selectedRepo} file={selectedFile} onFileSaved={loadFileTree} />
+            </>
+          ) : viewMode === "ideas" ? (
+            <div className="flex-1 bg-background">
+              {selectedFile ? (
+                <FileViewer
+                  repo={selectedRepo}
+                  file={selectedFile}
+                  onFileSaved={loadFileTree}
+                  onBack={handleBack}
+                />
+              ) : selectedRepo ? (
+                <IdeasKanban
+                  key={boardVersion}
+                  repo={selectedRepo}
+                  onIdeaSelect={handleIdeaSelect}
+                />
+              ) : null}
+            </div>
+          ) : viewMode === "graph" ? (
+            <div className="flex-1 bg-background">
+              {selectedFile ? (
+                <FileViewer
+                  repo={selectedRepo}
+                  file={selectedFile}
+                  onFileSaved={loadFileTree}
+                  onBack={handleBack}
+                />
+              ) : selectedRepo ? (
+                <DependencyGraph
+                  key={boardVersion}
+                  repo={selectedRepo}
+                  onNodeSelect={handleGraphNodeSelect}
+                />
+              ) : null}
+            </div>
+          ) : viewMode === "epics" ? (
+            <div className="flex-1 bg-background">
+              {selectedFile ? (
+                <FileViewer
+                  repo={selectedRepo}
+                  file={selectedFile}
+                  onFileSaved={loadFileTree}
+                  onBack={handleBack}
+                />
+              ) : selectedRepo ? (
+                <EpicsKanban
+                  key={boardVersion}
+                  repo={selectedRepo}
+                  onEpicSelect={handleEpicSelect}
+                  onEpicOpen={handleEpicOpen}
+                />
+              ) : null}
+            </div>
+          ) : (
+            <div className="flex-1 bg-background">
+              {selectedFile ? (
+                <FileViewer
+                  repo={selectedRepo}
+                  file={selectedFile}
+                  onFileSaved={loadFileTree}
+                  onBack={handleBack}
+                  onRename={
+                    viewMode === 'kanban' && selectedRepo
+                      ? async (newTitle: string) => {
+                          const res = await fetch('/api/tasks', {
+                            method: 'POST',
+                            headers: { 'Content-Type': 'application/json' },
+                            body: JSON.stringify({
+                              repo: selectedRepo,
+                              action: 'rename',
+                              path: selectedFile.path,
+                              newTitle
+                            })
+                          })
+
+                          const data = await res.json()
+                          if (!res.ok) throw new Error(data.error || 'Failed to rename task')
+
+                          const next = { path: data.path as string, content: data.content as string }
+                          setSelectedFile(next)
+                          navigate({ file: next.path }, { replace: true })
+                          return next
+                        }
+                      : undefined
+                  }
+                />
+              ) : selectedRepo ? (
+                <TaskKanban
+                  key={boardVersion}
+                  repo={selectedRepo}
+                  onTaskSelect={handleTaskSelect}
+                  epic={epicFilter}
+                  onClearEpic={() => navigate({ epic: null })}
+                />
+              ) : null}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import {
+  ConfigValidationError,
+  discoverRepositories,
+  getAgelumConfig,
+  getRootGitDirectories,
+  parseAgelumConfig,
+  saveAgelumConfig,
+  type AgelumConfig
+} from '@/lib/config'
+
+// The global ~/.agelum/config.json, with what it currently resolves to
+function describe(config: AgelumConfig) {
+  const excluded = new Set(config.excludedRepositories ?? [])
+  return {
+    config,
+    roots: getRootGitDirectories(config),
+    repositories: discoverRepositories(config).map(repo => ({
+      ...repo,
+      excluded: excluded.has(repo.name)
+    }))
+  }
+}
+
+export async function GET() {
+  try {
+    return NextResponse.json(describe(getAgelumConfig() ?? {}))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to read config'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const config = parseAgelumConfig(body.config)
+
+    saveAgelumConfig(config)
+    return NextResponse.json(describe(config))
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 400 })
+    }
+    const message = error instanceof Error ? error.message : 'Failed to save config'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
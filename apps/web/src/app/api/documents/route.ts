@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { getRepoDocumentStore } from '@/lib/document-store'
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const repo = searchParams.get('repo')
+
+  if (!repo) {
+    return NextResponse.json({ documents: [] })
+  }
+
+  try {
+    const store = getRepoDocumentStore(repo)
+    const documents = store
+      .list()
+      .map((entry) => ({
+        id: entry.id,
+        type: entry.type,
+        ...(entry.state && { state: entry.state }),
+        title: entry.title,
+        path: store.relativePath(entry.path)
+      }))
+    return NextResponse.json({ documents })
+  } catch (error) {
+    console.error('Documents API error:', error)
+    const message = error instanceof Error ? error.message : 'Failed to list documents'
+    return NextResponse.json({ documents: [], error: message }, { status: 500 })
+  }
+}
@@ -1,158 +1,110 @@
 import { NextResponse } from 'next/server'
-import fs from 'fs'
-import path from 'path'
+import {
+  PathEscapeError,
+  belongsToEpic,
+  compareByOrder,
+  getRepoDocumentStore,
+  type DocumentEntry,
+  type DocumentStore
+} from '@/lib/document-store'
+import { WorkflowViolationError, getFinalState, type WorkflowState } from '@/lib/workflow'
+
+interface EpicProgress {
+  /** Child task count per task state */
+  states: Record<string, number>
+  tasks: number
+  completedTasks: number
+  storyPoints: number
+  completedStoryPoints: number
+}
 
 interface Epic {
   id: string
+  slug: string
   title: string
   description: string
-  state: 'backlog' | 'priority' | 'pending' | 'doing' | 'done'
+  state: string
+  order?: number
   createdAt: string
   path: string
+  progress: EpicProgress
 }
 
-function ensureEpicStructure(agelumDir: string) {
-  const directories = [
-    path.join('epics', 'backlog'),
-    path.join('epics', 'priority'),
-    path.join('epics', 'pending'),
-    path.join('epics', 'doing'),
-    path.join('epics', 'done')
-  ]
-
-  for (const dir of directories) {
-    fs.mkdirSync(path.join(agelumDir, dir), { recursive: true })
+function toProgress(tasks: DocumentEntry[], doneState?: string): EpicProgress {
+  const progress: EpicProgress = { states: {}, tasks: 0, completedTasks: 0, storyPoints: 0, completedStoryPoints: 0 }
+
+  for (const task of tasks) {
+    const done = task.state === doneState
+    const points = task.storyPoints ?? 0
+    if (task.state) progress.states[task.state] = (progress.states[task.state] ?? 0) + 1
+    progress.tasks += 1
+    progress.storyPoints += points
+    if (done) {
+      progress.completedTasks += 1
+      progress.completedStoryPoints += points
+    }
   }
-}
 
-function fileNameToId(fileName: string): string {
-  return fileName.replace('.md', '')
+  return progress
 }
 
-function parseEpicFile(filePath: string, state: 'backlog' | 'priority' | 'pending' | 'doing' | 'done'): Epic | null {
-  try {
-    const content = fs.readFileSync(filePath, 'utf-8')
-    const fileName = path.basename(filePath)
-    const stats = fs.statSync(filePath)
-
-    const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/)
-    let title = fileNameToId(fileName)
-    let description = ''
-
-    if (frontmatterMatch) {
-      const frontmatter = frontmatterMatch[1]
-      const titleMatch = frontmatter.match(/title:\s*(.+)/)
-      description = frontmatter.match(/description:\s*(.+)/)?.[1] || ''
-      if (titleMatch) {
-        title = titleMatch[1].trim()
-      }
-    }
-
-    return {
-      id: fileNameToId(fileName),
-      title,
-      description,
-      state,
-      createdAt: stats.mtime.toISOString(),
-      path: filePath
-    }
-  } catch {
-    return null
-  }
-}
+function toEpic(store: DocumentStore, entry: DocumentEntry, progress: EpicProgress): Epic {
+  const { description } = entry.frontmatter
 
-function readEpics(repo: string): Epic[] {
-  const homeDir = (process.env.HOME || process.env.USERPROFILE || process.cwd())
-  const gitDir = path.join(homeDir, 'git')
-  const agelumDir = path.join(gitDir, repo, 'agelum')
-  ensureEpicStructure(agelumDir)
-  const epicsDir = path.join(agelumDir, 'epics')
-
-  const epics: Epic[] = []
-  const states = ['backlog', 'priority', 'pending', 'doing', 'done'] as const
-
-  for (const state of states) {
-    const stateDir = path.join(epicsDir, state)
-    if (!fs.existsSync(stateDir)) continue
-
-    const files = fs.readdirSync(stateDir)
-    for (const file of files) {
-      if (!file.endsWith('.md')) continue
-      const epic = parseEpicFile(path.join(stateDir, file), state)
-      if (epic) epics.push(epic)
-    }
+  return {
+    id: entry.id,
+    slug: entry.slug || entry.id,
+    title: entry.title,
+    description: typeof description === 'string' ? description : '',
+    state: entry.state || '',
+    ...(entry.order !== undefined && { order: entry.order }),
+    createdAt: entry.createdAt,
+    path: store.relativePath(entry.path),
+    progress
   }
-
-  return epics
 }
 
-function createEpic(repo: string, data: { title: string; description?: string; state?: string }): Epic {
-  const homeDir = (process.env.HOME || process.env.USERPROFILE || process.cwd())
-  const gitDir = path.join(homeDir, 'git')
-  const agelumDir = path.join(gitDir, repo, 'agelum')
-  ensureEpicStructure(agelumDir)
-  const epicsDir = path.join(agelumDir, 'epics')
-  const state = (data.state as 'backlog' | 'priority' | 'pending' | 'doing' | 'done') || 'backlog'
-
-  const id = `epic-${Date.now()}`
-  const stateDir = path.join(epicsDir, state)
-  fs.mkdirSync(stateDir, { recursive: true })
-
-  const filePath = path.join(stateDir, `${id}.md`)
-  const createdAt = new Date().toISOString()
-
-  const frontmatter = `---
-title: ${data.title}
-created: ${createdAt}
-state: ${state}
----
-`
-
-  fs.writeFileSync(filePath, `${frontmatter}\n# ${data.title}\n\n${data.description || ''}\n`)
+function readEpics(repo: string): { epics: Epic[]; states: WorkflowState[]; taskStates: WorkflowState[] } {
+  const store = getRepoDocumentStore(repo)
+  const tasks = store.list({ type: 'task' })
+  const taskStates = store.workflow.task.states
+  const doneState = getFinalState(store.workflow, 'task')
 
   return {
-    id,
-    title: data.title,
-    description: data.description || '',
-    state,
-    createdAt,
-    path: filePath
+    epics: store
+      .list({ type: 'epic' })
+      .sort(compareByOrder)
+      .map((epic) => toEpic(store, epic, toProgress(tasks.filter((task) => belongsToEpic(task, epic)), doneState))),
+    states: store.workflow.epic.states,
+    taskStates
   }
 }
 
-function findEpicFile(baseDir: string, epicId: string): string | null {
-  if (!fs.existsSync(baseDir)) return null
-  
-  const items = fs.readdirSync(baseDir, { withFileTypes: true })
-  
-  for (const item of items) {
-    if (item.isFile() && item.name === `${epicId}.md`) {
-      return path.join(baseDir, item.name)
-    }
-  }
-  
-  return null
+function createEpic(repo: string, data: { title: string; description?: string; state?: string }): Epic {
+  const store = getRepoDocumentStore(repo)
+  const entry = store.create({
+    type: 'epic',
+    title: data.title || '',
+    content: data.description || '',
+    state: data.state || undefined,
+    unique: true
+  })
+
+  return { ...toEpic(store, entry, toProgress([])), description: data.description || '' }
 }
 
 function moveEpic(repo: string, epicId: string, fromState: string, toState: string): void {
-  const homeDir = (process.env.HOME || process.env.USERPROFILE || process.cwd())
-  const gitDir = path.join(homeDir, 'git')
-  const agelumDir = path.join(gitDir, repo, 'agelum')
-  ensureEpicStructure(agelumDir)
-  const epicsDir = path.join(agelumDir, 'epics')
-
-  const fromStateDir = path.join(epicsDir, fromState)
-  const fromPath = findEpicFile(fromStateDir, epicId)
-  
-  if (!fromPath) {
-    throw new Error(`Epic file not found: ${epicId}`)
-  }
+  getRepoDocumentStore(repo).move({ type: 'epic', fileName: epicId, fromState, toState })
+}
 
-  const toStateDir = path.join(epicsDir, toState)
-  fs.mkdirSync(toStateDir, { recursive: true })
-  const toPath = path.join(toStateDir, `${epicId}.md`)
+function promoteEpic(repo: string, filePath: string): { tasks: { id: string; title: string; path: string }[] } {
+  const store = getRepoDocumentStore(repo)
+  const { tasks } = store.promoteEpic(filePath)
+  return { tasks: tasks.map((task) => ({ id: task.id, title: task.title, path: store.relativePath(task.path) })) }
+}
 
-  fs.renameSync(fromPath, toPath)
+function reorderEpics(repo: string, state: string, epicIds: string[]): void {
+  getRepoDocumentStore(repo).reorder('epic', state, epicIds)
 }
 
 export async function GET(request: Request) {
@@ -163,14 +115,20 @@ export async function GET(request: Request) {
     return NextResponse.json({ epics: [] })
   }
 
-  const epics = readEpics(repo)
-  return NextResponse.json({ epics })
+  try {
+    const { epics, states, taskStates } = readEpics(repo)
+    return NextResponse.json({ epics, states, taskStates })
+  } catch (error) {
+    console.error('Epic API error:', error)
+    const message = error instanceof Error ? error.message : 'Failed to read epics'
+    return NextResponse.json({ epics: [], error: message }, { status: 500 })
+  }
 }
 
 export async function POST(request: Request) {
   try {
     const body = await request.json()
-    const { repo, action, epicId, fromState, toState, data } = body
+    const { repo, action, epicId, fromState, toState, state, ids, data, path: epicPath } = body
 
     if (!repo) {
       return NextResponse.json({ error: 'Repository is required' }, { status: 400 })
@@ -186,8 +144,24 @@ export async function POST(request: Request) {
       return NextResponse.json({ success: true })
     }
 
+    if (action === 'promote' && typeof epicPath === 'string') {
+      const result = promoteEpic(repo, epicPath)
+      return NextResponse.json({ ...result })
+    }
+
+    if (action === 'reorder' && typeof state === 'string' && Array.isArray(ids)) {
+      reorderEpics(repo, state, ids.map(String))
+      return NextResponse.json({ success: true })
+    }
+
     return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
   } catch (error) {
+    if (error instanceof WorkflowViolationError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof PathEscapeError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Epic API error:', error)
     const message = error instanceof Error ? error.message : 'Failed to process epic'
     return NextResponse.json({ error: message }, { status: 500 })
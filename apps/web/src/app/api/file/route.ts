@@ -1,23 +1,32 @@
 import { NextResponse } from 'next/server'
-import fs from 'fs'
-import path from 'path'
+import { PathEscapeError, getRepoDocumentStore } from '@/lib/document-store'
+import { exists } from '@/lib/storage'
+import { moveToArea } from '@/lib/trash'
+
+// Paths are relative to the repository's agelum folder
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url)
+  const repo = searchParams.get('repo')
   const filePath = searchParams.get('path')
 
-  if (!filePath) {
+  if (!repo || !filePath) {
     return NextResponse.json({ content: '' })
   }
 
   try {
-    if (!fs.existsSync(filePath)) {
+    const store = getRepoDocumentStore(repo)
+    const resolved = store.resolvePath(filePath)
+    if (store.storage.stat(resolved)?.kind !== 'file') {
       return NextResponse.json({ content: '' })
     }
 
-    const content = fs.readFileSync(filePath, 'utf-8')
+    const content = store.storage.readFile(resolved)
     return NextResponse.json({ content })
   } catch (error) {
+    if (error instanceof PathEscapeError) {
+      return NextResponse.json({ content: '', error: error.message }, { status: 403 })
+    }
     return NextResponse.json({ content: '' }, { status: 500 })
   }
 }
@@ -25,20 +34,21 @@ export async function GET(request: Request) {
 export async function POST(request: Request) {
   try {
     const body = await request.json()
-    const { path: filePath, content } = body
+    const { repo, path: filePath, content } = body
 
-    if (!filePath) {
-      return NextResponse.json({ error: 'Path is required' }, { status: 400 })
+    if (!repo || !filePath) {
+      return NextResponse.json({ error: 'Repository and path are required' }, { status: 400 })
     }
 
-    const dir = path.dirname(filePath)
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true })
-    }
+    const store = getRepoDocumentStore(repo)
+    const resolved = store.resolvePath(filePath)
 
-    fs.writeFileSync(filePath, content || '')
-    return NextResponse.json({ success: true, path: filePath })
+    store.storage.writeFile(resolved, content || '')
+    return NextResponse.json({ success: true, path: store.relativePath(resolved) })
   } catch (error) {
+    if (error instanceof PathEscapeError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     return NextResponse.json({ error: 'Failed to write file' }, { status: 500 })
   }
 }
@@ -46,25 +56,29 @@ export async function POST(request: Request) {
 export async function DELETE(request: Request) {
   try {
     const { searchParams } = new URL(request.url)
+    const repo = searchParams.get('repo')
     const filePath = searchParams.get('path')
+    const area = searchParams.get('archive') === 'true' ? 'archive' : 'trash'
 
-    if (!filePath) {
-      return NextResponse.json({ error: 'Path is required' }, { status: 400 })
+    if (!repo || !filePath) {
+      return NextResponse.json({ error: 'Repository and path are required' }, { status: 400 })
     }
 
-    if (!fs.existsSync(filePath)) {
+    const store = getRepoDocumentStore(repo)
+    const resolved = store.resolvePath(filePath)
+    if (!exists(store.storage, resolved)) {
       return NextResponse.json({ error: 'Path does not exist' }, { status: 404 })
     }
 
-    const stats = fs.statSync(filePath)
-    if (stats.isDirectory()) {
-      fs.rmSync(filePath, { recursive: true, force: true })
-    } else {
-      fs.unlinkSync(filePath)
-    }
+    // Deleted items are kept in agelum/.trash (or agelum/archive) so they can be restored
+    const entry = moveToArea(store.storage, resolved, area)
 
-    return NextResponse.json({ success: true })
+    return NextResponse.json({ success: true, entry })
   } catch (error) {
-    return NextResponse.json({ error: 'Failed to delete' }, { status: 500 })
+    if (error instanceof PathEscapeError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    const message = error instanceof Error ? error.message : 'Failed to delete'
+    return NextResponse.json({ error: message }, { status: 500 })
   }
 }
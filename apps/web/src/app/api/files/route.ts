@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server'
-import fs from 'fs'
 import path from 'path'
+import { PathEscapeError, getRepoDocumentStore, type DocumentStore } from '@/lib/document-store'
 
 interface FileNode {
   name: string
@@ -9,50 +9,27 @@ interface FileNode {
   children?: FileNode[]
 }
 
-function ensureAgelumStructure(agelumDir: string) {
-  const directories = [
-    'plan',
-    'ideas',
-    'epics',
-    'docs',
-    'context',
-    'actions',
-    'skills',
-    path.join('tasks', 'doing'),
-    path.join('tasks', 'done'),
-    path.join('tasks', 'pending')
-  ]
-
-  fs.mkdirSync(agelumDir, { recursive: true })
-  for (const dir of directories) {
-    fs.mkdirSync(path.join(agelumDir, dir), { recursive: true })
-  }
-}
-
-function buildFileTree(dir: string, basePath: string): FileNode | null {
-  if (!fs.existsSync(dir)) return null
-
-  const stats = fs.statSync(dir)
-  if (!stats.isDirectory()) return null
+// Node paths are relative to the agelum folder, like every other API path
+function buildFileTree(dir: string, store: DocumentStore): FileNode | null {
+  if (store.storage.stat(dir)?.kind !== 'directory') return null
 
   const name = path.basename(dir)
-  const relativePath = path.relative(basePath, dir)
 
-  const entries = fs.readdirSync(dir, { withFileTypes: true })
+  const entries = store.storage.list(dir)
   const children = entries
     .filter(entry => {
       if (entry.name.startsWith('.')) return false
-      if (entry.isDirectory()) return true
-      return entry.isFile() && entry.name.endsWith('.md')
+      if (entry.kind === 'directory') return true
+      return entry.name.endsWith('.md')
     })
     .map(entry => {
       const fullPath = path.join(dir, entry.name)
-      if (entry.isDirectory()) {
-        return buildFileTree(fullPath, basePath)!
+      if (entry.kind === 'directory') {
+        return buildFileTree(fullPath, store)!
       } else {
         return {
           name: entry.name,
-          path: fullPath,
+          path: store.relativePath(fullPath),
           type: 'file' as const
         }
       }
@@ -65,7 +42,7 @@ function buildFileTree(dir: string, basePath: string): FileNode | null {
 
   return {
     name,
-    path: dir,
+    path: store.relativePath(dir),
     type: 'directory',
     children
   }
@@ -81,26 +58,19 @@ export async function GET(request: Request) {
   }
 
   try {
-    // Navigate up from the current working directory to get to the git directory
-    // Current structure: /Users/facundofierro/git/agelum/apps/web
-    // Target: /Users/facundofierro/git/{repo}
-    const currentPath = process.cwd()
-    const gitDir = path.dirname(path.dirname(path.dirname(currentPath)))
-    
-    const repoPath = path.join(gitDir, repo)
-    const basePath = gitDir
-    const agelumDir = path.join(repoPath, 'agelum')
-
-    ensureAgelumStructure(agelumDir)
-
-    const targetDir = subPath ? path.join(agelumDir, subPath) : agelumDir
-    const tree = buildFileTree(targetDir, basePath)
+    const store = getRepoDocumentStore(repo)
+    const targetDir = store.resolvePath(subPath || '', { allowRoot: true })
+    const rootPath = store.relativePath(targetDir)
+    const tree = buildFileTree(targetDir, store)
 
     return NextResponse.json({
-      tree: tree || { name: subPath || 'agelum', path: targetDir, type: 'directory', children: [] },
-      rootPath: targetDir
+      tree: tree || { name: subPath || 'agelum', path: rootPath, type: 'directory', children: [] },
+      rootPath
     })
   } catch (error) {
+    if (error instanceof PathEscapeError) {
+      return NextResponse.json({ tree: null, rootPath: '', error: error.message }, { status: 403 })
+    }
     return NextResponse.json({ tree: null, rootPath: '' }, { status: 500 })
   }
 }
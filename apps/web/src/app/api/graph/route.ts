@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server'
+import { belongsToEpic, getRepoDocumentStore } from '@/lib/document-store'
+import type { GraphEdge, GraphNode } from '@/lib/graph-layout'
+
+function readGraph(repo: string) {
+  const store = getRepoDocumentStore(repo)
+  const epics = store.list({ type: 'epic' })
+  const tasks = store.list({ type: 'task' })
+  const dependencies = store.dependencyGraph()
+
+  const nodes: GraphNode[] = [
+    ...epics.map((epic): GraphNode => ({
+      id: `epic:${epic.slug || epic.id}`,
+      type: 'epic',
+      title: epic.title,
+      state: epic.state || '',
+      ...(epic.storyPoints !== undefined && { storyPoints: epic.storyPoints }),
+      path: store.relativePath(epic.path)
+    })),
+    ...tasks.map((task): GraphNode => {
+      const missing = dependencies.get(task.id)?.missing ?? []
+      return {
+        id: `task:${task.id}`,
+        type: 'task',
+        title: task.title,
+        state: task.state || '',
+        ...(task.storyPoints !== undefined && { storyPoints: task.storyPoints }),
+        path: store.relativePath(task.path),
+        ...(missing.length > 0 && { missingDependencies: missing })
+      }
+    })
+  ]
+
+  const edges: GraphEdge[] = []
+  for (const task of tasks) {
+    const epic = epics.find((entry) => belongsToEpic(task, entry))
+    if (epic) {
+      edges.push({ from: `epic:${epic.slug || epic.id}`, to: `task:${task.id}`, kind: 'epic' })
+    }
+    // Dependencies point from the prerequisite to the task waiting on it
+    for (const dependency of dependencies.get(task.id)?.dependsOn ?? []) {
+      edges.push({ from: `task:${dependency}`, to: `task:${task.id}`, kind: 'dependency' })
+    }
+  }
+
+  return {
+    nodes,
+    edges,
+    states: { task: store.workflow.task.states, epic: store.workflow.epic.states }
+  }
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const repo = searchParams.get('repo')
+
+  if (!repo) {
+    return NextResponse.json({ nodes: [], edges: [] })
+  }
+
+  try {
+    return NextResponse.json(readGraph(repo))
+  } catch (error) {
+    console.error('Graph API error:', error)
+    const message = error instanceof Error ? error.message : 'Failed to read graph'
+    return NextResponse.json({ nodes: [], edges: [], error: message }, { status: 500 })
+  }
+}
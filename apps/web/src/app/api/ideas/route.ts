@@ -1,158 +1,73 @@
 import { NextResponse } from 'next/server'
-import fs from 'fs'
-import path from 'path'
+import {
+  PathEscapeError,
+  compareByOrder,
+  getRepoDocumentStore,
+  type DocumentEntry,
+  type DocumentStore
+} from '@/lib/document-store'
+import { WorkflowViolationError, type WorkflowState } from '@/lib/workflow'
 
 interface Idea {
   id: string
   title: string
   description: string
-  state: 'thinking' | 'important' | 'priority' | 'planned' | 'done'
+  state: string
+  order?: number
   createdAt: string
   path: string
 }
 
-function ensureIdeasStructure(agelumDir: string) {
-  const directories = [
-    path.join('ideas', 'thinking'),
-    path.join('ideas', 'important'),
-    path.join('ideas', 'priority'),
-    path.join('ideas', 'planned'),
-    path.join('ideas', 'done')
-  ]
-
-  for (const dir of directories) {
-    fs.mkdirSync(path.join(agelumDir, dir), { recursive: true })
-  }
-}
-
-function fileNameToId(fileName: string): string {
-  return fileName.replace('.md', '')
-}
-
-function parseIdeaFile(filePath: string, state: 'thinking' | 'important' | 'priority' | 'planned' | 'done'): Idea | null {
-  try {
-    const content = fs.readFileSync(filePath, 'utf-8')
-    const fileName = path.basename(filePath)
-    const stats = fs.statSync(filePath)
-
-    const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/)
-    let title = fileNameToId(fileName)
-    let description = ''
-
-    if (frontmatterMatch) {
-      const frontmatter = frontmatterMatch[1]
-      const titleMatch = frontmatter.match(/title:\s*(.+)/)
-      description = frontmatter.match(/description:\s*(.+)/)?.[1] || ''
-      if (titleMatch) {
-        title = titleMatch[1].trim()
-      }
-    }
+function toIdea(store: DocumentStore, entry: DocumentEntry): Idea {
+  const { description } = entry.frontmatter
 
-    return {
-      id: fileNameToId(fileName),
-      title,
-      description,
-      state,
-      createdAt: stats.mtime.toISOString(),
-      path: filePath
-    }
-  } catch {
-    return null
+  return {
+    id: entry.id,
+    title: entry.title,
+    description: typeof description === 'string' ? description : '',
+    state: entry.state || '',
+    ...(entry.order !== undefined && { order: entry.order }),
+    createdAt: entry.createdAt,
+    path: store.relativePath(entry.path)
   }
 }
 
-function readIdeas(repo: string): Idea[] {
-  const homeDir = (process.env.HOME || process.env.USERPROFILE || process.cwd())
-  const gitDir = path.join(homeDir, 'git')
-  const agelumDir = path.join(gitDir, repo, 'agelum')
-  ensureIdeasStructure(agelumDir)
-  const ideasDir = path.join(agelumDir, 'ideas')
-
-  const ideas: Idea[] = []
-  const states = ['thinking', 'important', 'priority', 'planned', 'done'] as const
-
-  for (const state of states) {
-    const stateDir = path.join(ideasDir, state)
-    if (!fs.existsSync(stateDir)) continue
-
-    const files = fs.readdirSync(stateDir)
-    for (const file of files) {
-      if (!file.endsWith('.md')) continue
-      const idea = parseIdeaFile(path.join(stateDir, file), state)
-      if (idea) ideas.push(idea)
-    }
+function readIdeas(repo: string): { ideas: Idea[]; states: WorkflowState[] } {
+  const store = getRepoDocumentStore(repo)
+  return {
+    ideas: store.list({ type: 'idea' }).sort(compareByOrder).map((entry) => toIdea(store, entry)),
+    states: store.workflow.idea.states
   }
-
-  return ideas
 }
 
 function createIdea(repo: string, data: { title: string; description?: string; state?: string }): Idea {
-  const homeDir = (process.env.HOME || process.env.USERPROFILE || process.cwd())
-  const gitDir = path.join(homeDir, 'git')
-  const agelumDir = path.join(gitDir, repo, 'agelum')
-  ensureIdeasStructure(agelumDir)
-  const ideasDir = path.join(agelumDir, 'ideas')
-  const state = (data.state as 'thinking' | 'important' | 'priority' | 'planned' | 'done') || 'thinking'
-
-  const id = `idea-${Date.now()}`
-  const stateDir = path.join(ideasDir, state)
-  fs.mkdirSync(stateDir, { recursive: true })
-
-  const filePath = path.join(stateDir, `${id}.md`)
-  const createdAt = new Date().toISOString()
-
-  const frontmatter = `---
-title: ${data.title}
-created: ${createdAt}
-state: ${state}
----
-`
-
-  fs.writeFileSync(filePath, `${frontmatter}\n# ${data.title}\n\n${data.description || ''}\n`)
-
-  return {
-    id,
-    title: data.title,
-    description: data.description || '',
-    state,
-    createdAt,
-    path: filePath
-  }
+  const store = getRepoDocumentStore(repo)
+  const entry = store.create({
+    type: 'idea',
+    title: data.title || '',
+    content: data.description || '',
+    state: data.state || undefined,
+    unique: true
+  })
+
+  return { ...toIdea(store, entry), description: data.description || '' }
 }
 
-function findIdeaFile(baseDir: string, ideaId: string): string | null {
-  if (!fs.existsSync(baseDir)) return null
-  
-  const items = fs.readdirSync(baseDir, { withFileTypes: true })
-  
-  for (const item of items) {
-    if (item.isFile() && item.name === `${ideaId}.md`) {
-      return path.join(baseDir, item.name)
-    }
-  }
-  
-  return null
+function moveIdea(repo: string, ideaId: string, fromState: string, toState: string): void {
+  getRepoDocumentStore(repo).move({ type: 'idea', fileName: ideaId, fromState, toState })
 }
 
-function moveIdea(repo: string, ideaId: string, fromState: string, toState: string): void {
-  const homeDir = (process.env.HOME || process.env.USERPROFILE || process.cwd())
-  const gitDir = path.join(homeDir, 'git')
-  const agelumDir = path.join(gitDir, repo, 'agelum')
-  ensureIdeasStructure(agelumDir)
-  const ideasDir = path.join(agelumDir, 'ideas')
-
-  const fromStateDir = path.join(ideasDir, fromState)
-  const fromPath = findIdeaFile(fromStateDir, ideaId)
-  
-  if (!fromPath) {
-    throw new Error(`Idea file not found: ${ideaId}`)
+function promoteIdea(repo: string, filePath: string): { idea: Idea; epic: { id: string; slug: string; title: string; path: string } } {
+  const store = getRepoDocumentStore(repo)
+  const { idea, epic } = store.promoteIdea(filePath)
+  return {
+    idea: toIdea(store, idea),
+    epic: { id: epic.id, slug: epic.slug || epic.id, title: epic.title, path: store.relativePath(epic.path) }
   }
+}
 
-  const toStateDir = path.join(ideasDir, toState)
-  fs.mkdirSync(toStateDir, { recursive: true })
-  const toPath = path.join(toStateDir, `${ideaId}.md`)
-
-  fs.renameSync(fromPath, toPath)
+function reorderIdeas(repo: string, state: string, ideaIds: string[]): void {
+  getRepoDocumentStore(repo).reorder('idea', state, ideaIds)
 }
 
 export async function GET(request: Request) {
@@ -163,14 +78,20 @@ export async function GET(request: Request) {
     return NextResponse.json({ ideas: [] })
   }
 
-  const ideas = readIdeas(repo)
-  return NextResponse.json({ ideas })
+  try {
+    const { ideas, states } = readIdeas(repo)
+    return NextResponse.json({ ideas, states })
+  } catch (error) {
+    console.error('Idea API error:', error)
+    const message = error instanceof Error ? error.message : 'Failed to read ideas'
+    return NextResponse.json({ ideas: [], error: message }, { status: 500 })
+  }
 }
 
 export async function POST(request: Request) {
   try {
     const body = await request.json()
-    const { repo, action, ideaId, fromState, toState, data } = body
+    const { repo, action, ideaId, fromState, toState, state, ids, data, path: ideaPath } = body
 
     if (!repo) {
       return NextResponse.json({ error: 'Repository is required' }, { status: 400 })
@@ -186,8 +107,24 @@ export async function POST(request: Request) {
       return NextResponse.json({ success: true })
     }
 
+    if (action === 'promote' && typeof ideaPath === 'string') {
+      const result = promoteIdea(repo, ideaPath)
+      return NextResponse.json({ ...result })
+    }
+
+    if (action === 'reorder' && typeof state === 'string' && Array.isArray(ids)) {
+      reorderIdeas(repo, state, ids.map(String))
+      return NextResponse.json({ success: true })
+    }
+
     return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
   } catch (error) {
+    if (error instanceof WorkflowViolationError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof PathEscapeError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Idea API error:', error)
     const message = error instanceof Error ? error.message : 'Failed to process idea'
     return NextResponse.json({ error: message }, { status: 500 })
@@ -1,111 +1,69 @@
 import { NextRequest } from 'next/server';
-import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import { createAgelumMcpServer } from '@/lib/mcp';
-import { getAgelumConfig } from '@/lib/config';
-
-// Global storage for transports (dev mode HMR support)
-const globalForMcp = globalThis as unknown as {
-  mcpTransports: Map<string, SSEServerTransport>;
-};
-if (!globalForMcp.mcpTransports) {
-  globalForMcp.mcpTransports = new Map();
-}
-const transports = globalForMcp.mcpTransports;
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpSession, getMcpSession } from '@/lib/mcp-http';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET(req: NextRequest) {
-  const encoder = new TextEncoder();
-  const { readable, writable } = new TransformStream();
-  const writer = writable.getWriter();
+const SESSION_HEADER = 'mcp-session-id';
 
-  // Mock Node.js ServerResponse for the SDK
-  // We pipe the writes to our Web Stream writer
-  const mockRes = {
-    writeHead: (status: number, headers?: any) => {
-      // We set headers on the Response object, so we can ignore this
-      // or use it to close the stream if status is error
-      if (status >= 400) {
-        console.error('MCP Server Error:', status);
-      }
-    },
-    write: (chunk: string) => {
-      writer.write(encoder.encode(chunk));
-      return true;
-    },
-    end: () => {
-      writer.close();
-    },
-    // Dummy event emitters
-    on: () => {},
-    once: () => {},
-    emit: () => {},
-    removeListener: () => {},
-  } as unknown as any;
+function jsonRpcError(status: number, code: number, message: string) {
+  return Response.json(
+    { jsonrpc: '2.0', error: { code, message }, id: null },
+    { status }
+  );
+}
 
-  try {
-    const config = getAgelumConfig();
-    const globalRoot = config?.rootGitDirectory;
+/**
+ * Routes GET (server-to-client stream), DELETE (session teardown) and
+ * follow-up POSTs to the transport owning the `Mcp-Session-Id` header.
+ */
+async function handleSessionRequest(req: NextRequest, parsedBody?: unknown) {
+  const sessionId = req.headers.get(SESSION_HEADER);
+  if (!sessionId) {
+    return jsonRpcError(400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+  }
 
-    const server = createAgelumMcpServer(globalRoot);
-    
-    // Create the transport with our mock response
-    // The SDK will write the initial SSE handshake to it
-    const transport = new SSEServerTransport('/api/mcp', mockRes);
-    
-    await server.connect(transport);
-    
-    // Store session
-    transports.set(transport.sessionId, transport);
+  const session = getMcpSession(sessionId);
+  if (!session) {
+    // Tells the client to start over with a new initialize request
+    return jsonRpcError(404, -32001, 'Session not found');
+  }
 
-    // Clean up on client disconnect
-    req.signal.addEventListener('abort', () => {
-      console.log(`MCP session closed: ${transport.sessionId}`);
-      transports.delete(transport.sessionId);
-      server.close();
-      // Ensure writer is closed
-      try { writer.close(); } catch {}
-    });
+  return session.transport.handleRequest(req, { parsedBody });
+}
 
-    console.log(`MCP session started: ${transport.sessionId}`);
+export async function GET(req: NextRequest) {
+  return handleSessionRequest(req);
+}
 
-    return new Response(readable, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
-  } catch (error) {
-    console.error('Failed to start MCP server:', error);
-    return new Response('Internal Server Error', { status: 500 });
-  }
+export async function DELETE(req: NextRequest) {
+  return handleSessionRequest(req);
 }
 
 export async function POST(req: NextRequest) {
-  const sessionId = req.nextUrl.searchParams.get('sessionId');
-  
-  if (!sessionId) {
-    return new Response('Missing sessionId', { status: 400 });
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonRpcError(400, -32700, 'Parse error: Invalid JSON');
   }
 
-  const transport = transports.get(sessionId);
-  if (!transport) {
-    return new Response('Session not found', { status: 404 });
+  if (req.headers.get(SESSION_HEADER) || !isInitializeRequest(body)) {
+    return handleSessionRequest(req, body);
   }
 
   try {
-    const message = await req.json();
-    
-    // Inject message directly into the transport's listener
-    // This bypasses the need to mock req/res for handlePostMessage
-    if (transport.onmessage) {
-      transport.onmessage(message);
+    const session = await createMcpSession();
+    const response = await session.transport.handleRequest(req, { parsedBody: body });
+
+    // The transport rejected the initialize request, nothing to keep around
+    if (!session.transport.sessionId) {
+      await session.server.close();
     }
-    
-    return new Response('Accepted', { status: 200 });
+
+    return response;
   } catch (error) {
-    console.error('Error handling MCP message:', error);
-    return new Response('Bad Request', { status: 400 });
+    console.error('Failed to start MCP session:', error);
+    return jsonRpcError(500, -32603, 'Internal Server Error');
   }
 }
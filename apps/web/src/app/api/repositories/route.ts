@@ -1,41 +1,34 @@
 import { NextResponse } from 'next/server'
-import fs from 'fs'
-import path from 'path'
-import { ensureRootGitDirectory } from '@/lib/config'
-
-// Server mode: when deployed (e.g., Vercel), will use database instead of filesystem
-const SERVER_MODE = process.env.SERVER_MODE === 'true'
+import { getAgelumConfig, getRootGitDirectories, isServerMode, listRepositories } from '@/lib/config'
+import { listStoredRepositories } from '@/lib/sqlite-storage'
 
 export async function GET() {
+  const serverMode = isServerMode()
   try {
-    if (SERVER_MODE) {
-      // TODO: Implement database query for repositories
-      return NextResponse.json({ 
-        repositories: [], 
-        basePath: 'server-mode',
-        serverMode: true 
+    // Server mode: repositories imported into the database
+    if (serverMode) {
+      return NextResponse.json({
+        repositories: listStoredRepositories(),
+        roots: [],
+        serverMode: true
       })
     }
 
-    // Local mode: use filesystem with global config
-    const basePath = ensureRootGitDirectory()
-
-    let repositories: string[] = []
-
-    if (fs.existsSync(basePath)) {
-      const entries = fs.readdirSync(basePath, { withFileTypes: true })
-      repositories = entries
-        .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
-        .map(entry => entry.name)
-    }
+    // Local mode: root directories and registered repositories from the global config
+    const config = getAgelumConfig()
+    const repositories = listRepositories(config).map(repo => repo.name)
 
-    return NextResponse.json({ repositories, basePath, serverMode: false })
+    return NextResponse.json({
+      repositories,
+      roots: getRootGitDirectories(config),
+      serverMode: false
+    })
   } catch (error) {
-    return NextResponse.json({ 
-      repositories: [], 
-      basePath: '', 
-      serverMode: SERVER_MODE,
-      error: error instanceof Error ? error.message : 'Unknown error' 
+    return NextResponse.json({
+      repositories: [],
+      roots: [],
+      serverMode,
+      error: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
 }
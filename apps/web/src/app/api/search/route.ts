@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { getRepoDocumentStore } from '@/lib/document-store'
+import { searchDocuments } from '@/lib/search'
+
+const DEFAULT_LIMIT = 20
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const repo = searchParams.get('repo')
+  const query = searchParams.get('q') || ''
+  const limit = Number(searchParams.get('limit')) || DEFAULT_LIMIT
+
+  if (!repo) {
+    return NextResponse.json({ results: [] })
+  }
+
+  try {
+    const results = searchDocuments(getRepoDocumentStore(repo), query, { limit })
+    return NextResponse.json({ results })
+  } catch (error) {
+    console.error('Search API error:', error)
+    const message = error instanceof Error ? error.message : 'Failed to search documents'
+    return NextResponse.json({ results: [], error: message }, { status: 500 })
+  }
+}
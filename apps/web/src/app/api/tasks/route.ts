@@ -1,322 +1,190 @@
 import { NextResponse } from 'next/server'
-import fs from 'fs'
-import path from 'path'
+import {
+  PathEscapeError,
+  belongsToEpic,
+  compareByOrder,
+  getRepoDocumentStore,
+  type DocumentEntry,
+  type DocumentFields,
+  type DocumentStore
+} from '@/lib/document-store'
+import {
+  BlockedTaskError,
+  DependencyError,
+  getDependsOn,
+  type TaskDependencies
+} from '@/lib/task-dependencies'
+import { WorkflowViolationError, type WorkflowState } from '@/lib/workflow'
 
 interface Task {
   id: string
   title: string
   description: string
-  state: 'backlog' | 'priority' | 'pending' | 'doing' | 'done'
+  state: string
+  order?: number
   createdAt: string
   epic?: string
   assignee?: string
+  priority?: number
+  storyPoints?: number
+  dueDate?: string
+  labels?: string[]
+  dependsOn: string[]
+  /** `dependsOn` entries that match no task */
+  missingDependencies: string[]
+  /** Ids of unfinished dependencies */
+  blockedBy: string[]
+  /** Ids of the tasks waiting on this one */
+  blocks: string[]
   path: string
 }
 
-function ensureAgelumStructure(agelumDir: string) {
-  const directories = [
-    'plan',
-    'research',
-    'docs',
-    'context',
-    'actions',
-    'skills',
-    path.join('ideas', 'thinking'),
-    path.join('ideas', 'important'),
-    path.join('ideas', 'priority'),
-    path.join('ideas', 'planned'),
-    path.join('ideas', 'done'),
-    path.join('epics', 'backlog'),
-    path.join('epics', 'priority'),
-    path.join('epics', 'pending'),
-    path.join('epics', 'doing'),
-    path.join('epics', 'done'),
-    path.join('tasks', 'backlog'),
-    path.join('tasks', 'priority'),
-    path.join('tasks', 'pending'),
-    path.join('tasks', 'doing'),
-    path.join('tasks', 'done')
-  ]
-
-  fs.mkdirSync(agelumDir, { recursive: true })
-  for (const dir of directories) {
-    fs.mkdirSync(path.join(agelumDir, dir), { recursive: true })
+class EpicNotFoundError extends Error {
+  constructor(epic: string) {
+    super(`Epic not found: ${epic}`)
+    this.name = 'EpicNotFoundError'
   }
 }
 
-function fileNameToId(fileName: string): string {
-  return fileName.replace('.md', '')
+function toLabels(value: unknown): string[] {
+  const labels = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : []
+  return labels.map((label) => String(label).trim()).filter(Boolean)
 }
 
-function sanitizeTaskTitleToFileBase(title: string): string {
-  return title
-    .trim()
-    .replace(/[\\/]/g, '-')
-    .replace(/[<>:"|?*\u0000-\u001F]/g, '')
-    .replace(/\s+/g, '-')
-    .replace(/-+/g, '-')
-    .replace(/^\.+/, '')
-    .replace(/\.+$/, '')
-    .slice(0, 120)
-    .trim() || 'untitled'
+function toDateString(value: unknown): string | undefined {
+  // YAML parses unquoted dates into Date objects
+  if (value instanceof Date && !isNaN(value.getTime())) return value.toISOString().slice(0, 10)
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
 }
 
-function resolveUniqueFilePath(dir: string, baseName: string): string {
-  const normalizedDir = path.resolve(dir)
-  let candidateBase = baseName
-  let suffix = 2
+function toTask(store: DocumentStore, entry: DocumentEntry, dependencies?: TaskDependencies): Task {
+  const { description, assignee, dueDate, labels } = entry.frontmatter
 
-  while (fs.existsSync(path.join(normalizedDir, `${candidateBase}.md`))) {
-    candidateBase = `${baseName}-${suffix}`
-    suffix += 1
+  return {
+    id: entry.id,
+    title: entry.title,
+    description: typeof description === 'string' ? description : '',
+    state: entry.state || '',
+    ...(entry.order !== undefined && { order: entry.order }),
+    createdAt: entry.createdAt,
+    ...(entry.epic && { epic: entry.epic }),
+    assignee: typeof assignee === 'string' ? assignee : '',
+    ...(entry.priority !== undefined && { priority: entry.priority }),
+    ...(entry.storyPoints !== undefined && { storyPoints: entry.storyPoints }),
+    ...(toDateString(dueDate) && { dueDate: toDateString(dueDate) }),
+    ...(toLabels(labels).length > 0 && { labels: toLabels(labels) }),
+    dependsOn: getDependsOn(entry),
+    missingDependencies: dependencies?.missing ?? [],
+    blockedBy: dependencies?.blockedBy ?? [],
+    blocks: dependencies?.blocks ?? [],
+    path: store.relativePath(entry.path)
   }
-
-  return path.join(normalizedDir, `${candidateBase}.md`)
 }
 
-function removeTitleFromFrontmatter(content: string): string {
-  const match = content.match(/^---\n([\s\S]*?)\n---\n?/)
-  if (!match) return content
-
-  const frontmatter = match[1]
-  const updatedFrontmatter = frontmatter
-    .split('\n')
-    .filter((line) => !/^title:\s*/.test(line.trim()))
-    .join('\n')
+function readTasks(repo: string, epicRef?: string): { tasks: Task[]; states: WorkflowState[] } {
+  const store = getRepoDocumentStore(repo)
+  let entries = store.list({ type: 'task' })
 
-  return `---\n${updatedFrontmatter}\n---\n${content.slice(match[0].length)}`
-}
-
-function updateMarkdownTitle(content: string, newTitle: string): string {
-  const frontmatterMatch = content.match(/^---\n[\s\S]*?\n---\n?/)
-  const startIndex = frontmatterMatch ? frontmatterMatch[0].length : 0
-  const body = content.slice(startIndex)
-
-  const headingMatch = body.match(/^\s*#\s+(.+)\s*$/m)
-  if (!headingMatch) {
-    const prefix = content.slice(0, startIndex)
-    const rest = body.trimStart()
-    const separator = prefix && !prefix.endsWith('\n') ? '\n' : ''
-    return `${prefix}${separator}\n# ${newTitle}\n\n${rest}`
+  if (epicRef) {
+    const epic = store.findEpic(epicRef)
+    if (!epic) throw new EpicNotFoundError(epicRef)
+    entries = entries.filter((task) => belongsToEpic(task, epic))
   }
 
-  const headingLine = headingMatch[0]
-  const updatedBody = body.replace(headingLine, `# ${newTitle}`)
-  return `${content.slice(0, startIndex)}${updatedBody}`
-}
-
-function parseTaskFile(filePath: string, state: 'backlog' | 'priority' | 'pending' | 'doing' | 'done', epic?: string): Task | null {
-  try {
-    const content = fs.readFileSync(filePath, 'utf-8')
-    const fileName = path.basename(filePath)
-    const stats = fs.statSync(filePath)
-
-    const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/)
-    const title = fileNameToId(fileName)
-    let description = ''
-    let assignee = ''
-
-    if (frontmatterMatch) {
-      const frontmatter = frontmatterMatch[1]
-      description = frontmatter.match(/description:\s*(.+)/)?.[1] || ''
-      assignee = frontmatter.match(/assignee:\s*(.+)/)?.[1]?.trim() || ''
-    }
-
-    return {
-      id: fileNameToId(fileName),
-      title,
-      description,
-      state,
-      createdAt: stats.mtime.toISOString(),
-      ...(epic && { epic }),
-      assignee,
-      path: filePath
-    }
-  } catch {
-    return null
+  const graph = store.dependencyGraph()
+  return {
+    tasks: entries.sort(compareByOrder).map((entry) => toTask(store, entry, graph.get(entry.id))),
+    states: store.workflow.task.states
   }
 }
 
-function readTasksRecursively(dir: string, state: 'backlog' | 'priority' | 'pending' | 'doing' | 'done'): Task[] {
-  const tasks: Task[] = []
-  
-  if (!fs.existsSync(dir)) return tasks
-
-  const items = fs.readdirSync(dir, { withFileTypes: true })
-  
-  for (const item of items) {
-    const fullPath = path.join(dir, item.name)
-    
-    if (item.isDirectory()) {
-      // This is an epic folder, read tasks from it
-      const epicName = item.name
-      const epicTasks = readTasksRecursively(fullPath, state)
-      // Add epic name to each task
-      tasks.push(...epicTasks.map(task => ({ ...task, epic: epicName })))
-    } else if (item.isFile() && item.name.endsWith('.md')) {
-      // This is a task file at the root level (no epic)
-      const task = parseTaskFile(fullPath, state)
-      if (task) tasks.push(task)
-    }
-  }
-  
-  return tasks
+function createTask(
+  repo: string,
+  data: { title: string; description?: string; state?: string; assignee?: string; epic?: string }
+): Task {
+  const store = getRepoDocumentStore(repo)
+  const entry = store.create({
+    type: 'task',
+    title: data.title || '',
+    state: data.state || undefined,
+    epic: data.epic || undefined,
+    // Kept in the frontmatter, where `toTask` and updates read it
+    frontmatter: {
+      ...(data.description && { description: data.description }),
+      ...(data.assignee && { assignee: data.assignee })
+    },
+    unique: true
+  })
+
+  return toTask(store, entry)
 }
 
-function readTasks(repo: string): Task[] {
-  const homeDir = (process.env.HOME || process.env.USERPROFILE || process.cwd())
-  const gitDir = path.join(homeDir, 'git')
-  const agelumDir = path.join(gitDir, repo, 'agelum')
-  ensureAgelumStructure(agelumDir)
-  const tasksDir = path.join(agelumDir, 'tasks')
-
-  const tasks: Task[] = []
-  const states = ['backlog', 'priority', 'pending', 'doing', 'done'] as const
-
-  for (const state of states) {
-    const stateDir = path.join(tasksDir, state)
-    const stateTasks = readTasksRecursively(stateDir, state)
-    tasks.push(...stateTasks)
-  }
+function moveTask(repo: string, taskId: string, fromState: string, toState: string, force = false): void {
+  getRepoDocumentStore(repo).move({ type: 'task', fileName: taskId, fromState, toState, force })
+}
 
-  return tasks
+function reorderTasks(repo: string, state: string, taskIds: string[]): void {
+  getRepoDocumentStore(repo).reorder('task', state, taskIds)
 }
 
-function createTask(repo: string, data: { title: string; description?: string; state?: string; assignee?: string }): Task {
-  const homeDir = (process.env.HOME || process.env.USERPROFILE || process.cwd())
-  const gitDir = path.join(homeDir, 'git')
-  const agelumDir = path.join(gitDir, repo, 'agelum')
-  ensureAgelumStructure(agelumDir)
-  const tasksDir = path.join(agelumDir, 'tasks')
-  const state = (data.state as 'backlog' | 'priority' | 'pending' | 'doing' | 'done') || 'pending'
-
-  const stateDir = path.join(tasksDir, state)
-  fs.mkdirSync(stateDir, { recursive: true })
-
-  const createdAt = new Date().toISOString()
-  const safeTitle = sanitizeTaskTitleToFileBase(data.title || '')
-  const filePath = resolveUniqueFilePath(stateDir, safeTitle)
-  const id = fileNameToId(path.basename(filePath))
-
-  const frontmatterLines = [
-    '---',
-    `created: ${createdAt}`,
-    `state: ${state}`,
-    ...(data.assignee ? [`assignee: ${data.assignee}`] : []),
-    '---'
-  ]
-  const frontmatter = `${frontmatterLines.join('\n')}\n`
-
-  fs.writeFileSync(filePath, `${frontmatter}\n# ${id}\n\n${data.description || ''}\n`)
+/**
+ * Reads the editable fields from a request. Omitted fields are kept and
+ * empty values clear the field.
+ */
+function parseTaskFields(data: Record<string, unknown>): { fields?: DocumentFields; error?: string } {
+  const fields: DocumentFields = {}
 
-  return {
-    id,
-    title: id,
-    description: data.description || '',
-    state,
-    createdAt,
-    assignee: '',
-    path: filePath
+  for (const key of ['description', 'assignee', 'epic', 'dueDate'] as const) {
+    if (data[key] === undefined) continue
+    fields[key] = typeof data[key] === 'string' && data[key].trim() ? data[key].trim() : null
   }
-}
-
-function findTaskFile(baseDir: string, taskId: string): string | null {
-  if (!fs.existsSync(baseDir)) return null
-  
-  const items = fs.readdirSync(baseDir, { withFileTypes: true })
-  
-  for (const item of items) {
-    const fullPath = path.join(baseDir, item.name)
-    
-    if (item.isDirectory()) {
-      // Search recursively in subdirectories (epic folders)
-      const found = findTaskFile(fullPath, taskId)
-      if (found) return found
-    } else if (item.isFile() && item.name === `${taskId}.md`) {
-      return fullPath
-    }
+  if (fields.dueDate && isNaN(Date.parse(fields.dueDate))) {
+    return { error: `Invalid due date: ${fields.dueDate}` }
   }
-  
-  return null
-}
 
-function moveTask(repo: string, taskId: string, fromState: string, toState: string): void {
-  const homeDir = (process.env.HOME || process.env.USERPROFILE || process.cwd())
-  const gitDir = path.join(homeDir, 'git')
-  const agelumDir = path.join(gitDir, repo, 'agelum')
-  ensureAgelumStructure(agelumDir)
-  const tasksDir = path.join(agelumDir, 'tasks')
-
-  const fromStateDir = path.join(tasksDir, fromState)
-  const fromPath = findTaskFile(fromStateDir, taskId)
-  
-  if (!fromPath) {
-    throw new Error(`Task file not found: ${taskId}`)
+  for (const key of ['priority', 'storyPoints'] as const) {
+    const value = data[key]
+    if (value === undefined) continue
+    if (value === null || value === '') {
+      fields[key] = null
+      continue
+    }
+    const number = Number(value)
+    if (!Number.isFinite(number) || number < 0) {
+      return { error: `${key} must be a non-negative number` }
+    }
+    fields[key] = number
   }
 
-  // Determine if task is in an epic folder
-  const relativePath = path.relative(fromStateDir, fromPath)
-  const pathParts = relativePath.split(path.sep)
-  
-  let toPath: string
-  if (pathParts.length > 1) {
-    // Task is in an epic folder, maintain the epic folder structure
-    const epicFolder = pathParts[0]
-    const toStateDir = path.join(tasksDir, toState)
-    const toEpicDir = path.join(toStateDir, epicFolder)
-    fs.mkdirSync(toEpicDir, { recursive: true })
-    toPath = path.join(toEpicDir, `${taskId}.md`)
-  } else {
-    // Task is at root level
-    const toStateDir = path.join(tasksDir, toState)
-    fs.mkdirSync(toStateDir, { recursive: true })
-    toPath = path.join(toStateDir, `${taskId}.md`)
+  for (const key of ['labels', 'dependsOn'] as const) {
+    if (data[key] === undefined) continue
+    const values = toLabels(data[key])
+    fields[key] = values.length > 0 ? values : null
   }
 
-  fs.renameSync(fromPath, toPath)
+  return { fields }
 }
 
-function renameTask(repo: string, filePath: string, newTitle: string): { path: string; content: string; id: string; title: string } {
-  const homeDir = (process.env.HOME || process.env.USERPROFILE || process.cwd())
-  const gitDir = path.join(homeDir, 'git')
-  const agelumDir = path.join(gitDir, repo, 'agelum')
-  const tasksDir = path.join(agelumDir, 'tasks')
-
-  const resolvedTasksDir = path.resolve(tasksDir)
-  const resolvedFilePath = path.resolve(filePath)
-  if (!resolvedFilePath.startsWith(resolvedTasksDir + path.sep)) {
+function updateTask(repo: string, filePath: string, fields: DocumentFields): Task {
+  const store = getRepoDocumentStore(repo)
+  const resolved = store.resolvePath(filePath, { mustExist: true })
+  if (store.inferType(resolved) !== 'task') {
     throw new Error('Invalid task path')
   }
 
-  if (!fs.existsSync(resolvedFilePath)) {
-    throw new Error('Task file not found')
-  }
+  const entry = store.setFields(resolved, fields)
+  return toTask(store, entry, store.dependencyGraph().get(entry.id))
+}
 
-  const dir = path.dirname(resolvedFilePath)
-  const safeTitle = sanitizeTaskTitleToFileBase(newTitle)
-  const targetPathCandidate = path.join(dir, `${safeTitle}.md`)
-  const targetPath =
-    resolvedFilePath === targetPathCandidate
-      ? resolvedFilePath
-      : resolveUniqueFilePath(dir, safeTitle)
-  const finalBase = fileNameToId(path.basename(targetPath))
-
-  const existingContent = fs.readFileSync(resolvedFilePath, 'utf-8')
-  let updatedContent = removeTitleFromFrontmatter(existingContent)
-  updatedContent = updateMarkdownTitle(updatedContent, finalBase)
-
-  if (resolvedFilePath !== targetPath) {
-    fs.renameSync(resolvedFilePath, targetPath)
+function renameTask(repo: string, filePath: string, newTitle: string): { path: string; content: string; id: string; title: string } {
+  const store = getRepoDocumentStore(repo)
+  const resolved = store.resolvePath(filePath, { mustExist: true })
+  if (store.inferType(resolved) !== 'task') {
+    throw new Error('Invalid task path')
   }
 
-  fs.writeFileSync(targetPath, updatedContent)
-
-  return {
-    path: targetPath,
-    content: updatedContent,
-    id: finalBase,
-    title: finalBase
-  }
+  const result = store.rename(resolved, newTitle)
+  return { ...result, path: store.relativePath(result.path) }
 }
 
 export async function GET(request: Request) {
@@ -327,14 +195,23 @@ export async function GET(request: Request) {
     return NextResponse.json({ tasks: [] })
   }
 
-  const tasks = readTasks(repo)
-  return NextResponse.json({ tasks })
+  try {
+    const { tasks, states } = readTasks(repo, searchParams.get('epic') || undefined)
+    return NextResponse.json({ tasks, states })
+  } catch (error) {
+    if (error instanceof EpicNotFoundError) {
+      return NextResponse.json({ tasks: [], error: error.message }, { status: 404 })
+    }
+    console.error('Task API error:', error)
+    const message = error instanceof Error ? error.message : 'Failed to read tasks'
+    return NextResponse.json({ tasks: [], error: message }, { status: 500 })
+  }
 }
 
 export async function POST(request: Request) {
   try {
     const body = await request.json()
-    const { repo, action, taskId, fromState, toState, data, path: taskPath, newTitle } = body
+    const { repo, action, taskId, fromState, toState, force, state, ids, data, path: taskPath, newTitle } = body
 
     if (!repo) {
       return NextResponse.json({ error: 'Repository is required' }, { status: 400 })
@@ -346,10 +223,24 @@ export async function POST(request: Request) {
     }
 
     if (action === 'move' && taskId && fromState && toState) {
-      moveTask(repo, taskId, fromState, toState)
+      moveTask(repo, taskId, fromState, toState, force === true)
+      return NextResponse.json({ success: true })
+    }
+
+    if (action === 'reorder' && typeof state === 'string' && Array.isArray(ids)) {
+      reorderTasks(repo, state, ids.map(String))
       return NextResponse.json({ success: true })
     }
 
+    if (action === 'update' && typeof taskPath === 'string') {
+      const { fields, error } = parseTaskFields(data || {})
+      if (!fields) {
+        return NextResponse.json({ error }, { status: 400 })
+      }
+      const task = updateTask(repo, taskPath, fields)
+      return NextResponse.json({ task })
+    }
+
     if (action === 'rename' && typeof taskPath === 'string' && typeof newTitle === 'string') {
       const result = renameTask(repo, taskPath, newTitle)
       return NextResponse.json({ ...result })
@@ -357,6 +248,18 @@ export async function POST(request: Request) {
 
     return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
   } catch (error) {
+    if (error instanceof BlockedTaskError) {
+      return NextResponse.json({ error: error.message, blockedBy: error.blockedBy }, { status: 409 })
+    }
+    if (error instanceof WorkflowViolationError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof DependencyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof PathEscapeError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('Task API error:', error)
     const message = error instanceof Error ? error.message : 'Failed to process task'
     return NextResponse.json({ error: message }, { status: 500 })
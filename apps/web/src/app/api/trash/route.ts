@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { RepositoryNotFoundError } from '@/lib/config'
+import { PathEscapeError, getRepoDocumentStore } from '@/lib/document-store'
+import { listRemoved, restoreRemoved, type RemovalArea } from '@/lib/trash'
+
+function parseArea(value: unknown): RemovalArea | undefined {
+  return value === 'trash' || value === 'archive' ? value : undefined
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const repo = searchParams.get('repo')
+
+  if (!repo) {
+    return NextResponse.json({ entries: [] })
+  }
+
+  try {
+    const entries = listRemoved(getRepoDocumentStore(repo).storage, parseArea(searchParams.get('area')))
+    return NextResponse.json({ entries })
+  } catch (error) {
+    if (error instanceof RepositoryNotFoundError) {
+      return NextResponse.json({ entries: [], error: error.message }, { status: 404 })
+    }
+    console.error('Trash API error:', error)
+    const message = error instanceof Error ? error.message : 'Failed to read trash'
+    return NextResponse.json({ entries: [], error: message }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const { repo, action, id, area } = body
+
+    if (!repo) {
+      return NextResponse.json({ error: 'Repository is required' }, { status: 400 })
+    }
+
+    if (action === 'restore' && typeof id === 'string') {
+      const store = getRepoDocumentStore(repo)
+      const result = restoreRemoved(store.storage, id, parseArea(area), (target) => store.resolvePath(target))
+      return NextResponse.json({ success: true, ...result })
+    }
+
+    return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+  } catch (error) {
+    if (error instanceof RepositoryNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof PathEscapeError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error('Trash API error:', error)
+    const message = error instanceof Error ? error.message : 'Failed to process trash'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -1,35 +1,46 @@
 import { NextResponse } from 'next/server'
-import fs from 'fs'
 import path from 'path'
+import { RepositoryNotFoundError } from '@/lib/config'
+import { openRepoDocumentStore } from '@/lib/document-store'
+import { exists } from '@/lib/storage'
 
-interface UsersConfig {
-  users: string[]
+interface User {
+  id: string
+  name: string
+  avatar?: string
 }
 
-function ensureUsersConfig(repo: string): { filePath: string; data: UsersConfig } {
-  const homeDir = (process.env.HOME || process.env.USERPROFILE || process.cwd())
-  const gitDir = path.join(homeDir, 'git')
-  const agelumDir = path.join(gitDir, repo, 'agelum')
-  const configDir = path.join(agelumDir, 'config')
-  const filePath = path.join(configDir, 'users.json')
-
-  fs.mkdirSync(configDir, { recursive: true })
+// Entries are plain names or { id, name, avatar } objects
+interface UsersConfig {
+  users: (string | Partial<User>)[]
+}
 
-  if (!fs.existsSync(filePath)) {
-    const initial: UsersConfig = { users: [] }
-    fs.writeFileSync(filePath, JSON.stringify(initial, null, 2))
-    return { filePath, data: initial }
+function toUser(entry: string | Partial<User>): User | null {
+  if (typeof entry === 'string') {
+    return entry.trim() ? { id: entry.trim(), name: entry.trim() } : null
+  }
+  if (!entry || typeof entry !== 'object') return null
+  const name = typeof entry.name === 'string' ? entry.name.trim() : ''
+  const id = typeof entry.id === 'string' && entry.id.trim() ? entry.id.trim() : name
+  if (!id) return null
+  return {
+    id,
+    name: name || id,
+    ...(typeof entry.avatar === 'string' && entry.avatar && { avatar: entry.avatar })
   }
+}
+
+// A missing or malformed file means no users; reading never creates it
+function readUsersConfig(repo: string): UsersConfig {
+  const { storage } = openRepoDocumentStore(repo)
+  const filePath = path.join(storage.root, 'config', 'users.json')
+  if (!exists(storage, filePath)) return { users: [] }
 
   try {
-    const raw = fs.readFileSync(filePath, 'utf-8')
-    const data = JSON.parse(raw) as UsersConfig
-    if (!Array.isArray(data.users)) {
-      return { filePath, data: { users: [] } }
-    }
-    return { filePath, data }
+    const data = JSON.parse(storage.readFile(filePath)) as UsersConfig
+    return Array.isArray(data.users) ? data : { users: [] }
   } catch {
-    return { filePath, data: { users: [] } }
+    return { users: [] }
   }
 }
 
@@ -41,6 +52,17 @@ export async function GET(request: Request) {
     return NextResponse.json({ users: [] })
   }
 
-  const { data } = ensureUsersConfig(repo)
-  return NextResponse.json({ users: data.users })
+  try {
+    const users = readUsersConfig(repo)
+      .users.map(toUser)
+      .filter((user): user is User => user !== null)
+    return NextResponse.json({ users })
+  } catch (error) {
+    if (error instanceof RepositoryNotFoundError) {
+      return NextResponse.json({ users: [], error: error.message }, { status: 404 })
+    }
+    console.error('Users API error:', error)
+    const message = error instanceof Error ? error.message : 'Failed to read users'
+    return NextResponse.json({ users: [], error: message }, { status: 500 })
+  }
 }
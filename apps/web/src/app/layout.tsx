@@ -12,8 +12,8 @@ export default function RootLayout({
   children: React.ReactNode
 }) {
   return (
-    <html lang="en" className="dark">
-      <body className="flex h-screen bg-gray-900 text-gray-100">
+    <html lang="en" className="dark" data-color-mode="dark">
+      <body className="flex h-screen bg-background text-foreground">
         {children}
       </body>
     </html>
@@ -0,0 +1,45 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import SettingsForm from "@/components/SettingsForm";
+import { MonochromeLogo } from "@agelum/shadcn";
+import { ArrowLeft } from "lucide-react";
+import { applyTheme } from "@/lib/theme";
+import type { AgelumConfig } from "@/lib/config";
+
+export default function SettingsPage() {
+  const [savedTheme, setSavedTheme] = React.useState<AgelumConfig["theme"]>();
+
+  React.useEffect(() => {
+    fetch("/api/config")
+      .then((res) => res.json())
+      .then((data: { config?: AgelumConfig }) => setSavedTheme(data.config?.theme));
+  }, []);
+
+  // The form only previews the theme being edited
+  React.useEffect(() => applyTheme(savedTheme), [savedTheme]);
+
+  return (
+    <div className="flex flex-col w-full h-full">
+      <div className="flex items-center gap-6 px-4 py-2 border-b border-border bg-secondary">
+        <MonochromeLogo size="sm" color="text-foreground" />
+
+        <div className="h-6 w-px bg-border mx-2" />
+
+        <Link
+          href="/"
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-muted-foreground hover:bg-accent transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Link>
+        <h1 className="text-sm font-medium text-foreground">Settings</h1>
+      </div>
+
+      <div className="flex-1 overflow-auto bg-background">
+        <SettingsForm />
+      </div>
+    </div>
+  );
+}
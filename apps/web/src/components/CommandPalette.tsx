@@ -0,0 +1,399 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Command as CommandIcon, CornerDownLeft } from 'lucide-react'
+import {
+  COMMANDS,
+  DEFAULT_SHORTCUTS,
+  eventToShortcut,
+  findCommand,
+  formatShortcut,
+  fuzzyScore,
+  type CommandId,
+  type ShortcutMap
+} from '@/lib/commands'
+import type { WorkflowState } from '@/lib/workflow'
+
+export type CreatableType = 'task' | 'epic' | 'idea'
+
+export type PalettePage =
+  | { kind: 'commands' }
+  | { kind: 'repositories' }
+  | { kind: 'documents' }
+  | { kind: 'create'; type: CreatableType }
+  | { kind: 'move' }
+  | { kind: 'shortcuts' }
+
+export interface PaletteDocument {
+  id: string
+  type: string
+  state?: string
+  title: string
+  path: string
+}
+
+interface PaletteItem {
+  id: string
+  title: string
+  hint?: string
+  shortcut?: string
+  disabled?: boolean
+  run: () => void | Promise<void>
+}
+
+interface CommandPaletteProps {
+  page: PalettePage | null
+  onPageChange: (page: PalettePage | null) => void
+  repo: string | null
+  repositories: string[]
+  /** Path of the task open in the file viewer, if any */
+  selectedTaskPath: string | null
+  shortcuts: ShortcutMap
+  onShortcutsChange: (shortcuts: ShortcutMap) => void
+  isMac: boolean
+  onRunCommand: (id: CommandId) => void
+  onRepoSelect: (repo: string) => void
+  onDocumentSelect: (document: PaletteDocument) => void
+  onDocumentCreated: (type: CreatableType) => void
+  onTaskMoved: (path: string) => void
+}
+
+const endpoints: Record<CreatableType, string> = {
+  task: '/api/tasks',
+  epic: '/api/epics',
+  idea: '/api/ideas'
+}
+
+const placeholders: Record<PalettePage['kind'], string> = {
+  commands: 'Type a command…',
+  repositories: 'Switch to repository…',
+  documents: 'Jump to document…',
+  create: 'Title of the new document…',
+  move: 'Move task to…',
+  shortcuts: 'Find a command to rebind…'
+}
+
+function rank(items: PaletteItem[], query: string): PaletteItem[] {
+  return items
+    .map((item) => ({ item, score: fuzzyScore(query, `${item.title} ${item.hint || ''}`) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ item }) => item)
+}
+
+export default function CommandPalette({
+  page,
+  onPageChange,
+  repo,
+  repositories,
+  selectedTaskPath,
+  shortcuts,
+  onShortcutsChange,
+  isMac,
+  onRunCommand,
+  onRepoSelect,
+  onDocumentSelect,
+  onDocumentCreated,
+  onTaskMoved
+}: CommandPaletteProps) {
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [documents, setDocuments] = useState<PaletteDocument[]>([])
+  const [states, setStates] = useState<WorkflowState[]>([])
+  const [currentTask, setCurrentTask] = useState<{ id: string; state: string } | null>(null)
+  const [recording, setRecording] = useState<CommandId | null>(null)
+  const [error, setError] = useState('')
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    setQuery('')
+    setActiveIndex(0)
+    setRecording(null)
+    setError('')
+    if (page) inputRef.current?.focus()
+  }, [page])
+
+  // Each page loads the data it lists when it opens
+  useEffect(() => {
+    if (!page || !repo) return
+
+    if (page.kind === 'documents') {
+      fetch(`/api/documents?repo=${encodeURIComponent(repo)}`)
+        .then((res) => res.json())
+        .then((data) => setDocuments(data.documents || []))
+        .catch(() => setError('Failed to load documents'))
+    }
+
+    if (page.kind === 'create' || page.kind === 'move') {
+      const endpoint = endpoints[page.kind === 'create' ? page.type : 'task']
+      setStates([])
+      fetch(`${endpoint}?repo=${encodeURIComponent(repo)}`)
+        .then((res) => res.json())
+        .then((data) => {
+          setStates(data.states || [])
+          if (page.kind === 'move') {
+            const task = (data.tasks || []).find((entry: { path: string }) => entry.path === selectedTaskPath)
+            setCurrentTask(task ? { id: task.id, state: task.state } : null)
+          }
+        })
+        .catch(() => setError('Failed to load states'))
+    }
+  }, [page, repo, selectedTaskPath])
+
+  const close = () => onPageChange(null)
+
+  const createDocument = async (type: CreatableType, state: string) => {
+    if (!repo) return
+    const res = await fetch(endpoints[type], {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ repo, action: 'create', data: { title: query.trim(), state } })
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error || `Failed to create ${type}`)
+      return
+    }
+    close()
+    onDocumentCreated(type)
+  }
+
+  const moveTask = async (toState: string, force = false): Promise<void> => {
+    if (!repo || !currentTask) return
+    const res = await fetch('/api/tasks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        repo,
+        action: 'move',
+        taskId: currentTask.id,
+        fromState: currentTask.state,
+        toState,
+        force
+      })
+    })
+    const data = await res.json()
+
+    if (res.status === 409 && Array.isArray(data.blockedBy) && !force) {
+      const proceed = window.confirm(
+        `This task is blocked by: ${data.blockedBy.join(', ')}.\n\nMove it anyway?`
+      )
+      if (proceed) return moveTask(toState, true)
+      return
+    }
+    if (!res.ok) {
+      setError(data.error || 'Failed to move task')
+      return
+    }
+
+    // The file moved with the task, so look its new path up by id
+    const list = await fetch(`/api/tasks?repo=${encodeURIComponent(repo)}`).then((r) => r.json())
+    const moved = (list.tasks || []).find((task: { id: string }) => task.id === currentTask.id)
+    close()
+    if (moved?.path) onTaskMoved(moved.path)
+  }
+
+  // Commands run from key and click handlers, so failures end up here
+  const runItem = async (item: PaletteItem | undefined) => {
+    if (!item || item.disabled) return
+    try {
+      await item.run()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Command failed')
+    }
+  }
+
+  const buildItems = (): PaletteItem[] => {
+    if (!page) return []
+    const shortcutOf = (id: CommandId) => formatShortcut(shortcuts[id], isMac)
+
+    switch (page.kind) {
+      case 'commands':
+        return rank(
+          COMMANDS.filter(
+            (command) => command.id !== 'palette' && (command.id !== 'task.move' || selectedTaskPath)
+          ).map((command) => ({
+            id: command.id,
+            title: command.title,
+            shortcut: shortcutOf(command.id),
+            run: () => onRunCommand(command.id)
+          })),
+          query
+        )
+
+      case 'repositories':
+        return rank(
+          repositories.map((name) => ({
+            id: name,
+            title: name,
+            hint: name === repo ? 'current' : undefined,
+            run: () => {
+              close()
+              onRepoSelect(name)
+            }
+          })),
+          query
+        )
+
+      case 'documents':
+        return rank(
+          documents.map((document) => ({
+            id: document.path,
+            title: document.title,
+            hint: [document.type, document.state].filter(Boolean).join(' · '),
+            run: () => {
+              close()
+              onDocumentSelect(document)
+            }
+          })),
+          query
+        ).slice(0, 50)
+
+      case 'create':
+        return states.map((state) => ({
+          id: state.id,
+          title: query.trim()
+            ? `Create ${page.type} “${query.trim()}” in ${state.title}`
+            : `Create ${page.type} in ${state.title}`,
+          hint: query.trim() ? undefined : 'type a title first',
+          disabled: !query.trim(),
+          run: () => createDocument(page.type, state.id)
+        }))
+
+      case 'move':
+        if (!currentTask) return []
+        return rank(
+          states
+            .filter((state) => state.id !== currentTask.state)
+            .map((state) => ({
+              id: state.id,
+              title: `Move to ${state.title}`,
+              run: () => moveTask(state.id)
+            })),
+          query
+        )
+
+      case 'shortcuts':
+        return [
+          ...rank(
+            COMMANDS.map((command) => ({
+              id: command.id,
+              title: command.title,
+              shortcut: shortcutOf(command.id) || 'unbound',
+              run: () => setRecording(command.id)
+            })),
+            query
+          ),
+          {
+            id: 'reset',
+            title: 'Reset all shortcuts to defaults',
+            run: () => onShortcutsChange({ ...DEFAULT_SHORTCUTS })
+          }
+        ]
+    }
+  }
+  const items = buildItems()
+
+  useEffect(() => {
+    setActiveIndex((index) => Math.min(index, Math.max(items.length - 1, 0)))
+  }, [items.length])
+
+  if (!page) return null
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keys stay inside the palette instead of reaching the app shortcuts
+    event.stopPropagation()
+
+    if (recording) {
+      event.preventDefault()
+      if (event.key === 'Escape') {
+        setRecording(null)
+        return
+      }
+      const pressed = event.key === 'Backspace' ? '' : eventToShortcut(event.nativeEvent)
+      if (pressed === null) return
+      onShortcutsChange({ ...shortcuts, [recording]: pressed })
+      setRecording(null)
+      return
+    }
+
+    if (event.key === 'Escape' || findCommand(shortcuts, event.nativeEvent) === 'palette') {
+      event.preventDefault()
+      if (event.key === 'Escape' && page.kind !== 'commands' && !query) {
+        onPageChange({ kind: 'commands' })
+      } else {
+        close()
+      }
+    } else if (event.key === 'ArrowDown') {
+      event.preventDefault()
+      setActiveIndex((index) => Math.min(index + 1, items.length - 1))
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault()
+      setActiveIndex((index) => Math.max(index - 1, 0))
+    } else if (event.key === 'Enter') {
+      event.preventDefault()
+      runItem(items[activeIndex])
+    }
+  }
+
+  const recordingTitle = recording && COMMANDS.find((command) => command.id === recording)?.title
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 pt-[15vh]" onMouseDown={close}>
+      <div
+        className="w-[36rem] max-w-[90vw] overflow-hidden rounded-xl border border-border bg-secondary shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 border-b border-border px-4 py-3">
+          <CommandIcon className="h-4 w-4 text-muted-foreground" />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              setActiveIndex(0)
+              setError('')
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={
+              recordingTitle
+                ? `Press the new shortcut for “${recordingTitle}” (Backspace clears, Esc cancels)`
+                : placeholders[page.kind]
+            }
+            className="flex-1 bg-transparent text-sm text-foreground placeholder:text-muted-foreground outline-none"
+          />
+        </div>
+
+        {error && <div className="px-4 py-2 text-xs text-red-400 border-b border-border">{error}</div>}
+
+        <div className="max-h-80 overflow-y-auto py-1">
+          {page.kind === 'move' && !currentTask && states.length > 0 ? (
+            <div className="px-4 py-3 text-sm text-muted-foreground">Open a task to move it.</div>
+          ) : items.length === 0 ? (
+            <div className="px-4 py-3 text-sm text-muted-foreground">No results</div>
+          ) : (
+            items.map((item, index) => (
+              <button
+                key={item.id}
+                onClick={() => runItem(item)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex w-full items-center gap-3 px-4 py-2 text-left text-sm ${
+                  index === activeIndex ? 'bg-accent text-accent-foreground' : 'text-foreground'
+                } ${item.disabled ? 'opacity-50 cursor-default' : ''}`}
+              >
+                <span className="truncate">{item.title}</span>
+                {item.hint && <span className="truncate text-xs text-muted-foreground">{item.hint}</span>}
+                <span className="ml-auto flex items-center gap-2">
+                  {item.shortcut && (
+                    <kbd className="rounded bg-background px-1.5 py-0.5 text-[11px] text-muted-foreground">{item.shortcut}</kbd>
+                  )}
+                  {index === activeIndex && !item.disabled && <CornerDownLeft className="h-3.5 w-3.5 text-muted-foreground" />}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,218 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { KanbanColumnColor } from '@agelum/kanban'
+import type { WorkflowState } from '@/lib/workflow'
+import {
+  findCriticalPath,
+  layoutGraph,
+  type GraphEdge,
+  type GraphNode
+} from '@/lib/graph-layout'
+
+interface GraphData {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+  states?: { task: WorkflowState[]; epic: WorkflowState[] }
+}
+
+interface DependencyGraphProps {
+  repo: string
+  onNodeSelect: (node: GraphNode) => void
+}
+
+const NODE_WIDTH = 200
+const NODE_HEIGHT = 52
+const LAYER_GAP = 80
+const ROW_GAP = 20
+const PADDING = 24
+
+const stateColors: Record<KanbanColumnColor, string> = {
+  gray: '#6b7280',
+  red: '#ef4444',
+  orange: '#f97316',
+  amber: '#f59e0b',
+  yellow: '#eab308',
+  lime: '#84cc16',
+  green: '#22c55e',
+  emerald: '#10b981',
+  teal: '#14b8a6',
+  cyan: '#06b6d4',
+  sky: '#0ea5e9',
+  blue: '#3b82f6',
+  indigo: '#6366f1',
+  violet: '#8b5cf6',
+  purple: '#a855f7',
+  fuchsia: '#d946ef',
+  pink: '#ec4899',
+  rose: '#f43f5e',
+}
+
+const CRITICAL_COLOR = '#fb923c'
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text
+}
+
+export default function DependencyGraph({ repo, onNodeSelect }: DependencyGraphProps) {
+  const [data, setData] = useState<GraphData>({ nodes: [], edges: [] })
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetch(`/api/graph?repo=${encodeURIComponent(repo)}`)
+      .then((res) => res.json())
+      .then((next: GraphData & { error?: string }) => {
+        setData(next)
+        setError(next.error || '')
+      })
+  }, [repo])
+
+  const layout = useMemo(
+    () =>
+      layoutGraph(data.nodes, data.edges, {
+        nodeWidth: NODE_WIDTH,
+        nodeHeight: NODE_HEIGHT,
+        layerGap: LAYER_GAP,
+        rowGap: ROW_GAP,
+      }),
+    [data]
+  )
+  const critical = useMemo(() => findCriticalPath(data.nodes, data.edges), [data])
+
+  const colorOf = (node: GraphNode) => {
+    const state = data.states?.[node.type].find((s) => s.id === node.state)
+    return stateColors[(state?.color as KanbanColumnColor) || 'gray'] || stateColors.gray
+  }
+
+  const positions = new Map(layout.nodes.map((node) => [node.id, node]))
+  const criticalNodes = new Set(critical.path)
+  const isCriticalEdge = (edge: GraphEdge) => {
+    const index = critical.path.indexOf(edge.to)
+    return edge.kind === 'dependency' && index > 0 && critical.path[index - 1] === edge.from
+  }
+
+  const legend = useMemo(() => {
+    const seen = new Map<string, WorkflowState>()
+    for (const state of [...(data.states?.epic || []), ...(data.states?.task || [])]) {
+      if (!seen.has(state.id)) seen.set(state.id, state)
+    }
+    return Array.from(seen.values())
+  }, [data.states])
+
+  if (error) {
+    return <div className="p-6 text-sm text-red-400">{error}</div>
+  }
+
+  if (data.nodes.length === 0) {
+    return <div className="p-6 text-sm text-muted-foreground">No epics or tasks yet.</div>
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex flex-wrap items-center gap-4 px-4 py-2 text-xs text-muted-foreground border-b border-border">
+        {legend.map((state) => (
+          <span key={state.id} className="flex items-center gap-1.5">
+            <span
+              className="w-2.5 h-2.5 rounded-full"
+              style={{ backgroundColor: stateColors[(state.color as KanbanColumnColor) || 'gray'] || stateColors.gray }}
+            />
+            {state.title}
+          </span>
+        ))}
+        {critical.path.length > 0 && (
+          <span className="flex items-center gap-1.5 ml-auto">
+            <span className="w-4 h-0.5" style={{ backgroundColor: CRITICAL_COLOR }} />
+            Critical path: {critical.points} pts
+          </span>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <svg
+          width={layout.width + PADDING * 2}
+          height={layout.height + PADDING * 2}
+          className="text-foreground"
+        >
+          <defs>
+            <marker id="graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280" />
+            </marker>
+            <marker id="graph-arrow-critical" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={CRITICAL_COLOR} />
+            </marker>
+          </defs>
+
+          <g transform={`translate(${PADDING}, ${PADDING})`}>
+            {data.edges.map((edge) => {
+              const from = positions.get(edge.from)
+              const to = positions.get(edge.to)
+              if (!from || !to) return null
+
+              const x1 = from.x + NODE_WIDTH
+              const y1 = from.y + NODE_HEIGHT / 2
+              const x2 = to.x
+              const y2 = to.y + NODE_HEIGHT / 2
+              const bend = Math.max(30, (x2 - x1) / 2)
+              const highlighted = isCriticalEdge(edge)
+
+              return (
+                <path
+                  key={`${edge.from}->${edge.to}`}
+                  d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                  fill="none"
+                  stroke={highlighted ? CRITICAL_COLOR : '#4b5563'}
+                  strokeWidth={highlighted ? 2.5 : 1.5}
+                  strokeDasharray={edge.kind === 'epic' ? '4 4' : undefined}
+                  markerEnd={`url(#${highlighted ? 'graph-arrow-critical' : 'graph-arrow'})`}
+                />
+              )
+            })}
+
+            {layout.nodes.map((node) => {
+              const color = colorOf(node)
+              const onCriticalPath = criticalNodes.has(node.id)
+
+              return (
+                <g
+                  key={node.id}
+                  transform={`translate(${node.x}, ${node.y})`}
+                  className="cursor-pointer"
+                  onClick={() => onNodeSelect(node)}
+                >
+                  <title>
+                    {[
+                      `${node.title} (${node.state})`,
+                      ...(node.missingDependencies || []).map((ref) => `Missing dependency: ${ref}`)
+                    ].join('\n')}
+                  </title>
+                  <rect
+                    width={NODE_WIDTH}
+                    height={NODE_HEIGHT}
+                    rx={node.type === 'epic' ? 12 : 6}
+                    fill="#111827"
+                    stroke={onCriticalPath ? CRITICAL_COLOR : color}
+                    strokeWidth={onCriticalPath || node.type === 'epic' ? 2.5 : 1.5}
+                  />
+                  <rect x={0} y={0} width={6} height={NODE_HEIGHT} rx={3} fill={color} />
+                  <text x={16} y={21} fontSize={12} fontWeight={node.type === 'epic' ? 600 : 500} fill="currentColor">
+                    {truncate(node.title, 26)}
+                  </text>
+                  <text x={16} y={39} fontSize={10} fill="#9ca3af">
+                    {[node.type === 'epic' ? 'Epic' : 'Task', node.state, node.storyPoints !== undefined ? `${node.storyPoints} pts` : null]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </text>
+                  {node.missingDependencies && (
+                    <text x={NODE_WIDTH - 10} y={39} fontSize={10} textAnchor="end" fill="#ef4444">
+                      {node.missingDependencies.length} missing
+                    </text>
+                  )}
+                </g>
+              )
+            })}
+          </g>
+        </svg>
+      </div>
+    </div>
+  )
+}
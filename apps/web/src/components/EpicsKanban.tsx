@@ -3,7 +3,9 @@
 import { useState, useEffect, useCallback } from 'react'
 import { 
   KanbanBoard, 
+  type KanbanCardAction,
   type KanbanCardType, 
+  type KanbanColumnColor,
   type KanbanColumnType,
   Dialog,
   DialogContent,
@@ -16,31 +18,64 @@ import {
   Textarea
 } from '@agelum/kanban'
 import { Button } from '@agelum/shadcn'
+import { toKanbanColumns } from '@/lib/workflow-columns'
+import { useBoardOrdering } from '@/lib/use-board-ordering'
+import type { WorkflowState } from '@/lib/workflow'
+
+interface EpicProgress {
+  states: Record<string, number>
+  tasks: number
+  completedTasks: number
+  storyPoints: number
+  completedStoryPoints: number
+}
 
 interface Epic {
   id: string
+  slug: string
   title: string
   description: string
-  state: 'backlog' | 'priority' | 'pending' | 'doing' | 'done'
+  state: string
   createdAt: string
   path: string
+  progress: EpicProgress
 }
 
-const columns: KanbanColumnType[] = [
-  { id: 'backlog', title: 'Backlog', color: 'gray', order: 0 },
-  { id: 'priority', title: 'Priority', color: 'red', order: 1 },
-  { id: 'pending', title: 'Pending', color: 'yellow', order: 2 },
-  { id: 'doing', title: 'Doing', color: 'blue', order: 3 },
-  { id: 'done', title: 'Done', color: 'green', order: 4 },
-]
 
 interface EpicsKanbanProps {
   repo: string
   onEpicSelect: (epic: Epic) => void
+  /** Opens the task board filtered to the epic */
+  onEpicOpen: (epic: Epic) => void
+}
+
+function toProgressCard(progress: EpicProgress, taskStates: WorkflowState[]): Pick<KanbanCardType, 'labels' | 'progress'> {
+  const tasksLabel = `${progress.completedTasks}/${progress.tasks} tasks`
+
+  return {
+    labels: taskStates
+      .filter((state) => progress.states[state.id])
+      .map((state) => ({
+        id: state.id,
+        name: `${progress.states[state.id]} ${state.title}`,
+        color: (state.color || 'gray') as KanbanColumnColor,
+      })),
+    // Story points weigh the bar when the tasks are estimated
+    progress:
+      progress.storyPoints > 0
+        ? {
+            value: progress.completedStoryPoints,
+            max: progress.storyPoints,
+            label: `${tasksLabel} · ${progress.completedStoryPoints}/${progress.storyPoints} pts`,
+          }
+        : { value: progress.completedTasks, max: progress.tasks, label: tasksLabel },
+  }
 }
 
-export default function EpicsKanban({ repo, onEpicSelect }: EpicsKanbanProps) {
+export default function EpicsKanban({ repo, onEpicSelect, onEpicOpen }: EpicsKanbanProps) {
   const [epics, setEpics] = useState<Epic[]>([])
+  const [columns, setColumns] = useState<KanbanColumnType[]>([])
+  const [taskStates, setTaskStates] = useState<WorkflowState[]>([])
   const [refreshKey, setRefreshKey] = useState(0)
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [newEpicColumn, setNewEpicColumn] = useState('')
@@ -51,6 +86,8 @@ export default function EpicsKanban({ repo, onEpicSelect }: EpicsKanbanProps) {
     const res = await fetch(`/api/epics?repo=${encodeURIComponent(repo)}`)
     const data = await res.json()
     setEpics(data.epics || [])
+    setColumns(toKanbanColumns(data.states))
+    setTaskStates(data.taskStates || [])
   }, [repo])
 
   useEffect(() => {
@@ -62,6 +99,7 @@ export default function EpicsKanban({ repo, onEpicSelect }: EpicsKanbanProps) {
     title: epic.title,
     description: epic.description,
     columnId: epic.state,
+    ...toProgressCard(epic.progress, taskStates),
     order: index,
   }))
 
@@ -104,35 +142,40 @@ export default function EpicsKanban({ repo, onEpicSelect }: EpicsKanbanProps) {
     [repo, newEpicTitle, newEpicDescription, newEpicColumn]
   )
 
-  const handleCardMove = useCallback(
-    async (cardId: string, fromState: string, toState: string) => {
-      setEpics((prev) =>
-        prev.map((e) => (e.id === cardId ? { ...e, state: toState as Epic['state'] } : e))
-      )
+  const { handleCardMove, handleCardReorder } = useBoardOrdering('/api/epics', 'epic', {
+    repo,
+    setItems: setEpics,
+    setRefreshKey
+  })
+
+  const handlePromote = useCallback(
+    async (card: KanbanCardType) => {
+      const epic = epics.find((item) => item.id === card.id)
+      if (!epic) return
 
       const res = await fetch('/api/epics', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           repo,
-          action: 'move',
-          epicId: cardId,
-          fromState,
-          toState,
+          action: 'promote',
+          path: epic.path,
         }),
       })
 
+      const data = await res.json()
+      setRefreshKey((k) => k + 1)
       if (!res.ok) {
-        setRefreshKey((k) => k + 1)
-        const data = await res.json()
-        throw new Error(data.error || 'Failed to move epic')
+        window.alert(data.error || 'Failed to promote epic')
       }
-
-      setRefreshKey((k) => k + 1)
     },
-    [repo]
+    [repo, epics]
   )
 
+  const cardActions: KanbanCardAction[] = [
+    { id: 'promote', label: 'Create tasks from checklist', onSelect: handlePromote },
+  ]
+
   return (
     <>
       <div className="h-full">
@@ -141,9 +184,11 @@ export default function EpicsKanban({ repo, onEpicSelect }: EpicsKanbanProps) {
           cards={cards}
           onAddCard={handleAddCard}
           onCardMove={handleCardMove}
+          onCardReorder={handleCardReorder}
+          cardActions={cardActions}
           onCardClick={(card: KanbanCardType) => {
             const epic = epics.find((e) => e.id === card.id)
-            if (epic) onEpicSelect(epic)
+            if (epic) onEpicOpen(epic)
           }}
           onCardEdit={(card: KanbanCardType) => {
             const epic = epics.find((e) => e.id === card.id)
@@ -23,10 +23,11 @@ interface FileNode {
 }
 
 interface FileBrowserProps {
+  repo: string | null
+  /** Node paths are relative to the repository's agelum folder */
   fileTree: FileNode | null
   currentPath: string
   onFileSelect: (node: FileNode) => void
-  basePath: string
   onRefresh?: () => void
 }
 
@@ -57,7 +58,7 @@ function FileTreeNode({
   return (
     <div className="select-none">
       <div
-        className={`group flex items-center gap-1 py-1 px-2 hover:bg-gray-700 rounded relative ${
+        className={`group flex items-center gap-1 py-1 px-2 hover:bg-accent rounded relative ${
           isSelectable ? 'cursor-pointer' : 'cursor-default'
         }`}
         style={{ paddingLeft: `${level * 12 + 8}px` }}
@@ -77,9 +78,9 @@ function FileTreeNode({
         >
           {hasChildren ? (
             isExpanded ? (
-              <ChevronDown className="w-4 h-4 text-gray-400" />
+              <ChevronDown className="w-4 h-4 text-muted-foreground" />
             ) : (
-              <ChevronRight className="w-4 h-4 text-gray-400" />
+              <ChevronRight className="w-4 h-4 text-muted-foreground" />
             )
           ) : (
             <span className="w-4" />
@@ -91,9 +92,9 @@ function FileTreeNode({
               <Folder className="w-4 h-4 text-yellow-400" />
             )
           ) : (
-            <FileText className="w-4 h-4 text-gray-400" />
+            <FileText className="w-4 h-4 text-muted-foreground" />
           )}
-          <span className="text-sm text-gray-200">{node.name}</span>
+          <span className="text-sm text-foreground">{node.name}</span>
         </div>
         {showMenu && (
           <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -104,34 +105,34 @@ function FileTreeNode({
                     e.stopPropagation()
                     onAddFile(node.path)
                   }}
-                  className="p-1 hover:bg-gray-600 rounded"
+                  className="p-1 hover:bg-muted rounded"
                   title="New file"
                 >
-                  <FilePlus className="w-3 h-3 text-gray-400" />
+                  <FilePlus className="w-3 h-3 text-muted-foreground" />
                 </button>
                 <button
                   onClick={(e) => {
                     e.stopPropagation()
                     onAddFolder(node.path)
                   }}
-                  className="p-1 hover:bg-gray-600 rounded"
+                  className="p-1 hover:bg-muted rounded"
                   title="New folder"
                 >
-                  <FolderPlus className="w-3 h-3 text-gray-400" />
+                  <FolderPlus className="w-3 h-3 text-muted-foreground" />
                 </button>
               </>
             )}
             <button
               onClick={(e) => {
                 e.stopPropagation()
-                if (confirm(`Delete ${node.name}?`)) {
+                if (confirm(`Move ${node.name} to trash?`)) {
                   onDelete(node.path, node.type)
                 }
               }}
               className="p-1 hover:bg-red-600 rounded"
               title="Delete"
             >
-              <Trash2 className="w-3 h-3 text-gray-400" />
+              <Trash2 className="w-3 h-3 text-muted-foreground" />
             </button>
           </div>
         )}
@@ -157,7 +158,7 @@ function FileTreeNode({
   )
 }
 
-export default function FileBrowser({ fileTree, onFileSelect, onRefresh }: FileBrowserProps) {
+export default function FileBrowser({ repo, fileTree, onFileSelect, onRefresh }: FileBrowserProps) {
   const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set())
   const [isAddFileDialogOpen, setIsAddFileDialogOpen] = useState(false)
   const [isAddFolderDialogOpen, setIsAddFolderDialogOpen] = useState(false)
@@ -190,8 +191,9 @@ export default function FileBrowser({ fileTree, onFileSelect, onRefresh }: FileB
   }
 
   const handleDelete = async (path: string, type: 'file' | 'directory') => {
+    if (!repo) return
     try {
-      const response = await fetch(`/api/file?path=${encodeURIComponent(path)}`, {
+      const response = await fetch(`/api/file?repo=${encodeURIComponent(repo)}&path=${encodeURIComponent(path)}`, {
         method: 'DELETE'
       })
       
@@ -210,14 +212,15 @@ export default function FileBrowser({ fileTree, onFileSelect, onRefresh }: FileB
   }
 
   const handleCreateFile = async () => {
-    if (!newFileName.trim()) return
+    if (!newFileName.trim() || !repo) return
 
-    const filePath = `${parentPath}/${newFileName.trim()}`
+    // The tree root is the agelum folder itself, whose relative path is empty
+    const filePath = [parentPath, newFileName.trim()].filter(Boolean).join('/')
     try {
       const response = await fetch('/api/file', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ path: filePath, content: '' })
+        body: JSON.stringify({ repo, path: filePath, content: '' })
       })
 
       if (response.ok && onRefresh) {
@@ -237,14 +240,14 @@ export default function FileBrowser({ fileTree, onFileSelect, onRefresh }: FileB
   }
 
   const handleCreateFolder = async () => {
-    if (!newFolderName.trim()) return
+    if (!newFolderName.trim() || !repo) return
 
-    const folderPath = `${parentPath}/${newFolderName.trim()}`
+    const folderPath = [parentPath, newFolderName.trim()].filter(Boolean).join('/')
     try {
       const response = await fetch('/api/file', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ path: `${folderPath}/.gitkeep`, content: '' })
+        body: JSON.stringify({ repo, path: `${folderPath}/.gitkeep`, content: '' })
       })
 
       if (response.ok && onRefresh) {
@@ -259,7 +262,7 @@ export default function FileBrowser({ fileTree, onFileSelect, onRefresh }: FileB
 
   return (
     <>
-      <div className="w-80 bg-gray-800 border-r border-gray-700 flex flex-col">
+      <div className="w-80 bg-secondary border-r border-border flex flex-col">
         <div className="flex-1 overflow-y-auto p-2">
           {fileTree ? (
             <FileTreeNode
@@ -273,7 +276,7 @@ export default function FileBrowser({ fileTree, onFileSelect, onRefresh }: FileB
               onAddFolder={handleAddFolder}
             />
           ) : (
-            <p className="text-sm text-gray-500 p-2">No repository selected</p>
+            <p className="text-sm text-muted-foreground/70 p-2">No repository selected</p>
           )}
         </div>
       </div>
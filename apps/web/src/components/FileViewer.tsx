@@ -17,13 +17,15 @@ const MarkdownPreview = dynamic(
 )
 
 interface FileViewerProps {
+  repo: string | null
+  /** `path` is relative to the repository's agelum folder */
   file: { path: string; content: string } | null
   onFileSaved?: () => void
   onBack?: () => void
   onRename?: (newTitle: string) => Promise<{ path: string; content: string } | void>
 }
 
-export default function FileViewer({ file, onFileSaved, onBack, onRename }: FileViewerProps) {
+export default function FileViewer({ repo, file, onFileSaved, onBack, onRename }: FileViewerProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [content, setContent] = useState('')
   const [isSaving, setIsSaving] = useState(false)
@@ -41,14 +43,14 @@ export default function FileViewer({ file, onFileSaved, onBack, onRename }: File
   }, [file])
 
   const handleSave = async () => {
-    if (!file) return
+    if (!file || !repo) return
 
     setIsSaving(true)
     try {
       const response = await fetch('/api/file', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ path: file.path, content })
+        body: JSON.stringify({ repo, path: file.path, content })
       })
 
       if (response.ok) {
@@ -125,8 +127,8 @@ export default function FileViewer({ file, onFileSaved, onBack, onRename }: File
 
   if (!file) {
     return (
-      <div className="flex-1 flex items-center justify-center bg-gray-900">
-        <div className="text-center text-gray-500">
+      <div className="flex-1 flex items-center justify-center bg-background">
+        <div className="text-center text-muted-foreground/70">
           <FileText className="w-16 h-16 mx-auto mb-4 opacity-50" />
           <p>Select a file to view</p>
         </div>
@@ -135,18 +137,18 @@ export default function FileViewer({ file, onFileSaved, onBack, onRename }: File
   }
 
   return (
-    <div className="flex-1 flex flex-col bg-gray-900">
-      <div className="flex items-center justify-between p-3 border-b border-gray-700 bg-gray-800">
+    <div className="flex-1 flex flex-col bg-background">
+      <div className="flex items-center justify-between p-3 border-b border-border bg-secondary">
         <div className="flex items-center gap-2">
           {onBack && (
             <button
               onClick={onBack}
-              className="p-1 mr-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors"
+              className="p-1 mr-1 text-muted-foreground hover:text-foreground hover:bg-accent rounded transition-colors"
             >
               <ArrowLeft className="w-4 h-4" />
             </button>
           )}
-          <FileText className="w-4 h-4 text-gray-400" />
+          <FileText className="w-4 h-4 text-muted-foreground" />
           {isRenaming ? (
             <input
               value={renameValue}
@@ -165,13 +167,13 @@ export default function FileViewer({ file, onFileSaved, onBack, onRename }: File
                   setRenameValue('')
                 }
               }}
-              className="bg-gray-700 text-gray-100 text-sm rounded border border-gray-600 px-2 py-1 w-[320px]"
+              className="bg-accent text-foreground text-sm rounded border border-muted px-2 py-1 w-[320px]"
               autoFocus
               disabled={isRenamingSaving}
             />
           ) : (
             <span
-              className={`text-sm font-medium text-gray-200 truncate ${onRename ? 'cursor-text' : ''}`}
+              className={`text-sm font-medium text-foreground truncate ${onRename ? 'cursor-text' : ''}`}
               onDoubleClick={() => {
                 if (!onRename) return
                 setRenameValue(displayedTitle)
@@ -184,12 +186,12 @@ export default function FileViewer({ file, onFileSaved, onBack, onRename }: File
           )}
         </div>
         <div className="flex items-center gap-2">
-          <span className="text-xs text-gray-500 truncate max-w-md mr-4">{file.path}</span>
+          <span className="text-xs text-muted-foreground/70 truncate max-w-md mr-4">{file.path}</span>
           {isEditing ? (
             <>
               <button
                 onClick={handleCancel}
-                className="flex items-center gap-1 px-3 py-1 text-sm text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
+                className="flex items-center gap-1 px-3 py-1 text-sm text-muted-foreground hover:text-foreground hover:bg-accent rounded transition-colors"
                 disabled={isSaving}
               >
                 <X className="w-4 h-4" />
@@ -207,7 +209,7 @@ export default function FileViewer({ file, onFileSaved, onBack, onRename }: File
           ) : (
             <button
               onClick={() => setIsEditing(true)}
-              className="flex items-center gap-1 px-3 py-1 text-sm text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
+              className="flex items-center gap-1 px-3 py-1 text-sm text-muted-foreground hover:text-foreground hover:bg-accent rounded transition-colors"
             >
               <Edit className="w-4 h-4" />
               Edit
@@ -215,7 +217,7 @@ export default function FileViewer({ file, onFileSaved, onBack, onRename }: File
           )}
         </div>
       </div>
-      <div className="flex-1 overflow-auto" data-color-mode="dark">
+      <div className="flex-1 overflow-auto">
         {isEditing ? (
           <MDEditor
             value={content}
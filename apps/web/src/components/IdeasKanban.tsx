@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react'
 import { 
   KanbanBoard, 
+  type KanbanCardAction,
   type KanbanCardType, 
   type KanbanColumnType,
   Dialog,
@@ -16,23 +17,18 @@ import {
   Textarea
 } from '@agelum/kanban'
 import { Button } from '@agelum/shadcn'
+import { toKanbanColumns } from '@/lib/workflow-columns'
+import { useBoardOrdering } from '@/lib/use-board-ordering'
 
 interface Idea {
   id: string
   title: string
   description: string
-  state: 'thinking' | 'important' | 'priority' | 'planned' | 'done'
+  state: string
   createdAt: string
   path: string
 }
 
-const columns: KanbanColumnType[] = [
-  { id: 'thinking', title: 'Thinking', color: 'purple', order: 0 },
-  { id: 'important', title: 'Important', color: 'orange', order: 1 },
-  { id: 'priority', title: 'Priority', color: 'red', order: 2 },
-  { id: 'planned', title: 'Planned', color: 'blue', order: 3 },
-  { id: 'done', title: 'Done', color: 'green', order: 4 },
-]
 
 interface IdeasKanbanProps {
   repo: string
@@ -41,6 +37,7 @@ interface IdeasKanbanProps {
 
 export default function IdeasKanban({ repo, onIdeaSelect }: IdeasKanbanProps) {
   const [ideas, setIdeas] = useState<Idea[]>([])
+  const [columns, setColumns] = useState<KanbanColumnType[]>([])
   const [refreshKey, setRefreshKey] = useState(0)
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [newIdeaColumn, setNewIdeaColumn] = useState('')
@@ -51,6 +48,7 @@ export default function IdeasKanban({ repo, onIdeaSelect }: IdeasKanbanProps) {
     const res = await fetch(`/api/ideas?repo=${encodeURIComponent(repo)}`)
     const data = await res.json()
     setIdeas(data.ideas || [])
+    setColumns(toKanbanColumns(data.states))
   }, [repo])
 
   useEffect(() => {
@@ -104,35 +102,40 @@ export default function IdeasKanban({ repo, onIdeaSelect }: IdeasKanbanProps) {
     [repo, newIdeaTitle, newIdeaDescription, newIdeaColumn]
   )
 
-  const handleCardMove = useCallback(
-    async (cardId: string, fromState: string, toState: string) => {
-      setIdeas((prev) =>
-        prev.map((i) => (i.id === cardId ? { ...i, state: toState as Idea['state'] } : i))
-      )
+  const { handleCardMove, handleCardReorder } = useBoardOrdering('/api/ideas', 'idea', {
+    repo,
+    setItems: setIdeas,
+    setRefreshKey
+  })
+
+  const handlePromote = useCallback(
+    async (card: KanbanCardType) => {
+      const idea = ideas.find((item) => item.id === card.id)
+      if (!idea) return
 
       const res = await fetch('/api/ideas', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           repo,
-          action: 'move',
-          ideaId: cardId,
-          fromState,
-          toState,
+          action: 'promote',
+          path: idea.path,
         }),
       })
 
+      const data = await res.json()
+      setRefreshKey((k) => k + 1)
       if (!res.ok) {
-        setRefreshKey((k) => k + 1)
-        const data = await res.json()
-        throw new Error(data.error || 'Failed to move idea')
+        window.alert(data.error || 'Failed to promote idea')
       }
-
-      setRefreshKey((k) => k + 1)
     },
-    [repo]
+    [repo, ideas]
   )
 
+  const cardActions: KanbanCardAction[] = [
+    { id: 'promote', label: 'Promote to epic', onSelect: handlePromote },
+  ]
+
   return (
     <>
       <div className="h-full">
@@ -141,6 +144,8 @@ export default function IdeasKanban({ repo, onIdeaSelect }: IdeasKanbanProps) {
           cards={cards}
           onAddCard={handleAddCard}
           onCardMove={handleCardMove}
+          onCardReorder={handleCardReorder}
+          cardActions={cardActions}
           onCardClick={(card: KanbanCardType) => {
             const idea = ideas.find((i) => i.id === card.id)
             if (idea) onIdeaSelect(idea)
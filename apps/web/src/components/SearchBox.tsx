@@ -0,0 +1,169 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Search, X } from 'lucide-react'
+import type { SearchResult, SearchSegment } from '@/lib/search'
+
+interface SearchBoxProps {
+  repo: string | null
+  onResultSelect: (result: SearchResult) => void
+}
+
+const SEARCH_DELAY_MS = 200
+
+const typeLabels: Record<string, string> = {
+  idea: 'Idea',
+  epic: 'Epic',
+  task: 'Task',
+  doc: 'Doc',
+  plan: 'Plan',
+  research: 'Research',
+  context: 'Context'
+}
+
+function Highlighted({ segments }: { segments: SearchSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <mark key={index} className="bg-yellow-500/30 text-yellow-100 rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  )
+}
+
+export default function SearchBox({ repo, onResultSelect }: SearchBoxProps) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (!repo || !trimmed) {
+      setResults([])
+      return
+    }
+
+    // Drop responses for queries the user has already typed past
+    let cancelled = false
+    const timer = setTimeout(() => {
+      fetch(`/api/search?repo=${encodeURIComponent(repo)}&q=${encodeURIComponent(trimmed)}`)
+        .then((res) => res.json())
+        .then((data) => {
+          if (cancelled) return
+          setResults(data.results || [])
+          setActiveIndex(0)
+        })
+        .catch((error) => console.error('Search failed:', error))
+    }, SEARCH_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [repo, query])
+
+  useEffect(() => {
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handlePointerDown)
+    return () => document.removeEventListener('mousedown', handlePointerDown)
+  }, [])
+
+  const select = (result: SearchResult) => {
+    onResultSelect(result)
+    setIsOpen(false)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault()
+      setActiveIndex((index) => Math.min(index + 1, results.length - 1))
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault()
+      setActiveIndex((index) => Math.max(index - 1, 0))
+    } else if (event.key === 'Enter' && results[activeIndex]) {
+      event.preventDefault()
+      select(results[activeIndex])
+    } else if (event.key === 'Escape') {
+      setIsOpen(false)
+      event.currentTarget.blur()
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="flex items-center gap-2 px-2.5 py-1.5 bg-accent rounded-lg focus-within:ring-2 focus-within:ring-blue-500">
+        <Search className="w-4 h-4 text-muted-foreground" />
+        <input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setIsOpen(true)
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          disabled={!repo}
+          placeholder='Search… (state:doing, "exact phrase")'
+          className="w-64 bg-transparent text-sm text-foreground placeholder:text-muted-foreground outline-none"
+        />
+        {query && (
+          <button
+            onClick={() => {
+              setQuery('')
+              setResults([])
+            }}
+            className="text-muted-foreground hover:text-foreground"
+            title="Clear search"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {isOpen && query.trim() && (
+        <div className="absolute right-0 z-50 mt-1 w-[28rem] max-h-[28rem] overflow-y-auto rounded-lg border border-border bg-secondary shadow-xl">
+          {results.length === 0 ? (
+            <div className="px-4 py-3 text-sm text-muted-foreground">No matching documents</div>
+          ) : (
+            results.map((result, index) => (
+              <button
+                key={result.path}
+                onClick={() => select(result)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`block w-full px-4 py-2.5 text-left border-b border-border/60 last:border-b-0 ${
+                  index === activeIndex ? 'bg-accent' : ''
+                }`}
+              >
+                <div className="flex items-center gap-2 text-sm text-foreground">
+                  <span className="shrink-0 rounded bg-muted px-1.5 py-0.5 text-[10px] uppercase tracking-wide text-muted-foreground">
+                    {typeLabels[result.type] || result.type}
+                  </span>
+                  <span className="truncate">
+                    <Highlighted segments={result.highlights.title} />
+                  </span>
+                  {result.state && (
+                    <span className="ml-auto shrink-0 text-xs text-muted-foreground">{result.state}</span>
+                  )}
+                </div>
+                {result.highlights.snippet.length > 0 && (
+                  <div className="mt-1 text-xs text-muted-foreground line-clamp-2">
+                    <Highlighted segments={result.highlights.snippet} />
+                  </div>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,397 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Plus, Save, Trash2 } from 'lucide-react'
+import type {
+  AgelumConfig,
+  ConfigIssue,
+  Repository,
+  RepositorySettings,
+  Theme
+} from '@/lib/config'
+import { VIEWS, type ViewMode } from '@/lib/routes'
+import { applyTheme } from '@/lib/theme'
+
+interface SettingsResponse {
+  config: AgelumConfig
+  roots: string[]
+  repositories: (Repository & { excluded: boolean })[]
+  error?: string
+  issues?: ConfigIssue[]
+}
+
+const VIEW_TITLES: Record<ViewMode, string> = {
+  ideas: 'Ideas',
+  research: 'Research',
+  docs: 'Docs',
+  plan: 'Plan',
+  epics: 'Epics',
+  kanban: 'Tasks',
+  graph: 'Graph',
+  commands: 'Commands',
+  browser: 'Files'
+}
+
+const THEME_TITLES: Record<Theme, string> = {
+  dark: 'Dark',
+  light: 'Light',
+  system: 'System'
+}
+
+const inputClass =
+  'bg-accent text-foreground text-sm rounded border border-muted px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+function toRoots(config: AgelumConfig): string[] {
+  if (config.rootGitDirectories) return config.rootGitDirectories
+  return config.rootGitDirectory ? [config.rootGitDirectory] : []
+}
+
+function toRegistered(config: AgelumConfig): { name: string; path: string }[] {
+  return (config.repositories ?? []).map(entry =>
+    typeof entry === 'string' ? { name: '', path: entry } : { name: entry.name ?? '', path: entry.path }
+  )
+}
+
+function ViewSelect({
+  value,
+  onChange,
+  emptyLabel
+}: {
+  value?: ViewMode
+  onChange: (value?: ViewMode) => void
+  emptyLabel: string
+}) {
+  return (
+    <select
+      value={value ?? ''}
+      onChange={e => onChange((e.target.value || undefined) as ViewMode | undefined)}
+      className={inputClass}
+    >
+      <option value="">{emptyLabel}</option>
+      {VIEWS.map(view => (
+        <option key={view} value={view}>
+          {VIEW_TITLES[view]}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+function ThemeSelect({
+  value,
+  onChange,
+  emptyLabel
+}: {
+  value?: Theme
+  onChange: (value?: Theme) => void
+  emptyLabel: string
+}) {
+  return (
+    <select
+      value={value ?? ''}
+      onChange={e => onChange((e.target.value || undefined) as Theme | undefined)}
+      className={inputClass}
+    >
+      <option value="">{emptyLabel}</option>
+      {(Object.keys(THEME_TITLES) as Theme[]).map(theme => (
+        <option key={theme} value={theme}>
+          {THEME_TITLES[theme]}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+/**
+ * Editor for the global `~/.agelum/config.json`. The server validates the
+ * whole config on save and answers with one issue per bad setting.
+ */
+export default function SettingsForm() {
+  const [loaded, setLoaded] = useState<SettingsResponse | null>(null)
+  const [roots, setRoots] = useState<string[]>([])
+  const [registered, setRegistered] = useState<{ name: string; path: string }[]>([])
+  const [defaultView, setDefaultView] = useState<ViewMode | undefined>()
+  const [theme, setTheme] = useState<Theme | undefined>()
+  const [excluded, setExcluded] = useState<string[]>([])
+  const [overrides, setOverrides] = useState<Record<string, RepositorySettings>>({})
+  const [issues, setIssues] = useState<ConfigIssue[]>([])
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const load = (data: SettingsResponse) => {
+    setLoaded(data)
+    setRoots(toRoots(data.config))
+    setRegistered(toRegistered(data.config))
+    setDefaultView(data.config.defaultView)
+    setTheme(data.config.theme)
+    setExcluded(data.config.excludedRepositories ?? [])
+    setOverrides(data.config.repositoryOverrides ?? {})
+  }
+
+  useEffect(() => {
+    fetch('/api/config')
+      .then(res => res.json())
+      .then((data: SettingsResponse) => {
+        if (data.error) throw new Error(data.error)
+        load(data)
+      })
+      .catch(error => setMessage(error instanceof Error ? error.message : 'Failed to load settings'))
+  }, [])
+
+  // Preview the theme while editing; saving makes it stick
+  useEffect(() => (loaded ? applyTheme(theme) : undefined), [loaded, theme])
+
+  const issueFor = (field: string) =>
+    issues.find(issue => issue.field === field || issue.field.startsWith(`${field}.`))?.message
+
+  const setOverride = (repo: string, settings: RepositorySettings) => {
+    setOverrides(current => {
+      const next = { ...current, [repo]: { ...current[repo], ...settings } }
+      for (const key of Object.keys(next[repo]) as (keyof RepositorySettings)[]) {
+        if (!next[repo][key]) delete next[repo][key]
+      }
+      if (Object.keys(next[repo]).length === 0) delete next[repo]
+      return next
+    })
+  }
+
+  const handleSave = async () => {
+    // Blank rows are dropped first so issue indexes match the rows shown
+    const rootGitDirectories = roots.map(root => root.trim()).filter(Boolean)
+    const entries = registered
+      .map(entry => ({ name: entry.name.trim(), path: entry.path.trim() }))
+      .filter(entry => entry.path)
+    setRoots(rootGitDirectories)
+    setRegistered(entries)
+
+    const repositories = entries.map(entry => (entry.name ? entry : entry.path))
+    const config: AgelumConfig = {
+      ...(rootGitDirectories.length > 0 && { rootGitDirectories }),
+      ...(repositories.length > 0 && { repositories }),
+      ...(defaultView && { defaultView }),
+      ...(theme && { theme }),
+      ...(excluded.length > 0 && { excludedRepositories: excluded }),
+      ...(Object.keys(overrides).length > 0 && { repositoryOverrides: overrides })
+    }
+
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const res = await fetch('/api/config', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ config })
+      })
+      const data: SettingsResponse = await res.json()
+      if (!res.ok) {
+        setIssues(data.issues ?? [])
+        setMessage(data.error || 'Failed to save settings')
+        return
+      }
+      setIssues([])
+      load(data)
+      setMessage('Settings saved')
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to save settings')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!loaded) {
+    return <div className="p-6 text-sm text-muted-foreground">{message ?? 'Loading settings…'}</div>
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-8">
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-sm font-semibold text-foreground">Root directories</h2>
+          <p className="text-xs text-muted-foreground/70">
+            Every folder inside these directories is a repository. Defaults to ~/git when empty.
+          </p>
+        </div>
+        {roots.map((root, index) => (
+          <div key={index}>
+            <div className="flex items-center gap-2">
+              <input
+                value={root}
+                onChange={e => setRoots(roots.map((value, i) => (i === index ? e.target.value : value)))}
+                placeholder="~/git"
+                className={`${inputClass} flex-1`}
+              />
+              <button
+                onClick={() => setRoots(roots.filter((_, i) => i !== index))}
+                className="p-1 text-muted-foreground hover:text-red-400 hover:bg-accent rounded transition-colors"
+                title="Remove directory"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {issueFor(`rootGitDirectories.${index}`) && (
+              <p className="mt-1 text-xs text-red-400">{issueFor(`rootGitDirectories.${index}`)}</p>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => setRoots([...roots, ''])}
+          className="flex items-center gap-1 px-2 py-1 text-sm text-muted-foreground hover:text-foreground hover:bg-accent rounded transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add directory
+        </button>
+      </section>
+
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-sm font-semibold text-foreground">Registered repositories</h2>
+          <p className="text-xs text-muted-foreground/70">
+            Repositories outside the root directories. The name defaults to the folder name.
+          </p>
+        </div>
+        {registered.map((entry, index) => (
+          <div key={index}>
+            <div className="flex items-center gap-2">
+              <input
+                value={entry.name}
+                onChange={e =>
+                  setRegistered(registered.map((value, i) => (i === index ? { ...value, name: e.target.value } : value)))
+                }
+                placeholder="Name (optional)"
+                className={`${inputClass} w-48`}
+              />
+              <input
+                value={entry.path}
+                onChange={e =>
+                  setRegistered(registered.map((value, i) => (i === index ? { ...value, path: e.target.value } : value)))
+                }
+                placeholder="/path/to/repository"
+                className={`${inputClass} flex-1`}
+              />
+              <button
+                onClick={() => setRegistered(registered.filter((_, i) => i !== index))}
+                className="p-1 text-muted-foreground hover:text-red-400 hover:bg-accent rounded transition-colors"
+                title="Remove repository"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {issueFor(`repositories.${index}`) && (
+              <p className="mt-1 text-xs text-red-400">{issueFor(`repositories.${index}`)}</p>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => setRegistered([...registered, { name: '', path: '' }])}
+          className="flex items-center gap-1 px-2 py-1 text-sm text-muted-foreground hover:text-foreground hover:bg-accent rounded transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add repository
+        </button>
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold text-foreground">Defaults</h2>
+        <div className="flex items-center gap-6">
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            Default view
+            <ViewSelect value={defaultView} onChange={setDefaultView} emptyLabel={VIEW_TITLES.epics} />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            Theme
+            <ThemeSelect value={theme} onChange={setTheme} emptyLabel={THEME_TITLES.dark} />
+          </label>
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-sm font-semibold text-foreground">Repositories</h2>
+          <p className="text-xs text-muted-foreground/70">
+            Hidden repositories are left out of the app and the MCP server. Per-repository settings override the defaults.
+          </p>
+        </div>
+        {loaded.repositories.length === 0 ? (
+          <p className="text-sm text-muted-foreground/70">No repositories found.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground/70">
+                <th className="py-1 font-medium">Name</th>
+                <th className="py-1 font-medium">Hidden</th>
+                <th className="py-1 font-medium">Default view</th>
+                <th className="py-1 font-medium">Theme</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loaded.repositories.map(repo => (
+                <tr key={repo.name} className="border-t border-border/50">
+                  <td className="py-2 pr-4">
+                    <div className="text-foreground">{repo.name}</div>
+                    <div className="text-xs text-muted-foreground/70 truncate max-w-xs" title={repo.path}>
+                      {repo.path}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <input
+                      type="checkbox"
+                      checked={excluded.includes(repo.name)}
+                      onChange={e =>
+                        setExcluded(
+                          e.target.checked
+                            ? [...excluded, repo.name]
+                            : excluded.filter(name => name !== repo.name)
+                        )
+                      }
+                    />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <ViewSelect
+                      value={overrides[repo.name]?.defaultView}
+                      onChange={value => setOverride(repo.name, { defaultView: value })}
+                      emptyLabel="Default"
+                    />
+                  </td>
+                  <td className="py-2">
+                    <ThemeSelect
+                      value={overrides[repo.name]?.theme}
+                      onChange={value => setOverride(repo.name, { theme: value })}
+                      emptyLabel="Default"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <div className="flex items-center gap-3 border-t border-border pt-4">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          {isSaving ? 'Saving…' : 'Save'}
+        </button>
+        {message && (
+          <span className={`text-sm ${issues.length > 0 ? 'text-red-400' : 'text-muted-foreground'}`}>
+            {issues.length > 0 ? 'Some settings are invalid' : message}
+          </span>
+        )}
+      </div>
+      {issues.some(issue => !/^(rootGitDirectories|repositories)\./.test(issue.field)) && (
+        <ul className="text-xs text-red-400 space-y-1">
+          {issues
+            .filter(issue => !/^(rootGitDirectories|repositories)\./.test(issue.field))
+            .map(issue => (
+              <li key={`${issue.field}:${issue.message}`}>
+                {issue.field}: {issue.message}
+              </li>
+            ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback, useMemo } from 'react'
 import { 
   KanbanBoard, 
+  type KanbanAssignee,
   type KanbanCardType, 
   type KanbanColumnType,
   Dialog,
@@ -16,66 +17,139 @@ import {
   Textarea
 } from '@agelum/kanban'
 import { Button } from '@agelum/shadcn'
+import { Layers, X } from 'lucide-react'
+import { toKanbanColumns } from '@/lib/workflow-columns'
+import { useBoardOrdering } from '@/lib/use-board-ordering'
+import {
+  parseDueDate,
+  resolveAssignee,
+  toCardPriority,
+  toEpicLabel,
+  toKanbanLabels,
+  toMissingDependencyLabels
+} from '@/lib/task-cards'
 
 interface Task {
   id: string
   title: string
   description: string
-  state: 'backlog' | 'priority' | 'pending' | 'doing' | 'done'
+  state: string
   createdAt: string
   epic?: string
   assignee?: string
+  priority?: number
+  storyPoints?: number
+  dueDate?: string
+  labels?: string[]
+  dependsOn?: string[]
+  missingDependencies?: string[]
+  blockedBy?: string[]
+  blocks?: string[]
   path?: string
 }
 
-const columns: KanbanColumnType[] = [
-  { id: 'backlog', title: 'Backlog', color: 'gray', order: 0 },
-  { id: 'priority', title: 'Priority', color: 'red', order: 1 },
-  { id: 'pending', title: 'Pending', color: 'yellow', order: 2 },
-  { id: 'doing', title: 'Doing', color: 'blue', order: 3 },
-  { id: 'done', title: 'Done', color: 'green', order: 4 },
-]
+interface TaskEditForm {
+  description: string
+  assignee: string
+  epic: string
+  priority: string
+  storyPoints: string
+  dueDate: string
+  labels: string
+  dependsOn: string
+}
+
+function toEditForm(task: Partial<Task>): TaskEditForm {
+  return {
+    description: task.description || '',
+    assignee: task.assignee || '',
+    epic: task.epic || '',
+    priority: task.priority !== undefined ? String(task.priority) : '',
+    storyPoints: task.storyPoints !== undefined ? String(task.storyPoints) : '',
+    dueDate: task.dueDate || '',
+    labels: (task.labels || []).join(', '),
+    dependsOn: (task.dependsOn || []).join(', ')
+  }
+}
+
+/** Only edited fields are sent so stale values (e.g. a renamed dependency) don't block a save */
+function changedFields(task: Partial<Task>, form: TaskEditForm): Partial<TaskEditForm> {
+  const original = toEditForm(task)
+  return Object.fromEntries(
+    (Object.keys(form) as (keyof TaskEditForm)[])
+      .filter((key) => form[key].trim() !== original[key].trim())
+      .map((key) => [key, form[key]])
+  )
+}
 
 interface TaskKanbanProps {
   repo: string
   onTaskSelect: (task: Task) => void
+  /** Limits the board to the tasks of one epic */
+  epic?: { slug: string; title: string } | null
+  onClearEpic?: () => void
 }
 
-export default function TaskKanban({ repo, onTaskSelect }: TaskKanbanProps) {
+export default function TaskKanban({ repo, onTaskSelect, epic, onClearEpic }: TaskKanbanProps) {
   const [tasks, setTasks] = useState<Task[]>([])
+  const [columns, setColumns] = useState<KanbanColumnType[]>([])
+  const [users, setUsers] = useState<KanbanAssignee[]>([])
   const [refreshKey, setRefreshKey] = useState(0)
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [newTaskColumn, setNewTaskColumn] = useState('')
   const [newTaskTitle, setNewTaskTitle] = useState('')
   const [newTaskDescription, setNewTaskDescription] = useState('')
+  const [createError, setCreateError] = useState('')
+  const [editingTask, setEditingTask] = useState<Task | null>(null)
+  const [editForm, setEditForm] = useState<TaskEditForm>(() => toEditForm({}))
+  const [editError, setEditError] = useState('')
+  const [epicOptions, setEpicOptions] = useState<{ slug: string; title: string }[]>([])
 
   const fetchTasks = useCallback(async () => {
-    const res = await fetch(`/api/tasks?repo=${encodeURIComponent(repo)}`)
+    const epicParam = epic ? `&epic=${encodeURIComponent(epic.slug)}` : ''
+    const res = await fetch(`/api/tasks?repo=${encodeURIComponent(repo)}${epicParam}`)
     const data = await res.json()
     setTasks(data.tasks || [])
-  }, [repo])
+    setColumns(toKanbanColumns(data.states))
+  }, [repo, epic])
 
   useEffect(() => {
     fetchTasks()
   }, [fetchTasks, refreshKey])
 
+  useEffect(() => {
+    fetch(`/api/users?repo=${encodeURIComponent(repo)}`)
+      .then((res) => res.json())
+      .then((data) => setUsers(data.users || []))
+      // Cards still render without avatars
+      .catch(() => setUsers([]))
+  }, [repo])
+
   const cards = useMemo<KanbanCardType[]>(() => {
     return tasks.map((task, index) => ({
       id: task.id,
       title: task.title,
-      description: [task.description, task.epic ? `Epic: ${task.epic}` : null, task.assignee ? `Assignee: ${task.assignee}` : null]
-        .filter(Boolean)
-        .join('\n'),
+      description: task.description,
       columnId: task.state,
+      labels: [
+        ...(task.epic ? [toEpicLabel(task.epic)] : []),
+        ...toKanbanLabels(task.labels),
+        ...toMissingDependencyLabels(task.missingDependencies)
+      ],
+      assignees: task.assignee ? [resolveAssignee(task.assignee, users)] : [],
+      blockedBy: (task.blockedBy || []).map((id) => tasks.find((t) => t.id === id)?.title || id),
+      dueDate: parseDueDate(task.dueDate),
+      priority: toCardPriority(task.priority),
       order: index,
     }))
-  }, [tasks])
+  }, [tasks, users])
 
   const handleAddCard = useCallback(
     async (columnId: string) => {
       setNewTaskColumn(columnId)
       setNewTaskTitle('')
       setNewTaskDescription('')
+      setCreateError('')
       setIsAddDialogOpen(true)
     },
     []
@@ -94,69 +168,120 @@ export default function TaskKanban({ repo, onTaskSelect }: TaskKanbanProps) {
           data: { 
             title: newTaskTitle.trim(), 
             description: newTaskDescription.trim(), 
-            state: newTaskColumn 
+            state: newTaskColumn,
+            epic: epic?.slug
           },
         }),
       })
 
       const data = await res.json()
-      if (!res.ok) throw new Error(data.error || 'Failed to create task')
+      if (!res.ok) {
+        setCreateError(data.error || 'Failed to create task')
+        return
+      }
 
       setRefreshKey((k) => k + 1)
       setIsAddDialogOpen(false)
       setNewTaskTitle('')
       setNewTaskDescription('')
     },
-    [repo, newTaskTitle, newTaskDescription, newTaskColumn]
+    [repo, epic, newTaskTitle, newTaskDescription, newTaskColumn]
   )
 
-  const handleCardMove = useCallback(
-    async (cardId: string, fromState: string, toState: string) => {
-      setTasks((prev) =>
-        prev.map((t) => (t.id === cardId ? { ...t, state: toState as Task['state'] } : t))
+  const handleEditTask = useCallback(
+    async (task: Task) => {
+      setEditingTask(task)
+      setEditForm(toEditForm(task))
+      setEditError('')
+
+      const res = await fetch(`/api/epics?repo=${encodeURIComponent(repo)}`)
+      const data = await res.json()
+      setEpicOptions(
+        (data.epics || []).map((option: { slug: string; title: string }) => ({ slug: option.slug, title: option.title }))
       )
+    },
+    [repo]
+  )
+
+  const handleSaveTask = useCallback(
+    async () => {
+      if (!editingTask?.path) return
+
+      const changes = changedFields(editingTask, editForm)
+      if (Object.keys(changes).length === 0) {
+        setEditingTask(null)
+        return
+      }
 
       const res = await fetch('/api/tasks', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           repo,
-          action: 'move',
-          taskId: cardId,
-          fromState,
-          toState,
+          action: 'update',
+          path: editingTask.path,
+          data: changes,
         }),
       })
 
+      const data = await res.json()
       if (!res.ok) {
-        setRefreshKey((k) => k + 1)
-        const data = await res.json()
-        throw new Error(data.error || 'Failed to move task')
+        setEditError(data.error || 'Failed to update task')
+        return
       }
 
       setRefreshKey((k) => k + 1)
+      setEditingTask(null)
     },
-    [repo]
+    [repo, editingTask, editForm]
   )
 
+  const updateEditField = (field: keyof TaskEditForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setEditForm((form) => ({ ...form, [field]: e.target.value }))
+
+  const { handleCardMove, handleCardReorder } = useBoardOrdering('/api/tasks', 'task', {
+    repo,
+    setItems: setTasks,
+    setRefreshKey
+  })
+
   return (
     <>
-      <div className="h-full">
-        <KanbanBoard
-          columns={columns}
-          cards={cards}
-          onAddCard={handleAddCard}
-          onCardMove={handleCardMove}
-          onCardClick={(card: KanbanCardType) => {
-            const task = tasks.find((t) => t.id === card.id)
-            if (task) onTaskSelect(task)
-          }}
-          onCardEdit={(card: KanbanCardType) => {
-            const task = tasks.find((t) => t.id === card.id)
-            if (task) onTaskSelect(task)
-          }}
-          key={refreshKey}
-        />
+      <div className="flex flex-col h-full">
+        {epic && (
+          <div className="flex items-center gap-2 px-4 py-2 text-sm text-muted-foreground border-b border-border">
+            <Layers className="w-4 h-4 text-indigo-400" />
+            <span>
+              Epic: <span className="font-medium text-foreground">{epic.title}</span>
+            </span>
+            <button
+              onClick={onClearEpic}
+              className="flex items-center gap-1 ml-2 px-2 py-0.5 rounded text-xs text-muted-foreground hover:bg-accent hover:text-foreground"
+            >
+              <X className="w-3 h-3" />
+              Show all tasks
+            </button>
+          </div>
+        )}
+        <div className="flex-1 min-h-0">
+          <KanbanBoard
+            columns={columns}
+            cards={cards}
+            onAddCard={handleAddCard}
+            onCardMove={handleCardMove}
+            onCardReorder={handleCardReorder}
+            onCardClick={(card: KanbanCardType) => {
+              const task = tasks.find((t) => t.id === card.id)
+              if (task) onTaskSelect(task)
+            }}
+            onCardEdit={(card: KanbanCardType) => {
+              const task = tasks.find((t) => t.id === card.id)
+              if (task) handleEditTask(task)
+            }}
+            key={refreshKey}
+          />
+        </div>
       </div>
 
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
@@ -194,6 +319,7 @@ export default function TaskKanban({ repo, onTaskSelect }: TaskKanbanProps) {
                 rows={4}
               />
             </div>
+            {createError && <p className="text-sm text-red-500">{createError}</p>}
           </div>
           <DialogFooter>
             <Button
@@ -211,6 +337,126 @@ export default function TaskKanban({ repo, onTaskSelect }: TaskKanbanProps) {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={editingTask !== null} onOpenChange={(open: boolean) => !open && setEditingTask(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Edit Task</DialogTitle>
+            <DialogDescription>
+              {editingTask?.title}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="task-edit-description">Description</Label>
+              <Textarea
+                id="task-edit-description"
+                placeholder="No description"
+                value={editForm.description}
+                onChange={updateEditField('description')}
+                rows={3}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="task-assignee">Assignee</Label>
+                <Input
+                  id="task-assignee"
+                  placeholder="Unassigned"
+                  value={editForm.assignee}
+                  onChange={updateEditField('assignee')}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="task-epic">Epic</Label>
+                <Input
+                  id="task-epic"
+                  placeholder="No epic"
+                  list="task-epic-options"
+                  value={editForm.epic}
+                  onChange={updateEditField('epic')}
+                />
+                <datalist id="task-epic-options">
+                  {epicOptions.map((option) => (
+                    <option key={option.slug} value={option.slug}>
+                      {option.title}
+                    </option>
+                  ))}
+                </datalist>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="task-priority">Priority</Label>
+                <Input
+                  id="task-priority"
+                  type="number"
+                  min={0}
+                  placeholder="None"
+                  value={editForm.priority}
+                  onChange={updateEditField('priority')}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="task-story-points">Story points</Label>
+                <Input
+                  id="task-story-points"
+                  type="number"
+                  min={0}
+                  placeholder="None"
+                  value={editForm.storyPoints}
+                  onChange={updateEditField('storyPoints')}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="task-due-date">Due date</Label>
+                <Input
+                  id="task-due-date"
+                  type="date"
+                  value={editForm.dueDate}
+                  onChange={updateEditField('dueDate')}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="task-labels">Labels</Label>
+                <Input
+                  id="task-labels"
+                  placeholder="bug, frontend"
+                  value={editForm.labels}
+                  onChange={updateEditField('labels')}
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="task-depends-on">Depends on</Label>
+              <Input
+                id="task-depends-on"
+                placeholder="Titles of tasks to finish first, comma separated"
+                list="task-title-options"
+                value={editForm.dependsOn}
+                onChange={updateEditField('dependsOn')}
+              />
+              <datalist id="task-title-options">
+                {tasks
+                  .filter((t) => t.id !== editingTask?.id)
+                  .map((t) => (
+                    <option key={t.id} value={t.title} />
+                  ))}
+              </datalist>
+            </div>
+            {editError && <p className="text-sm text-red-500">{editError}</p>}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="ghost"
+              onClick={() => setEditingTask(null)}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSaveTask}>
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   )
 }
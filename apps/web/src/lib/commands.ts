@@ -0,0 +1,175 @@
+// --- Types & Constants ---
+
+export const COMMANDS = [
+  { id: 'palette', title: 'Open command palette', shortcut: 'mod+k' },
+  { id: 'view.ideas', title: 'Go to Ideas', shortcut: 'alt+1' },
+  { id: 'view.research', title: 'Go to Research', shortcut: 'alt+2' },
+  { id: 'view.docs', title: 'Go to Docs', shortcut: 'alt+3' },
+  { id: 'view.plan', title: 'Go to Plan', shortcut: 'alt+4' },
+  { id: 'view.epics', title: 'Go to Epics', shortcut: 'alt+5' },
+  { id: 'view.kanban', title: 'Go to Tasks', shortcut: 'alt+6' },
+  { id: 'view.graph', title: 'Go to Graph', shortcut: 'alt+7' },
+  { id: 'view.commands', title: 'Go to Commands', shortcut: 'alt+8' },
+  { id: 'view.browser', title: 'Go to Files', shortcut: 'alt+9' },
+  { id: 'repo.switch', title: 'Switch repository…', shortcut: 'alt+r' },
+  { id: 'document.open', title: 'Open document…', shortcut: 'mod+p' },
+  { id: 'create.task', title: 'Create task…', shortcut: 'alt+t' },
+  { id: 'create.epic', title: 'Create epic…', shortcut: 'alt+e' },
+  { id: 'create.idea', title: 'Create idea…', shortcut: 'alt+i' },
+  { id: 'task.move', title: 'Move selected task…', shortcut: 'alt+m' },
+  { id: 'shortcuts.edit', title: 'Edit keyboard shortcuts…', shortcut: '' },
+] as const;
+
+export type CommandId = (typeof COMMANDS)[number]['id'];
+
+/** Key combination per command, e.g. `mod+k`; empty means unbound */
+export type ShortcutMap = Record<CommandId, string>;
+
+export const DEFAULT_SHORTCUTS = Object.fromEntries(
+  COMMANDS.map((command) => [command.id, command.shortcut])
+) as ShortcutMap;
+
+const SHORTCUTS_STORAGE_KEY = 'agelum.shortcuts';
+
+const MODIFIERS = ['mod', 'alt', 'shift'] as const;
+
+// --- Shortcuts ---
+
+/**
+ * Canonical form of a key combination: lowercase, modifiers first in a fixed
+ * order. `ctrl`, `cmd` and `meta` all mean `mod`.
+ */
+export function normalizeShortcut(shortcut: string): string {
+  const parts = shortcut
+    .toLowerCase()
+    .split('+')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) =>
+      ['ctrl', 'control', 'cmd', 'command', 'meta'].includes(part)
+        ? 'mod'
+        : part === 'option'
+          ? 'alt'
+          : part
+    );
+  const key = parts.filter(
+    (part) => !(MODIFIERS as readonly string[]).includes(part)
+  );
+  if (key.length !== 1) return '';
+  return [...MODIFIERS.filter((modifier) => parts.includes(modifier)), key[0]].join(
+    '+'
+  );
+}
+
+/**
+ * The combination a key event represents, or `null` for a lone modifier.
+ * Letters and digits come from the physical key so Option on macOS still
+ * yields `alt+t` rather than `alt+†`.
+ */
+export function eventToShortcut(event: KeyboardEvent): string | null {
+  let key = event.key.toLowerCase();
+  if (/^Key[A-Z]$/.test(event.code)) key = event.code.slice(3).toLowerCase();
+  if (/^Digit\d$/.test(event.code)) key = event.code.slice(5);
+  if (['control', 'meta', 'alt', 'shift', 'os'].includes(key)) return null;
+
+  return [
+    (event.metaKey || event.ctrlKey) && 'mod',
+    event.altKey && 'alt',
+    event.shiftKey && 'shift',
+    key,
+  ]
+    .filter(Boolean)
+    .join('+');
+}
+
+/** The command bound to a key event, if any */
+export function findCommand(
+  shortcuts: ShortcutMap,
+  event: KeyboardEvent
+): CommandId | undefined {
+  const pressed = eventToShortcut(event);
+  if (!pressed) return undefined;
+  return COMMANDS.find(
+    (command) =>
+      shortcuts[command.id] && normalizeShortcut(shortcuts[command.id]) === pressed
+  )?.id;
+}
+
+/** `mod+shift+p` as `⌘⇧P` on macOS and `Ctrl+Shift+P` elsewhere */
+export function formatShortcut(shortcut: string, mac: boolean): string {
+  const normalized = normalizeShortcut(shortcut);
+  if (!normalized) return '';
+
+  const labels: Record<string, [string, string]> = {
+    mod: ['⌘', 'Ctrl'],
+    alt: ['⌥', 'Alt'],
+    shift: ['⇧', 'Shift'],
+  };
+  return normalized
+    .split('+')
+    .map((part) =>
+      labels[part]
+        ? labels[part][mac ? 0 : 1]
+        : part.length === 1
+          ? part.toUpperCase()
+          : part[0].toUpperCase() + part.slice(1)
+    )
+    .join(mac ? '' : '+');
+}
+
+/** Defaults merged with the overrides saved in this browser */
+export function loadShortcuts(): ShortcutMap {
+  try {
+    const saved = JSON.parse(
+      window.localStorage.getItem(SHORTCUTS_STORAGE_KEY) || '{}'
+    ) as Partial<Record<string, unknown>>;
+    const shortcuts = { ...DEFAULT_SHORTCUTS };
+    for (const command of COMMANDS) {
+      const value = saved[command.id];
+      if (typeof value === 'string') shortcuts[command.id] = value;
+    }
+    return shortcuts;
+  } catch {
+    return { ...DEFAULT_SHORTCUTS };
+  }
+}
+
+/** Stores only the bindings that differ from the defaults */
+export function saveShortcuts(shortcuts: ShortcutMap): void {
+  const overrides = Object.fromEntries(
+    COMMANDS.filter(
+      (command) => shortcuts[command.id] !== DEFAULT_SHORTCUTS[command.id]
+    ).map((command) => [command.id, shortcuts[command.id]])
+  );
+  window.localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(overrides));
+}
+
+// --- Fuzzy matching ---
+
+/**
+ * Scores `text` against a fuzzy `query` whose characters must appear in order.
+ * Consecutive runs and word starts score higher; `0` means no match.
+ */
+export function fuzzyScore(query: string, text: string): number {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return 1;
+
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let streak = 0;
+  let position = 0;
+
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return 0;
+
+    streak = index === position ? streak + 1 : 1;
+    const wordStart = index === 0 || /[\s\-_/]/.test(haystack[index - 1]);
+    score += streak * 2 + (wordStart ? 3 : 0);
+    position = index + 1;
+  }
+
+  // Prefer shorter texts when the match is otherwise equal
+  return score + 1 / (1 + haystack.length);
+}
@@ -1,12 +1,74 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
+import { z } from 'zod';
+import { VIEWS, type ViewMode } from './routes';
 
 const CONFIG_DIR = path.join(os.homedir(), '.agelum');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
 
-export interface AgelumConfig {
-  rootGitDirectory: string;
+/** Used when the config names no root directory */
+const DEFAULT_ROOT_GIT_DIRECTORY = path.join(os.homedir(), 'git');
+
+export interface RegisteredRepository {
+  /** Defaults to the folder name */
+  name?: string;
+  path: string;
+}
+
+export type Theme = 'dark' | 'light' | 'system';
+
+export const THEMES: Theme[] = ['dark', 'light', 'system'];
+
+/** Settings a single repository can override */
+export interface RepositorySettings {
+  defaultView?: ViewMode;
+  theme?: Theme;
+}
+
+export interface AgelumConfig extends RepositorySettings {
+  /** Single root directory, as written by older versions */
+  rootGitDirectory?: string;
+  /** Directories whose subfolders are repositories, searched in order */
+  rootGitDirectories?: string[];
+  /** Repositories outside the roots, as paths or `{ name, path }` objects */
+  repositories?: (string | RegisteredRepository)[];
+  /** Repository names hidden from the app and the MCP server */
+  excludedRepositories?: string[];
+  /** Per-repository settings, keyed by repository name */
+  repositoryOverrides?: Record<string, RepositorySettings>;
+}
+
+export interface Repository {
+  name: string;
+  path: string;
+  /** Root directory the repository was found in; unset when registered */
+  root?: string;
+}
+
+export class RepositoryNotFoundError extends Error {
+  constructor(readonly repo: string) {
+    super(`Repository not found: ${repo}`);
+    this.name = 'RepositoryNotFoundError';
+  }
+}
+
+export interface ConfigIssue {
+  /** Dotted path of the offending setting, e.g. `rootGitDirectories.1` */
+  field: string;
+  message: string;
+}
+
+/** Raised when a config fails validation, with one issue per bad setting */
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(
+      `Invalid config: ${issues
+        .map((issue) => `${issue.field}: ${issue.message}`)
+        .join('; ')}`
+    );
+    this.name = 'ConfigValidationError';
+  }
 }
 
 export function getAgelumConfig(): AgelumConfig | null {
@@ -34,12 +96,166 @@ export function saveAgelumConfig(config: AgelumConfig): void {
   }
 }
 
-export function ensureRootGitDirectory(): string {
-  const config = getAgelumConfig();
-  if (config?.rootGitDirectory) {
-    return config.rootGitDirectory;
+function expandHome(value: string): string {
+  return value === '~' || value.startsWith('~/')
+    ? path.join(os.homedir(), value.slice(1))
+    : value;
+}
+
+function isDirectory(dir: string): boolean {
+  return fs.existsSync(dir) && fs.statSync(dir).isDirectory();
+}
+
+/** Repository names are single, non-hidden path segments */
+export function isValidRepositoryName(name: string): boolean {
+  return !!name && name === path.basename(name) && !name.startsWith('.');
+}
+
+// --- Validation ---
+
+const directorySchema = z
+  .string()
+  .trim()
+  .min(1)
+  .superRefine((value, ctx) => {
+    const resolved = expandHome(value);
+    if (!path.isAbsolute(resolved)) {
+      ctx.addIssue({ code: 'custom', message: `Use an absolute path: ${value}` });
+    } else if (!isDirectory(resolved)) {
+      ctx.addIssue({ code: 'custom', message: `Directory does not exist: ${value}` });
+    }
+  });
+
+const repositoryNameSchema = z
+  .string()
+  .trim()
+  .refine(isValidRepositoryName, 'Invalid repository name');
+
+const repositorySettingsSchema = z.object({
+  defaultView: z.enum(VIEWS as [ViewMode, ...ViewMode[]]).optional(),
+  theme: z.enum(THEMES as [Theme, ...Theme[]]).optional(),
+});
+
+const agelumConfigSchema = repositorySettingsSchema.extend({
+  rootGitDirectory: directorySchema.optional(),
+  rootGitDirectories: z.array(directorySchema).optional(),
+  repositories: z
+    .array(
+      z.union([
+        directorySchema,
+        z.object({
+          name: repositoryNameSchema.optional(),
+          path: directorySchema,
+        }),
+      ])
+    )
+    .optional(),
+  excludedRepositories: z.array(repositoryNameSchema).optional(),
+  repositoryOverrides: z
+    .record(repositoryNameSchema, repositorySettingsSchema)
+    .optional(),
+});
+
+/**
+ * Checks a config before it is saved: known settings only, and every root
+ * and registered repository must be an existing directory.
+ */
+export function parseAgelumConfig(input: unknown): AgelumConfig {
+  const result = agelumConfigSchema.safeParse(input ?? {});
+  if (!result.success) {
+    throw new ConfigValidationError(
+      result.error.issues.map((issue) => ({
+        field: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+        message: issue.message,
+      }))
+    );
+  }
+  return result.data;
+}
+
+// --- Repository resolution ---
+
+/**
+ * Server mode serves repositories from the database (see `sqlite-storage`)
+ * instead of the directories below.
+ */
+export function isServerMode(): boolean {
+  return process.env.SERVER_MODE === 'true';
+}
+
+/** Root directories from the config, falling back to `~/git` */
+export function getRootGitDirectories(
+  config: AgelumConfig | null = getAgelumConfig()
+): string[] {
+  const roots = [
+    ...(config?.rootGitDirectories ?? []),
+    ...(config?.rootGitDirectory ? [config.rootGitDirectory] : []),
+  ]
+    .filter((root) => typeof root === 'string' && root.trim())
+    .map((root) => path.resolve(expandHome(root.trim())));
+
+  return roots.length > 0
+    ? Array.from(new Set(roots))
+    : [DEFAULT_ROOT_GIT_DIRECTORY];
+}
+
+/**
+ * Registered repositories first, then the folders of each root. The first
+ * repository with a name wins, so a registered repository shadows a root
+ * folder of the same name. Includes excluded repositories.
+ */
+export function discoverRepositories(
+  config: AgelumConfig | null = getAgelumConfig()
+): Repository[] {
+  const repositories = new Map<string, Repository>();
+
+  for (const entry of config?.repositories ?? []) {
+    const registered = typeof entry === 'string' ? { path: entry } : entry;
+    if (!registered || typeof registered.path !== 'string') continue;
+
+    const repoPath = path.resolve(expandHome(registered.path.trim()));
+    const name = registered.name?.trim() || path.basename(repoPath);
+    if (!isValidRepositoryName(name) || repositories.has(name)) continue;
+    if (!isDirectory(repoPath)) continue;
+
+    repositories.set(name, { name, path: repoPath });
+  }
+
+  for (const root of getRootGitDirectories(config)) {
+    if (!isDirectory(root)) continue;
+
+    for (const entry of fs.readdirSync(root, { withFileTypes: true })) {
+      if (!entry.isDirectory() || !isValidRepositoryName(entry.name)) continue;
+      if (repositories.has(entry.name)) continue;
+      repositories.set(entry.name, {
+        name: entry.name,
+        path: path.join(root, entry.name),
+        root,
+      });
+    }
+  }
+
+  return Array.from(repositories.values()).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
+
+/** Every repository the app and the MCP server can open */
+export function listRepositories(
+  config: AgelumConfig | null = getAgelumConfig()
+): Repository[] {
+  const excluded = new Set(config?.excludedRepositories ?? []);
+  return discoverRepositories(config).filter((repo) => !excluded.has(repo.name));
+}
+
+/** Path of a repository by name; the one resolver every route goes through */
+export function resolveRepositoryPath(repo: string): string {
+  const name = repo.trim();
+  if (!isValidRepositoryName(name)) {
+    throw new Error(`Invalid repository name: ${repo}`);
   }
-  
-  // Default fallback (legacy behavior)
-  return path.resolve(process.cwd(), '../../..');
+
+  const found = listRepositories().find((entry) => entry.name === name);
+  if (!found) throw new RepositoryNotFoundError(name);
+  return found.path;
 }
@@ -0,0 +1,1121 @@
+import path from 'node:path';
+import matter from 'gray-matter';
+import { isServerMode, resolveRepositoryPath } from './config';
+import { SqliteStorage } from './sqlite-storage';
+import {
+  FileSystemStorage,
+  exists,
+  type StorageBackend,
+} from './storage';
+import {
+  STATEFUL_TYPES,
+  WorkflowViolationError,
+  canTransition,
+  getFinalState,
+  getStateIds,
+  getWorkflowState,
+  loadWorkflow,
+  type StatefulType,
+  type Workflow,
+} from './workflow';
+import {
+  BlockedTaskError,
+  buildDependencyGraph,
+  toDependsOnRefs,
+  validateDependsOn,
+  type TaskDependencies,
+} from './task-dependencies';
+
+// --- Types & Constants ---
+
+export const DOCUMENT_TYPES = [
+  'task',
+  'epic',
+  'idea',
+  'plan',
+  'research',
+  'doc',
+  'command',
+  'skill',
+  'agent',
+  'context',
+] as const;
+
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
+
+const TYPE_DIRS: Record<DocumentType, string> = {
+  task: 'tasks',
+  epic: 'epics',
+  idea: 'ideas',
+  plan: 'plan',
+  research: 'research',
+  doc: 'docs',
+  command: 'commands',
+  skill: 'skills',
+  agent: 'agents',
+  context: 'context',
+};
+
+export interface DocumentEntry {
+  /** File name without the `.md` extension */
+  id: string;
+  type: DocumentType;
+  state?: string;
+  epic?: string;
+  title: string;
+  priority?: number;
+  storyPoints?: number;
+  /** Manual rank within the state column, lowest first */
+  order?: number;
+  /** Stable epic id that tasks reference in their `epic` field */
+  slug?: string;
+  createdAt: string;
+  path: string;
+  frontmatter: Record<string, unknown>;
+}
+
+export interface DocumentLocator {
+  path?: string;
+  type?: DocumentType;
+  title?: string;
+  state?: string;
+  priority?: number;
+  storyPoints?: number;
+  fileName?: string;
+  epic?: string;
+}
+
+export interface ListFilters {
+  type?: DocumentType;
+  state?: string;
+  epic?: string;
+  assignee?: string;
+  query?: string;
+}
+
+export interface SectionUpdate {
+  heading: string;
+  content: string;
+  mode?: 'replace' | 'append';
+}
+
+export interface DocumentChanges {
+  frontmatter?: Record<string, unknown>;
+  body?: string;
+  sections?: SectionUpdate[];
+  append?: string;
+}
+
+/** Structured fields edited from the UI; `null` clears a field */
+export interface DocumentFields {
+  /** Short summary shown on cards */
+  description?: string | null;
+  assignee?: string | null;
+  epic?: string | null;
+  priority?: number | null;
+  storyPoints?: number | null;
+  /** `YYYY-MM-DD` */
+  dueDate?: string | null;
+  labels?: string[] | null;
+  /** Titles (or file names) of the tasks this task depends on */
+  dependsOn?: string[] | null;
+}
+
+export interface CreateDocumentInput {
+  type: DocumentType;
+  title: string;
+  content?: string;
+  state?: string;
+  priority?: number;
+  storyPoints?: number;
+  fileName?: string;
+  epic?: string;
+  /** Extra frontmatter fields (e.g. assignee) */
+  frontmatter?: Record<string, unknown>;
+  /** Pick a free file name instead of failing when the name is taken */
+  unique?: boolean;
+}
+
+export interface MoveDocumentInput {
+  type: StatefulType;
+  fileName: string;
+  fromState: string;
+  toState: string;
+  epic?: string;
+  /** Start a task even though its dependencies are unfinished */
+  force?: boolean;
+}
+
+/** Raised for paths that leave the agelum folder, via `..` or a symlink */
+export class PathEscapeError extends Error {
+  constructor(readonly requestedPath: string) {
+    super(`Path is outside the agelum folder: ${requestedPath}`);
+    this.name = 'PathEscapeError';
+  }
+}
+
+// --- Helpers ---
+
+export function isStatefulType(type: DocumentType): type is StatefulType {
+  return (STATEFUL_TYPES as DocumentType[]).includes(type);
+}
+
+export function typeToDir(type: DocumentType): string {
+  return TYPE_DIRS[type];
+}
+
+export function getAgelumPath(repoPath: string): string {
+  return path.join(repoPath, 'agelum');
+}
+
+function sanitizeFileNamePart(value: string): string {
+  return value
+    .replace(/[\/\\]/g, '-')
+    .replace(/[\0<>:"|?*\u0001-\u001F]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^\.+/, '')
+    .trim();
+}
+
+function ensureMdExtension(fileName: string): string {
+  const trimmed = fileName.trim();
+  if (trimmed.toLowerCase().endsWith('.md')) return trimmed;
+  return `${trimmed}.md`;
+}
+
+function formatPriority(value: number): string {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error('priority must be a non-negative number');
+  }
+  return String(Math.trunc(value)).padStart(2, '0');
+}
+
+/**
+ * Builds the `[NN ]Title[ (points)].md` file name shared by every document.
+ * The priority prefix only applies to tasks.
+ */
+export function buildFileName(args: {
+  type: DocumentType;
+  title: string;
+  priority?: number;
+  storyPoints?: number;
+}): string {
+  const title = sanitizeFileNamePart(args.title);
+  if (!title) throw new Error('title is required');
+
+  const prefix =
+    args.type === 'task' && args.priority !== undefined
+      ? `${formatPriority(args.priority)} `
+      : '';
+  const suffix =
+    args.storyPoints !== undefined ? ` (${args.storyPoints})` : '';
+
+  return `${prefix}${title}${suffix}.md`;
+}
+
+/**
+ * Extracts title, priority and story points from a file name built by
+ * `buildFileName` (e.g. `01 Design hero (3).md`). Falls back to the bare
+ * file name for documents that don't follow the convention.
+ */
+export function parseFileName(
+  type: DocumentType,
+  fileName: string
+): { title: string; priority?: number; storyPoints?: number } {
+  let base = fileName.replace(/\.md$/i, '');
+  let priority: number | undefined;
+  let storyPoints: number | undefined;
+
+  const pointsMatch = base.match(/^(.*\S)\s+\((\d+(?:\.\d+)?)\)$/);
+  if (pointsMatch) {
+    base = pointsMatch[1];
+    storyPoints = Number(pointsMatch[2]);
+  }
+
+  if (type === 'task') {
+    const priorityMatch = base.match(/^(\d+)\s+(.+)$/);
+    if (priorityMatch) {
+      priority = Number(priorityMatch[1]);
+      base = priorityMatch[2];
+    }
+  }
+
+  return { title: base.trim(), priority, storyPoints };
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return undefined;
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return value.toISOString();
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) return date.toISOString();
+  }
+  return undefined;
+}
+
+/** Lowercase, dash-separated ASCII id (`Landing page v2` -> `landing-page-v2`) */
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Tasks reference an epic by slug; older tasks use the epic title, usually
+ * as their subfolder name.
+ */
+export function belongsToEpic(task: DocumentEntry, epic: DocumentEntry): boolean {
+  const ref = task.epic?.toLowerCase();
+  if (!ref) return false;
+  return [epic.slug, epic.title, sanitizeFileNamePart(epic.title)].some(
+    (key) => key?.toLowerCase() === ref
+  );
+}
+
+/**
+ * Sorts ranked documents first, by rank; unranked ones keep their relative
+ * order after them.
+ */
+export function compareByOrder(
+  a: Pick<DocumentEntry, 'order'>,
+  b: Pick<DocumentEntry, 'order'>
+): number {
+  if (a.order === undefined || b.order === undefined) {
+    return (a.order === undefined ? 1 : 0) - (b.order === undefined ? 1 : 0);
+  }
+  return a.order - b.order;
+}
+
+function walkMarkdownFiles(storage: StorageBackend, dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of storage.list(dir)) {
+    if (entry.name.startsWith('.')) continue;
+    const fullPath = path.join(dir, entry.name);
+    if (entry.kind === 'directory') {
+      files.push(...walkMarkdownFiles(storage, fullPath));
+    } else if (entry.name.toLowerCase().endsWith('.md')) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+function matchesAssignee(value: unknown, assignee: string): boolean {
+  const wanted = assignee.trim().toLowerCase();
+  const values = Array.isArray(value) ? value : [value];
+  return values.some(
+    (v) => typeof v === 'string' && v.trim().toLowerCase() === wanted
+  );
+}
+
+function isInside(parent: string, child: string): boolean {
+  const relative = path.relative(parent, child);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+/**
+ * Replaces or appends to the markdown section introduced by `heading`.
+ * The section runs until the next heading of the same or a higher level.
+ * Missing sections are added at the end of the body as `##` headings.
+ */
+function upsertSection(body: string, update: SectionUpdate): string {
+  const lines = body.split('\n');
+  const wanted = update.heading.replace(/^#+\s*/, '').trim().toLowerCase();
+  const content = update.content.trim();
+
+  const headingAt = (index: number) => {
+    const match = lines[index].match(HEADING_PATTERN);
+    return match ? { level: match[1].length, text: match[2] } : null;
+  };
+
+  // Headings inside fenced code blocks don't start sections
+  const inFence: boolean[] = [];
+  let fenced = false;
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) fenced = !fenced;
+    inFence[index] = fenced;
+  });
+
+  let start = -1;
+  let level = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const heading = inFence[i] ? null : headingAt(i);
+    if (heading && heading.text.trim().toLowerCase() === wanted) {
+      start = i;
+      level = heading.level;
+      break;
+    }
+  }
+
+  if (start === -1) {
+    const title = update.heading.replace(/^#+\s*/, '').trim();
+    return `${body.trimEnd()}\n\n## ${title}\n\n${content}\n`;
+  }
+
+  let end = lines.length;
+  for (let i = start + 1; i < lines.length; i++) {
+    const heading = inFence[i] ? null : headingAt(i);
+    if (heading && heading.level <= level) {
+      end = i;
+      break;
+    }
+  }
+
+  const existing = lines.slice(start + 1, end).join('\n').trim();
+  const next =
+    update.mode === 'append' && existing
+      ? `${existing}\n\n${content}`
+      : content;
+  const rest = lines.slice(end);
+
+  return [
+    ...lines.slice(0, start + 1),
+    '',
+    next,
+    '',
+    ...rest,
+  ]
+    .join('\n')
+    .replace(/\n{3,}$/, '\n');
+}
+
+/** The body without a leading `#` heading */
+function stripTitleHeading(body: string): string {
+  return body.replace(/^\s*#\s+.*(\r?\n|$)/, '').trim();
+}
+
+/** `- [ ] item` lines of a markdown body */
+function parseChecklist(body: string): { text: string; checked: boolean }[] {
+  const items: { text: string; checked: boolean }[] = [];
+  for (const match of Array.from(body.matchAll(/^\s*[-*]\s+\[([ xX])\]\s+(.+)$/gm))) {
+    items.push({ text: match[2].trim(), checked: match[1] !== ' ' });
+  }
+  return items;
+}
+
+/**
+ * Points the first `#` heading of a body at `title`, adding one when the
+ * document has none.
+ */
+function setTitleHeading(body: string, title: string): string {
+  const match = body.match(/^#\s+.*$/m);
+  if (!match) return `\n# ${title}\n\n${body.trimStart()}`;
+  return body.replace(match[0], `# ${title}`);
+}
+
+// --- Document Store ---
+
+/**
+ * Owns the `agelum` folder of one repository: directory layout, file naming,
+ * frontmatter and state transitions. The REST routes and the MCP server both
+ * go through it so documents look the same no matter who wrote them. The
+ * folder lives on disk or, in server mode, in the database.
+ */
+export class DocumentStore {
+  readonly agelumPath: string;
+
+  private cachedWorkflow?: Workflow;
+
+  constructor(readonly storage: StorageBackend) {
+    this.agelumPath = storage.root;
+  }
+
+  /** States per type from `agelum/config/workflow.json` */
+  get workflow(): Workflow {
+    this.cachedWorkflow ??= loadWorkflow(this.storage);
+    return this.cachedWorkflow;
+  }
+
+  states(type: StatefulType): string[] {
+    return getStateIds(this.workflow, type);
+  }
+
+  isValidState(type: DocumentType, state: string): boolean {
+    return isStatefulType(type) && this.states(type).includes(state);
+  }
+
+  private assertState(type: DocumentType, state: string) {
+    if (!this.isValidState(type, state)) {
+      throw new Error(
+        `Invalid ${type} state: ${state}` +
+          (isStatefulType(type)
+            ? ` (expected one of ${this.states(type).join(', ')})`
+            : '')
+      );
+    }
+  }
+
+  /** Store for the `agelum` folder of a repository checkout */
+  static forRepoPath(repoPath: string): DocumentStore {
+    return new DocumentStore(new FileSystemStorage(getAgelumPath(repoPath)));
+  }
+
+  typePath(type: DocumentType): string {
+    return path.join(this.agelumPath, typeToDir(type));
+  }
+
+  ensureStructure(): this {
+    this.storage.mkdir(this.agelumPath);
+    for (const type of DOCUMENT_TYPES) {
+      const dirs = isStatefulType(type)
+        ? this.states(type).map((state) => path.join(this.typePath(type), state))
+        : [this.typePath(type)];
+      dirs.forEach((dir) => this.storage.mkdir(dir));
+    }
+    return this;
+  }
+
+  listFiles(type: DocumentType): string[] {
+    return walkMarkdownFiles(this.storage, this.typePath(type));
+  }
+
+  countInState(type: StatefulType, state: string): number {
+    return walkMarkdownFiles(this.storage, path.join(this.typePath(type), state))
+      .length;
+  }
+
+  inferType(filePath: string): DocumentType {
+    const topDir = path
+      .relative(this.agelumPath, path.resolve(this.agelumPath, filePath))
+      .split(path.sep)[0];
+    const type = DOCUMENT_TYPES.find((t) => typeToDir(t) === topDir);
+    if (!type) throw new Error(`Not an agelum document: ${filePath}`);
+    return type;
+  }
+
+  /**
+   * Resolves a path relative to the agelum folder; absolute paths must already
+   * point inside it. Traversal with `..` and symlinks leading out of the
+   * folder raise `PathEscapeError`. Everything that touches disk on behalf of
+   * a request goes through here.
+   */
+  resolvePath(
+    filePath: string,
+    options: { mustExist?: boolean; allowRoot?: boolean } = {}
+  ): string {
+    const resolved = path.resolve(this.agelumPath, filePath);
+    const allowed = (root: string, target: string) =>
+      (options.allowRoot && target === root) || isInside(root, target);
+
+    if (filePath.includes('\0') || !allowed(this.agelumPath, resolved)) {
+      throw new PathEscapeError(filePath);
+    }
+
+    let real: string;
+    try {
+      real = this.storage.realPath(resolved);
+    } catch {
+      throw new PathEscapeError(filePath);
+    }
+    if (!allowed(this.storage.realPath(this.agelumPath), real)) {
+      throw new PathEscapeError(filePath);
+    }
+
+    if (options.mustExist && !exists(this.storage, resolved)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    return resolved;
+  }
+
+  /** A path as the REST API exposes it: relative to the agelum folder, `/`-separated */
+  relativePath(filePath: string): string {
+    return path.relative(this.agelumPath, filePath).split(path.sep).join('/');
+  }
+
+  private existingPath(filePath: string): string {
+    return this.resolvePath(filePath, { mustExist: true });
+  }
+
+  read(
+    filePath: string,
+    type: DocumentType = this.inferType(filePath)
+  ): DocumentEntry & { body: string } {
+    const parsed = matter(this.storage.readFile(filePath));
+    // gray-matter caches parsed data per input, so never mutate it in place
+    const frontmatter = { ...parsed.data } as Record<string, unknown>;
+    const fromName = parseFileName(type, path.basename(filePath));
+
+    // Path segments between the type directory and the file itself
+    const segments = path
+      .relative(this.typePath(type), path.dirname(filePath))
+      .split(path.sep)
+      .filter(Boolean);
+
+    const state = isStatefulType(type) ? segments[0] : undefined;
+    const epicFolder = type === 'task' ? segments[1] : undefined;
+    const epic =
+      epicFolder ??
+      (type === 'task' && typeof frontmatter.epic === 'string'
+        ? frontmatter.epic
+        : undefined);
+
+    const id = path.basename(filePath).replace(/\.md$/i, '');
+    const title =
+      typeof frontmatter.title === 'string' && frontmatter.title.trim()
+        ? frontmatter.title.trim()
+        : fromName.title;
+    // Epics created before slugs existed derive theirs from the title
+    const slug =
+      type === 'epic'
+        ? (typeof frontmatter.slug === 'string' && frontmatter.slug.trim()) ||
+          slugify(title) ||
+          id
+        : undefined;
+
+    return {
+      id,
+      type,
+      ...(state && { state }),
+      ...(epic && { epic }),
+      title,
+      ...(slug && { slug }),
+      priority: toNumber(frontmatter.priority) ?? fromName.priority,
+      storyPoints: toNumber(frontmatter.storyPoints) ?? fromName.storyPoints,
+      ...(toNumber(frontmatter.order) !== undefined && {
+        order: toNumber(frontmatter.order),
+      }),
+      createdAt:
+        toIsoDate(frontmatter.created) ??
+        (this.storage.stat(filePath)?.mtime ?? new Date()).toISOString(),
+      path: filePath,
+      frontmatter,
+      body: parsed.content,
+    };
+  }
+
+  list(filters: ListFilters = {}): DocumentEntry[] {
+    const types = filters.type ? [filters.type] : DOCUMENT_TYPES;
+    const query = filters.query?.trim().toLowerCase();
+    const epic = filters.epic?.trim().toLowerCase();
+    const entries: DocumentEntry[] = [];
+
+    for (const type of types) {
+      for (const filePath of this.listFiles(type)) {
+        const { body, ...entry } = this.read(filePath, type);
+
+        if (filters.state && entry.state !== filters.state) continue;
+        if (epic && entry.epic?.toLowerCase() !== epic) continue;
+        if (
+          filters.assignee &&
+          !matchesAssignee(entry.frontmatter.assignee, filters.assignee)
+        )
+          continue;
+        if (
+          query &&
+          !entry.title.toLowerCase().includes(query) &&
+          !body.toLowerCase().includes(query)
+        )
+          continue;
+
+        entries.push(entry);
+      }
+    }
+
+    return entries.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Resolves a document either from an explicit `path` (absolute or relative
+   * to the agelum folder) or from the same attributes `create` uses to build
+   * the file name.
+   */
+  resolve(locator: DocumentLocator): string {
+    if (locator.path) {
+      return this.existingPath(locator.path);
+    }
+
+    const { type, title = '', state, priority, storyPoints, fileName, epic } =
+      locator;
+    if (!type) throw new Error('type is required if path is not provided');
+
+    let resolvedFileName = fileName;
+    if (!resolvedFileName) {
+      if (!title) throw new Error('title is required if fileName is not provided');
+      resolvedFileName = buildFileName({ type, title, priority, storyPoints });
+    }
+    // A file name never picks a folder: separators and leading dots are dropped
+    resolvedFileName = ensureMdExtension(sanitizeFileNamePart(resolvedFileName));
+
+    if (!isStatefulType(type)) {
+      return this.existingPath(path.join(this.typePath(type), resolvedFileName));
+    }
+
+    // Without a state we look through every state folder
+    const states = state ? [state] : this.states(type);
+    const candidates = states.map((s) => {
+      let dir = path.join(this.typePath(type), s);
+      if (type === 'task' && epic) dir = path.join(dir, sanitizeFileNamePart(epic));
+      return path.join(dir, resolvedFileName!);
+    });
+
+    const found = candidates.find((p) => exists(this.storage, p));
+    if (!found) {
+      throw new Error(
+        state
+          ? `File not found: ${candidates[0]}`
+          : `File not found: ${resolvedFileName} (searched in ${epic ? 'epic ' + epic : 'all states'})`
+      );
+    }
+    return this.existingPath(found);
+  }
+
+  /** Finds an epic by slug, file name or title */
+  findEpic(ref: string): DocumentEntry | undefined {
+    const key = ref.trim().toLowerCase();
+    if (!key) return undefined;
+    return this.list({ type: 'epic' }).find(
+      (epic) =>
+        epic.slug === key ||
+        epic.id.toLowerCase() === key ||
+        epic.title.toLowerCase() === key
+    );
+  }
+
+  create(input: CreateDocumentInput): DocumentEntry {
+    const { type, title, content = '', priority, storyPoints, epic } = input;
+    const cleanTitle = title.trim();
+    if (!cleanTitle) throw new Error('title is required');
+
+    let state: string | undefined;
+    if (isStatefulType(type)) {
+      state = input.state ?? this.workflow[type].initial;
+      this.assertState(type, state);
+    }
+
+    let targetDir = state
+      ? path.join(this.typePath(type), state)
+      : this.typePath(type);
+    if (type === 'task' && epic) {
+      targetDir = path.join(targetDir, sanitizeFileNamePart(epic));
+    }
+
+    const fileNameFor = (attempt: number) =>
+      input.fileName
+        ? ensureMdExtension(sanitizeFileNamePart(input.fileName))
+        : buildFileName({
+            type,
+            title: attempt > 1 ? `${cleanTitle} ${attempt}` : cleanTitle,
+            priority,
+            storyPoints,
+          });
+
+    let filePath = path.join(targetDir, fileNameFor(1));
+    if (exists(this.storage, filePath)) {
+      if (!input.unique || input.fileName) {
+        throw new Error(`File already exists: ${filePath}`);
+      }
+      let attempt = 2;
+      while (exists(this.storage, filePath)) {
+        filePath = path.join(targetDir, fileNameFor(attempt++));
+      }
+    }
+
+    let slug: string | undefined;
+    if (type === 'epic') {
+      const taken = new Set(this.list({ type: 'epic' }).map((e) => e.slug));
+      const base = slugify(cleanTitle) || 'epic';
+      slug = base;
+      for (let attempt = 2; taken.has(slug); attempt++) {
+        slug = `${base}-${attempt}`;
+      }
+    }
+
+    const frontmatter: Record<string, unknown> = {
+      title: cleanTitle,
+      created: new Date().toISOString(),
+      type,
+      ...(slug && { slug }),
+      ...(state && { state }),
+      ...(type === 'task' && priority !== undefined && { priority }),
+      ...(storyPoints !== undefined && { storyPoints }),
+      ...(type === 'task' && epic && { epic }),
+      ...input.frontmatter,
+    };
+
+    this.storage.writeFile(
+      filePath,
+      matter.stringify(`\n# ${cleanTitle}\n\n${content}\n`, frontmatter)
+    );
+
+    const { body, ...entry } = this.read(filePath, type);
+    return entry;
+  }
+
+  /**
+   * Moves a document to another state folder, keeping its epic folder, and
+   * records the new state in its frontmatter. The rank is dropped so the
+   * document lands at the end of its new column until it is reordered.
+   */
+  move(input: MoveDocumentInput): { from: string; to: string } {
+    const { type, fromState, toState, epic } = input;
+    this.assertState(type, fromState);
+    this.assertState(type, toState);
+    if (fromState === toState) {
+      throw new Error('fromState and toState must be different');
+    }
+    if (!canTransition(this.workflow, type, fromState, toState)) {
+      throw new WorkflowViolationError(
+        `Moving a ${type} from ${fromState} to ${toState} is not allowed`
+      );
+    }
+
+    const wipLimit = getWorkflowState(this.workflow, type, toState)?.wipLimit;
+    if (
+      wipLimit !== undefined &&
+      this.countInState(type, toState) >= wipLimit
+    ) {
+      throw new WorkflowViolationError(
+        `${toState} is at its WIP limit of ${wipLimit}`
+      );
+    }
+
+    const fileName = ensureMdExtension(sanitizeFileNamePart(input.fileName));
+    const fromDir = path.join(this.typePath(type), fromState);
+
+    let sourcePath: string | undefined;
+    if (type === 'task' && epic) {
+      sourcePath = path.join(fromDir, sanitizeFileNamePart(epic), fileName);
+    } else if (type === 'task') {
+      // Tasks may sit at the state root or inside an epic folder
+      sourcePath =
+        walkMarkdownFiles(this.storage, fromDir).find(
+          (filePath) => path.basename(filePath) === fileName
+        ) ?? path.join(fromDir, fileName);
+    } else {
+      sourcePath = path.join(fromDir, fileName);
+    }
+
+    if (!exists(this.storage, this.resolvePath(sourcePath))) {
+      throw new Error(`Source file not found: ${sourcePath}`);
+    }
+
+    // Only starting work is blocked: leaving the initial state (or an earlier
+    // one) for a later state. Finishing a started task is never blocked.
+    const states = this.states(type);
+    const initial = states.indexOf(this.workflow.task.initial);
+    if (
+      type === 'task' &&
+      !input.force &&
+      states.indexOf(fromState) <= initial &&
+      states.indexOf(toState) > initial
+    ) {
+      const id = path.basename(sourcePath).replace(/\.md$/i, '');
+      const blockedBy = this.dependencyGraph().get(id)?.blockedBy ?? [];
+      if (blockedBy.length > 0) throw new BlockedTaskError(id, blockedBy);
+    }
+
+    const targetPath = this.resolvePath(
+      path.join(this.typePath(type), toState, path.relative(fromDir, sourcePath))
+    );
+    if (exists(this.storage, targetPath)) {
+      throw new Error(`Target file already exists: ${targetPath}`);
+    }
+
+    this.storage.rename(sourcePath, targetPath);
+    this.update(targetPath, { frontmatter: { state: toState, order: null } });
+
+    return { from: sourcePath, to: targetPath };
+  }
+
+  /** Dependencies of every task, keyed by task id */
+  dependencyGraph(): Map<string, TaskDependencies> {
+    return buildDependencyGraph(
+      this.list({ type: 'task' }),
+      getFinalState(this.workflow, 'task')
+    );
+  }
+
+  /**
+   * Persists the order of a state column: each listed document gets its
+   * index as `order` in the frontmatter. Ids are file names without `.md`.
+   */
+  reorder(type: StatefulType, state: string, ids: string[]): void {
+    this.assertState(type, state);
+    const files = walkMarkdownFiles(
+      this.storage,
+      path.join(this.typePath(type), state)
+    );
+    const byId = new Map(
+      files.map((filePath) => [
+        path.basename(filePath).replace(/\.md$/i, ''),
+        filePath,
+      ])
+    );
+
+    const filePaths = ids.map((id) => {
+      const filePath = byId.get(id);
+      if (!filePath) throw new Error(`${type} not found in ${state}: ${id}`);
+      return filePath;
+    });
+
+    filePaths.forEach((filePath, index) => {
+      if (this.read(filePath, type).order !== index) {
+        this.update(filePath, { frontmatter: { order: index } });
+      }
+    });
+  }
+
+  /**
+   * Moves a promoted document on to `state` when its workflow has that state
+   * and it isn't there yet. Returns the document's new path.
+   */
+  private advance(entry: DocumentEntry, state: string): string {
+    const type = entry.type as StatefulType;
+    if (!entry.state || entry.state === state || !this.isValidState(type, state)) {
+      return entry.path;
+    }
+    return this.move({
+      type,
+      fileName: path.basename(entry.path),
+      fromState: entry.state,
+      toState: state,
+    }).to;
+  }
+
+  /**
+   * Creates an epic from an idea, carrying over its description. The two
+   * reference each other (`idea` / `epic` in the frontmatter) and the idea
+   * moves to `planned`.
+   */
+  promoteIdea(filePath: string): { idea: DocumentEntry; epic: DocumentEntry } {
+    const resolved = this.existingPath(filePath);
+    if (this.inferType(resolved) !== 'idea') {
+      throw new Error(`Not an idea: ${filePath}`);
+    }
+
+    const { body, ...idea } = this.read(resolved, 'idea');
+    if (typeof idea.frontmatter.epic === 'string') {
+      throw new Error(`Idea was already promoted to epic ${idea.frontmatter.epic}`);
+    }
+
+    // Moving first surfaces workflow violations before anything is created
+    const ideaPath = this.advance(idea, 'planned');
+    const epic = this.create({
+      type: 'epic',
+      title: idea.title,
+      content: stripTitleHeading(body),
+      frontmatter: { idea: idea.id },
+      unique: true,
+    });
+    this.update(ideaPath, { frontmatter: { epic: epic.slug } });
+
+    const { body: _, ...updated } = this.read(ideaPath, 'idea');
+    return { idea: updated, epic };
+  }
+
+  /**
+   * Creates a task for every unchecked checklist item of an epic that has
+   * no task yet, and moves the epic to `doing`.
+   */
+  promoteEpic(filePath: string): { epic: DocumentEntry; tasks: DocumentEntry[] } {
+    const resolved = this.existingPath(filePath);
+    if (this.inferType(resolved) !== 'epic') {
+      throw new Error(`Not an epic: ${filePath}`);
+    }
+
+    const { body, ...epic } = this.read(resolved, 'epic');
+    const existing = new Set(
+      this.list({ type: 'task' })
+        .filter((task) => belongsToEpic(task, epic))
+        .map((task) => task.title.toLowerCase())
+    );
+    const titles = parseChecklist(body)
+      .filter((item) => !item.checked && !existing.has(item.text.toLowerCase()))
+      .map((item) => item.text);
+    if (titles.length === 0) {
+      throw new Error('The epic has no unchecked checklist items without a task');
+    }
+
+    const epicPath = this.advance(epic, 'doing');
+    const tasks = titles.map((title) =>
+      this.create({ type: 'task', title, epic: epic.slug, unique: true })
+    );
+
+    const { body: _, ...updated } = this.read(epicPath, 'epic');
+    return { epic: updated, tasks };
+  }
+
+  /**
+   * Changes a document's title: renames the file (keeping its priority and
+   * story points), updates the frontmatter and the `#` heading.
+   */
+  rename(
+    filePath: string,
+    newTitle: string
+  ): { path: string; content: string; id: string; title: string } {
+    const resolved = this.existingPath(filePath);
+
+    const title = newTitle.trim();
+    if (!title) throw new Error('title is required');
+
+    const type = this.inferType(resolved);
+    const { priority, storyPoints } = parseFileName(type, path.basename(resolved));
+    const dir = path.dirname(resolved);
+
+    let targetPath = path.join(
+      dir,
+      buildFileName({ type, title, priority, storyPoints })
+    );
+    for (
+      let attempt = 2;
+      targetPath !== resolved && exists(this.storage, targetPath);
+      attempt++
+    ) {
+      targetPath = path.join(
+        dir,
+        buildFileName({ type, title: `${title} ${attempt}`, priority, storyPoints })
+      );
+    }
+
+    const parsed = matter(this.storage.readFile(resolved));
+    const body = setTitleHeading(parsed.content, title);
+    // Pin a derived epic slug so renaming doesn't unlink the epic's tasks
+    const { slug } = this.read(resolved, type);
+    const { frontmatter } = this.update(resolved, {
+      frontmatter: { title, ...(slug && { slug }) },
+      body,
+    });
+    const content = matter.stringify(body, frontmatter);
+
+    if (targetPath !== resolved) this.storage.rename(resolved, targetPath);
+
+    return {
+      path: targetPath,
+      content,
+      id: path.basename(targetPath).replace(/\.md$/i, ''),
+      title,
+    };
+  }
+
+  /**
+   * Sets structured fields on a document. Priority and story points are part
+   * of the file name and a task's epic picks its subfolder, so changing them
+   * renames or moves the file.
+   */
+  setFields(filePath: string, fields: DocumentFields): DocumentEntry {
+    const resolved = this.existingPath(filePath);
+    if (fields.dueDate && isNaN(Date.parse(fields.dueDate))) {
+      throw new Error(`Invalid due date: ${fields.dueDate}`);
+    }
+
+    const type = this.inferType(resolved);
+    const current = this.read(resolved, type);
+    const keep = <T>(value: T | null | undefined, fallback: T | undefined) =>
+      value === undefined ? fallback : value ?? undefined;
+
+    const priority = keep(fields.priority, current.priority);
+    const storyPoints = keep(fields.storyPoints, current.storyPoints);
+    const epic = keep(fields.epic, current.epic)?.trim() || undefined;
+
+    const frontmatter: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(fields)) {
+      if (value === undefined) continue;
+      const empty =
+        value === null ||
+        value === '' ||
+        (Array.isArray(value) && value.length === 0);
+      frontmatter[key] = empty ? null : value;
+    }
+
+    let targetDir = path.dirname(resolved);
+    if (type === 'task' && fields.epic !== undefined) {
+      targetDir = path.join(this.typePath(type), current.state ?? '');
+      if (epic) targetDir = path.join(targetDir, sanitizeFileNamePart(epic));
+    }
+    const { title } = parseFileName(type, path.basename(resolved));
+    const targetPath = path.join(
+      targetDir,
+      buildFileName({ type, title, priority, storyPoints })
+    );
+    if (targetPath !== resolved && exists(this.storage, targetPath)) {
+      throw new Error(`Target file already exists: ${targetPath}`);
+    }
+
+    this.update(resolved, { frontmatter });
+    if (targetPath !== resolved) this.storage.rename(resolved, targetPath);
+
+    const { body, ...entry } = this.read(targetPath, type);
+    return entry;
+  }
+
+  /**
+   * Resolves `dependsOn` references to task titles, rejecting unknown tasks,
+   * self references and cycles. An empty list clears the field.
+   */
+  private checkDependsOn(filePath: string, value: unknown): string[] | null {
+    const refs = toDependsOnRefs(value);
+    if (refs.length === 0) return null;
+    if (this.inferType(filePath) !== 'task') {
+      throw new Error('Only tasks can have dependencies');
+    }
+    const { body, ...task } = this.read(filePath, 'task');
+    return validateDependsOn(task, refs, this.list({ type: 'task' }));
+  }
+
+  /**
+   * Patches frontmatter keys (null removes a key) and replaces the body or
+   * individual sections of a document in place. `dependsOn` must name
+   * existing tasks without forming a cycle.
+   */
+  update(
+    filePath: string,
+    changes: DocumentChanges
+  ): { frontmatter: Record<string, unknown>; body: string } {
+    const parsed = matter(this.storage.readFile(filePath));
+    const frontmatter = { ...parsed.data } as Record<string, unknown>;
+
+    const changed = { ...changes.frontmatter };
+    if (changed.dependsOn !== undefined && changed.dependsOn !== null) {
+      changed.dependsOn = this.checkDependsOn(filePath, changed.dependsOn);
+    }
+
+    for (const [key, value] of Object.entries(changed)) {
+      if (value === null) {
+        delete frontmatter[key];
+      } else if (value !== undefined) {
+        frontmatter[key] = value;
+      }
+    }
+
+    let body = changes.body !== undefined ? changes.body : parsed.content;
+    for (const section of changes.sections ?? []) {
+      body = upsertSection(body, section);
+    }
+    if (changes.append) {
+      body = `${body.trimEnd()}\n\n${changes.append.trim()}\n`;
+    }
+
+    this.storage.writeFile(filePath, matter.stringify(body, frontmatter));
+    return { frontmatter, body };
+  }
+}
+
+/**
+ * Store for a repository by name: one known to the global config or, in
+ * server mode, one imported into the database.
+ */
+export function openRepoDocumentStore(repo: string): DocumentStore {
+  return isServerMode()
+    ? new DocumentStore(SqliteStorage.open(repo))
+    : DocumentStore.forRepoPath(resolveRepositoryPath(repo));
+}
+
+/** `openRepoDocumentStore` with the agelum folder structure in place */
+export function getRepoDocumentStore(repo: string): DocumentStore {
+  return openRepoDocumentStore(repo).ensureStructure();
+}
@@ -0,0 +1,150 @@
+// --- Types ---
+
+export interface GraphNode {
+  /** `epic:<slug>` or `task:<id>` */
+  id: string;
+  type: 'epic' | 'task';
+  title: string;
+  state: string;
+  storyPoints?: number;
+  path: string;
+  /** `dependsOn` entries of a task that match no task */
+  missingDependencies?: string[];
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: 'epic' | 'dependency';
+}
+
+export interface PositionedNode extends GraphNode {
+  layer: number;
+  x: number;
+  y: number;
+}
+
+export interface LayoutOptions {
+  nodeWidth: number;
+  nodeHeight: number;
+  layerGap: number;
+  rowGap: number;
+}
+
+// --- Layout ---
+
+/**
+ * Layered left-to-right layout: every node sits one layer after its furthest
+ * predecessor, and each layer is ordered by the average row of its
+ * predecessors to keep edges short.
+ */
+export function layoutGraph(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  options: LayoutOptions
+): { nodes: PositionedNode[]; width: number; height: number } {
+  const ids = new Set(nodes.map((node) => node.id));
+  const validEdges = edges.filter(
+    (edge) => ids.has(edge.from) && ids.has(edge.to)
+  );
+
+  // Longest path layering; the pass limit keeps hand-made cycles finite
+  const layers = new Map(nodes.map((node) => [node.id, 0]));
+  for (let pass = 0; pass < nodes.length; pass++) {
+    let changed = false;
+    for (const edge of validEdges) {
+      const next = layers.get(edge.from)! + 1;
+      if (next > layers.get(edge.to)!) {
+        layers.set(edge.to, next);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const byLayer: GraphNode[][] = [];
+  for (const node of nodes) {
+    const layer = layers.get(node.id)!;
+    (byLayer[layer] ??= []).push(node);
+  }
+
+  const rows = new Map<string, number>();
+  byLayer.forEach((layerNodes, layer) => {
+    const barycenter = (node: GraphNode) => {
+      const parents = validEdges
+        .filter((edge) => edge.to === node.id && rows.has(edge.from))
+        .map((edge) => rows.get(edge.from)!);
+      return parents.length > 0
+        ? parents.reduce((sum, row) => sum + row, 0) / parents.length
+        : Number.MAX_SAFE_INTEGER;
+    };
+    if (layer > 0) {
+      layerNodes.sort((a, b) => barycenter(a) - barycenter(b));
+    }
+    layerNodes.forEach((node, row) => rows.set(node.id, row));
+  });
+
+  const { nodeWidth, nodeHeight, layerGap, rowGap } = options;
+  const positioned = nodes.map((node) => ({
+    ...node,
+    layer: layers.get(node.id)!,
+    x: layers.get(node.id)! * (nodeWidth + layerGap),
+    y: rows.get(node.id)! * (nodeHeight + rowGap),
+  }));
+  const maxRows = Math.max(0, ...byLayer.map((layer) => layer?.length ?? 0));
+
+  return {
+    nodes: positioned,
+    width: Math.max(0, byLayer.length * (nodeWidth + layerGap) - layerGap),
+    height: Math.max(0, maxRows * (nodeHeight + rowGap) - rowGap),
+  };
+}
+
+// --- Critical path ---
+
+/**
+ * The chain of task dependencies with the most story points. Returns the
+ * node ids along it (prerequisites first) and its total points.
+ */
+export function findCriticalPath(
+  nodes: GraphNode[],
+  edges: GraphEdge[]
+): { path: string[]; points: number } {
+  const points = new Map(
+    nodes
+      .filter((node) => node.type === 'task')
+      .map((node) => [node.id, node.storyPoints ?? 0])
+  );
+  const dependencies = edges.filter(
+    (edge) =>
+      edge.kind === 'dependency' && points.has(edge.from) && points.has(edge.to)
+  );
+
+  // Heaviest chain ending at each node, relaxed until stable
+  const total = new Map(points);
+  const previous = new Map<string, string>();
+  for (let pass = 0; pass < points.size; pass++) {
+    let changed = false;
+    for (const edge of dependencies) {
+      const candidate = total.get(edge.from)! + points.get(edge.to)!;
+      if (candidate > total.get(edge.to)!) {
+        total.set(edge.to, candidate);
+        previous.set(edge.to, edge.from);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  let end: string | undefined;
+  total.forEach((value, id) => {
+    if (value > 0 && (end === undefined || value > total.get(end)!)) end = id;
+  });
+  if (end === undefined) return { path: [], points: 0 };
+
+  const path = [end];
+  while (previous.has(path[0]) && !path.includes(previous.get(path[0])!)) {
+    path.unshift(previous.get(path[0])!);
+  }
+  return { path, points: total.get(end)! };
+}
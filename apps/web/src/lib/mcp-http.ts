@@ -0,0 +1,137 @@
+import { randomUUID } from 'node:crypto';
+import {
+  WebStandardStreamableHTTPServerTransport,
+  type EventId,
+  type EventStore,
+  type StreamId,
+} from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { createAgelumMcpServer } from './mcp';
+
+// Sessions without any request for this long are closed
+const SESSION_IDLE_TIMEOUT_MS =
+  Number(process.env.MCP_SESSION_IDLE_TIMEOUT_MS) || 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Per-session cap on events kept around for resumed streams
+const MAX_STORED_EVENTS = 1000;
+
+/**
+ * Keeps the most recent messages of a session so a client reconnecting with
+ * `Last-Event-ID` receives what it missed.
+ */
+export class InMemoryEventStore implements EventStore {
+  private events: { id: EventId; streamId: StreamId; message: JSONRPCMessage }[] =
+    [];
+  private counter = 0;
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const id = `${streamId}::${++this.counter}`;
+    this.events.push({ id, streamId, message });
+    if (this.events.length > MAX_STORED_EVENTS) this.events.shift();
+    return id;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.find((event) => event.id === eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const index = this.events.findIndex((event) => event.id === lastEventId);
+    if (index === -1) {
+      throw new Error(`Unknown event id: ${lastEventId}`);
+    }
+
+    const { streamId } = this.events[index];
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) await send(event.id, event.message);
+    }
+    return streamId;
+  }
+}
+
+interface McpSession {
+  transport: WebStandardStreamableHTTPServerTransport;
+  server: ReturnType<typeof createAgelumMcpServer>;
+  lastActivity: number;
+}
+
+// Global storage so sessions survive dev mode HMR
+const globalForMcp = globalThis as unknown as {
+  mcpSessions?: Map<string, McpSession>;
+  mcpSessionSweeper?: NodeJS.Timeout;
+};
+if (!globalForMcp.mcpSessions) {
+  globalForMcp.mcpSessions = new Map();
+}
+const sessions = globalForMcp.mcpSessions;
+
+async function closeSession(sessionId: string) {
+  const session = sessions.get(sessionId);
+  if (!session) return;
+
+  sessions.delete(sessionId);
+  try {
+    await session.transport.close();
+    await session.server.close();
+  } catch (error) {
+    console.error(`Failed to close MCP session ${sessionId}:`, error);
+  }
+  console.error(`MCP session closed: ${sessionId}`);
+}
+
+function ensureSessionSweeper() {
+  if (globalForMcp.mcpSessionSweeper) return;
+
+  globalForMcp.mcpSessionSweeper = setInterval(() => {
+    const now = Date.now();
+    sessions.forEach((session, sessionId) => {
+      if (now - session.lastActivity > SESSION_IDLE_TIMEOUT_MS) {
+        console.error(`MCP session expired: ${sessionId}`);
+        void closeSession(sessionId);
+      }
+    });
+  }, SESSION_SWEEP_INTERVAL_MS);
+  globalForMcp.mcpSessionSweeper.unref?.();
+}
+
+/**
+ * Looks up an existing session and marks it as active.
+ */
+export function getMcpSession(sessionId: string): McpSession | null {
+  const session = sessions.get(sessionId);
+  if (!session) return null;
+  session.lastActivity = Date.now();
+  return session;
+}
+
+/**
+ * Creates a server and transport pair for a new client. The session is only
+ * registered once the transport has handled the `initialize` request.
+ */
+export async function createMcpSession(): Promise<McpSession> {
+  ensureSessionSweeper();
+
+  // The web app's CWD is not a project, so clients pick repos explicitly
+  const server = createAgelumMcpServer();
+
+  const session: McpSession = {
+    server,
+    lastActivity: Date.now(),
+    transport: new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new InMemoryEventStore(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, session);
+        console.error(`MCP session started: ${sessionId}`);
+      },
+      onsessionclosed: (sessionId) => closeSession(sessionId),
+    }),
+  };
+
+  await server.connect(session.transport);
+  return session;
+}
@@ -0,0 +1,422 @@
+import { z } from 'zod';
+import { DOCUMENT_TYPES, isStatefulType, type DocumentType } from './document-store';
+import {
+  DEFAULT_WORKFLOW,
+  STATEFUL_TYPES,
+  getAllStateIds,
+  getStateIds,
+  type StatefulType,
+  type Workflow,
+} from './workflow';
+
+// --- Shared Schemas ---
+
+export const documentTypeSchema = z.enum(DOCUMENT_TYPES);
+
+const statefulTypeSchema = z.enum(
+  STATEFUL_TYPES as [StatefulType, ...StatefulType[]]
+);
+
+export const removalAreaSchema = z.enum(['trash', 'archive']);
+
+const repoSchema = z
+  .string()
+  .min(1)
+  .describe(
+    'Repository name as returned by list_repositories (optional, defaults to the selected repository)'
+  );
+
+const prioritySchema = z
+  .number()
+  .nonnegative()
+  .describe('Task priority number (only for type=task)');
+
+const storyPointsSchema = z
+  .number()
+  .nonnegative()
+  .describe('Story points (type=task required, type=epic optional)');
+
+const epicSchema = z
+  .string()
+  .describe('Epic name if the task is grouped (only for type=task)');
+
+const fileNameSchema = z
+  .string()
+  .min(1)
+  .describe('Override file name (optional, with or without .md)');
+
+const sectionUpdateSchema = z.object({
+  heading: z.string().min(1).describe('Heading text'),
+  content: z.string().describe('Section content'),
+  mode: z
+    .enum(['replace', 'append'])
+    .default('replace')
+    .describe('Replace the section content or append to it'),
+});
+
+function requireLocator(
+  value: { path?: string; type?: string; title?: string; fileName?: string },
+  ctx: z.RefinementCtx
+) {
+  if (value.path) return;
+  if (!value.type) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['type'],
+      message: 'type is required if path is not provided',
+    });
+  }
+  if (!value.title && !value.fileName) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['title'],
+      message: 'title is required if path and fileName are not provided',
+    });
+  }
+}
+
+function describeStates(workflow: Workflow): string {
+  return STATEFUL_TYPES.map(
+    (type) => `${type}: ${getStateIds(workflow, type).join(', ')}`
+  ).join('; ');
+}
+
+// --- Tool Schemas ---
+
+/**
+ * Builds the tool schemas for a repository. State arguments only accept the
+ * states its workflow (`agelum/config/workflow.json`) defines for each type.
+ */
+export function createToolSchemas(workflow: Workflow = DEFAULT_WORKFLOW) {
+  const stateSchema = z.enum(
+    getAllStateIds(workflow) as [string, ...string[]]
+  );
+
+  const requireValidState = (
+    value: { type?: DocumentType; state?: string },
+    ctx: z.RefinementCtx,
+    field = 'state'
+  ) => {
+    if (!value.type || !value.state || !isStatefulType(value.type)) return;
+    const states = getStateIds(workflow, value.type);
+    if (!states.includes(value.state)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: [field],
+        message: `${value.state} is not a valid ${value.type} state (expected one of ${states.join(', ')})`,
+      });
+    }
+  };
+
+  // Fields shared by every tool that targets an existing document
+  const documentLocatorShape = {
+    repo: repoSchema.optional(),
+    path: z
+      .string()
+      .min(1)
+      .describe(
+        'File path as returned by list/get (absolute or relative to the agelum folder)'
+      )
+      .optional(),
+    type: documentTypeSchema.describe('Document type (if path omitted)').optional(),
+    title: z
+      .string()
+      .describe('Title used to build the file name (if path and fileName omitted)')
+      .optional(),
+    state: stateSchema
+      .describe(`State folder (optional). ${describeStates(workflow)}`)
+      .optional(),
+    priority: prioritySchema.optional(),
+    storyPoints: storyPointsSchema.optional(),
+    fileName: fileNameSchema.optional(),
+    epic: epicSchema.optional(),
+  };
+
+  const documentLocatorSchema = z
+    .object(documentLocatorShape)
+    .superRefine((value, ctx) => {
+      requireLocator(value, ctx);
+      requireValidState(value, ctx);
+    });
+
+  const createToolSchema = z
+    .object({
+      repo: repoSchema.optional(),
+      type: documentTypeSchema.describe('Document type'),
+      title: z.string().trim().min(1).describe('Title used for naming and frontmatter'),
+      content: z.string().default('').describe('Markdown content body'),
+      state: stateSchema
+        .describe(
+          `Initial state for task, epic or idea (optional, defaults to the workflow's initial state). ${describeStates(workflow)}`
+        )
+        .optional(),
+      priority: prioritySchema.optional(),
+      storyPoints: storyPointsSchema.optional(),
+      fileName: fileNameSchema.optional(),
+      epic: z
+        .string()
+        .describe('Epic name to group this task under (only for type=task)')
+        .optional(),
+    })
+    .superRefine((value, ctx) => {
+      requireValidState(value, ctx);
+      if (value.type !== 'task' || value.fileName) return;
+      for (const field of ['priority', 'storyPoints'] as const) {
+        if (value[field] === undefined) {
+          ctx.addIssue({
+            code: 'custom',
+            path: [field],
+            message: `${field} is required for task`,
+          });
+        }
+      }
+    });
+
+  const moveToolSchema = z
+    .object({
+      repo: repoSchema.optional(),
+      type: statefulTypeSchema.describe('Document type (task, epic or idea)'),
+      title: z.string().describe('Document title').optional(),
+      priority: z.number().nonnegative().describe('Task priority number').optional(),
+      storyPoints: z.number().nonnegative().describe('Story points').optional(),
+      fileName: fileNameSchema.optional(),
+      fromState: stateSchema.describe('Current state'),
+      toState: stateSchema.describe(`Target state. ${describeStates(workflow)}`),
+      epic: z.string().describe('Epic name if the task is grouped').optional(),
+      force: z
+        .boolean()
+        .describe('Start a task even though its dependsOn tasks are unfinished')
+        .optional(),
+    })
+    .superRefine((value, ctx) => {
+      requireValidState({ type: value.type, state: value.fromState }, ctx, 'fromState');
+      requireValidState({ type: value.type, state: value.toState }, ctx, 'toState');
+      if (value.fromState === value.toState) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['toState'],
+          message: 'fromState and toState must be different',
+        });
+      }
+      if (!value.title && !value.fileName) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['title'],
+          message: 'title is required if fileName is not provided',
+        });
+      }
+    });
+
+  const getToolSchema = z
+    .object({
+      ...documentLocatorShape,
+      type: documentTypeSchema.describe('Document type'),
+    })
+    .superRefine((value, ctx) => {
+      requireLocator(value, ctx);
+      requireValidState(value, ctx);
+    });
+
+  const listToolSchema = z.object({
+    repo: repoSchema.optional(),
+    type: documentTypeSchema
+      .describe('Only list documents of this type (optional)')
+      .optional(),
+    state: z
+      .string()
+      .describe('Only list tasks/epics/ideas in this state (optional)')
+      .optional(),
+    epic: z
+      .string()
+      .describe('Only list tasks grouped under this epic (optional)')
+      .optional(),
+    assignee: z
+      .string()
+      .describe('Only list documents assigned to this user (optional)')
+      .optional(),
+    query: z
+      .string()
+      .describe('Case-insensitive text matched against title and content (optional)')
+      .optional(),
+  });
+
+  const updateToolSchema = z
+    .object({
+      ...documentLocatorShape,
+      frontmatter: z
+        .record(z.string(), z.unknown())
+        .describe('Frontmatter fields to set. Use null to remove a field (optional)')
+        .optional(),
+      body: z.string().describe('Replace the whole markdown body (optional)').optional(),
+      sections: z
+        .array(sectionUpdateSchema)
+        .describe(
+          'Sections to replace or append to, matched by heading text. Missing sections are added at the end (optional)'
+        )
+        .optional(),
+      append: z
+        .string()
+        .describe('Markdown appended to the end of the body (optional)')
+        .optional(),
+    })
+    .superRefine((value, ctx) => {
+      requireLocator(value, ctx);
+      requireValidState(value, ctx);
+    });
+
+  const restoreToolSchema = z.object({
+    repo: repoSchema.optional(),
+    id: z.string().min(1).describe('Entry id returned by delete/archive or list_trash'),
+    area: removalAreaSchema
+      .describe('Where to look for the entry (optional, both by default)')
+      .optional(),
+  });
+
+  const listTrashToolSchema = z.object({
+    repo: repoSchema.optional(),
+    area: removalAreaSchema
+      .describe('Only list one area (optional, both by default)')
+      .optional(),
+  });
+
+  const listRepositoriesToolSchema = z.object({});
+
+  const selectRepositoryToolSchema = z.object({
+    repo: z.string().min(1).describe('Repository name as returned by list_repositories'),
+  });
+
+  return {
+    create: {
+      description:
+        'Create a new markdown file in the agelum structure. Returns the file path only.',
+      schema: createToolSchema,
+    },
+    move: {
+      description:
+        'Move a task, epic or idea between states. Returns from/to paths only.',
+      schema: moveToolSchema,
+    },
+    get: {
+      description:
+        'Resolve a file path in the agelum structure. Returns the file path only.',
+      schema: getToolSchema,
+    },
+    list: {
+      description:
+        'List documents in the agelum structure. Returns structured entries (type, state, epic, title, priority, storyPoints, path, frontmatter).',
+      schema: listToolSchema,
+    },
+    read: {
+      description:
+        'Read a document. Returns its path, parsed frontmatter and markdown body.',
+      schema: documentLocatorSchema,
+    },
+    update: {
+      description:
+        'Update a document in place. Patches frontmatter keys (null removes a key, other keys are kept) and replaces the body or individual sections. Returns the updated frontmatter and body.',
+      schema: updateToolSchema,
+    },
+    delete: {
+      description:
+        'Move a document to agelum/.trash. Returns the trash entry id, which can be passed to restore.',
+      schema: documentLocatorSchema,
+    },
+    archive: {
+      description:
+        'Move a document to agelum/archive. Returns the archive entry id, which can be passed to restore.',
+      schema: documentLocatorSchema,
+    },
+    restore: {
+      description:
+        'Restore a deleted or archived document to its original path. Returns from/to paths only.',
+      schema: restoreToolSchema,
+    },
+    list_trash: {
+      description:
+        'List deleted and archived documents with their original path and removal time.',
+      schema: listTrashToolSchema,
+    },
+    list_repositories: {
+      description:
+        'List repositories in the configured root directories or registered in the config, and which one is selected for this session.',
+      schema: listRepositoriesToolSchema,
+    },
+    select_repository: {
+      description:
+        'Select the default repository for this session. Tools called without a repo argument use it.',
+      schema: selectRepositoryToolSchema,
+    },
+  } satisfies Record<string, { description: string; schema: z.ZodType }>;
+}
+
+// --- Tool Registry ---
+
+export type ToolSchemas = ReturnType<typeof createToolSchemas>;
+export type ToolName = keyof ToolSchemas;
+
+const TOOL_NAMES = Object.keys(createToolSchemas()) as ToolName[];
+
+type ToolArgs<T extends ToolName> = z.infer<ToolSchemas[T]['schema']>;
+
+export type CreateToolArgs = ToolArgs<'create'>;
+export type MoveToolArgs = ToolArgs<'move'>;
+export type UpdateToolArgs = ToolArgs<'update'>;
+export type RestoreToolArgs = ToolArgs<'restore'>;
+export type ListTrashToolArgs = ToolArgs<'list_trash'>;
+export type SelectRepositoryToolArgs = ToolArgs<'select_repository'>;
+
+export interface ToolArgumentIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * Raised when tool arguments fail validation. Carries one issue per
+ * offending field so clients can fix their call.
+ */
+export class ToolArgumentsError extends Error {
+  constructor(
+    public readonly tool: string,
+    public readonly issues: ToolArgumentIssue[]
+  ) {
+    super(
+      `Invalid arguments for ${tool}: ${issues
+        .map((issue) => `${issue.field}: ${issue.message}`)
+        .join('; ')}`
+    );
+    this.name = 'ToolArgumentsError';
+  }
+}
+
+export function isToolName(name: string): name is ToolName {
+  return (TOOL_NAMES as string[]).includes(name);
+}
+
+export function parseToolArguments<T extends ToolName>(
+  name: T,
+  args: unknown,
+  workflow: Workflow = DEFAULT_WORKFLOW
+): ToolArgs<T> {
+  const result = createToolSchemas(workflow)[name].schema.safeParse(args ?? {});
+  if (!result.success) {
+    throw new ToolArgumentsError(
+      name,
+      result.error.issues.map((issue) => ({
+        field: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+        message: issue.message,
+      }))
+    );
+  }
+  return result.data as ToolArgs<T>;
+}
+
+/**
+ * JSON Schema advertised in `tools/list`, derived from the zod schema.
+ */
+export function toInputSchema(schema: z.ZodType): {
+  type: 'object';
+  [key: string]: unknown;
+} {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, { io: 'input' });
+  return { ...jsonSchema, type: 'object' };
+}
@@ -2,341 +2,442 @@ import fs from 'node:fs';
 import path from 'node:path';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  Prompt,
+  PromptArgument,
+  ReadResourceRequestSchema,
+  Resource,
+  ResourceTemplate,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { listRemoved, moveToArea, restoreRemoved } from './trash';
+import {
+  getRootGitDirectories,
+  isServerMode,
+  listRepositories,
+} from './config';
+import { listStoredRepositories } from './sqlite-storage';
+import { FileSystemStorage } from './storage';
+import {
+  DOCUMENT_TYPES,
+  DocumentStore,
+  buildFileName,
+  getAgelumPath,
+  isStatefulType,
+  openRepoDocumentStore,
+  typeToDir,
+  type DocumentLocator,
+  type DocumentType,
+  type ListFilters,
+} from './document-store';
+import { DEFAULT_WORKFLOW, type Workflow } from './workflow';
+import {
+  isToolName,
+  parseToolArguments,
+  toInputSchema,
+  createToolSchemas,
+  ToolArgumentsError,
+  type CreateToolArgs,
+  type ListTrashToolArgs,
+  type MoveToolArgs,
+  type RestoreToolArgs,
+  type SelectRepositoryToolArgs,
+  type UpdateToolArgs,
+} from './mcp-schemas';
 
-// --- Types & Constants ---
-
-type TaskState = 'pending' | 'doing' | 'done';
-type DocumentType =
-  | 'task'
-  | 'epic'
-  | 'plan'
-  | 'doc'
-  | 'command'
-  | 'skill'
-  | 'agent'
-  | 'context';
-
-const AGELUM_STRUCTURE = [
-  'docs',
-  'plans',
-  'tasks/pending',
-  'tasks/doing',
-  'tasks/done',
-  'commands',
-  'skills',
-  'agents',
-  'context',
-  'epics',
-];
+// --- Tools Definition ---
 
-const nonTaskTypeToDir: Record<Exclude<DocumentType, 'task'>, string> = {
-  epic: 'epics',
-  plan: 'plans',
-  doc: 'docs',
-  command: 'commands',
-  skill: 'skills',
-  agent: 'agents',
-  context: 'context',
-};
+function listTools(workflow: Workflow): Tool[] {
+  return Object.entries(createToolSchemas(workflow)).map(
+    ([name, { description, schema }]) => ({
+      name,
+      description,
+      inputSchema: toInputSchema(schema),
+    })
+  );
+}
 
-// --- Helpers ---
+// --- Repo Discovery Logic ---
 
-function getAgelumPath(repoPath: string): string {
-  return path.join(repoPath, 'agelum');
+export interface AgelumMcpServerOptions {
+  /** Fall back to the repository containing `process.cwd()` (stdio mode) */
+  detectRepoFromCwd?: boolean;
 }
 
-function ensureAgelumStructure(repoPath: string): string {
-  const agelumPath = getAgelumPath(repoPath);
+/**
+ * Finds the repository containing `startPath` by walking up to the nearest
+ * folder with a `.git` entry.
+ */
+export function findRepoRootPath(startPath = process.cwd()): string | null {
+  console.error(`Agelum: Searching for .git starting from ${startPath}`);
+  let currentPath = startPath;
 
-  fs.mkdirSync(agelumPath, { recursive: true });
-  AGELUM_STRUCTURE.forEach((dir) => {
-    fs.mkdirSync(path.join(agelumPath, dir), { recursive: true });
-  });
+  // We limit the walk to avoid infinite loops or going too far up in Docker
+  const MAX_DEPTH = 10;
+  let depth = 0;
 
-  return agelumPath;
-}
+  while (depth < MAX_DEPTH) {
+    const gitPath = path.join(currentPath, '.git');
+    if (fs.existsSync(gitPath)) {
+      console.error(`Agelum: Found .git at ${currentPath}`);
+      return currentPath;
+    }
 
-function sanitizeFileNamePart(value: string): string {
-  return value
-    .replace(/[\/\\]/g, '-')
-    .replace(/[\0<>:"|?*]/g, '')
-    .replace(/\s+/g, ' ')
-    .trim();
-}
+    const parentPath = path.dirname(currentPath);
+    if (parentPath === currentPath) break;
+    currentPath = parentPath;
+    depth++;
+  }
 
-function ensureMdExtension(fileName: string): string {
-  const trimmed = fileName.trim();
-  if (trimmed.toLowerCase().endsWith('.md')) return trimmed;
-  return `${trimmed}.md`;
+  console.error('Agelum: Could not find .git via CWD traversal.');
+  return null;
 }
 
-function formatStoryPoints(value: number): string {
-  return Number.isInteger(value) ? String(value) : String(value);
-}
+// --- Resources ---
 
-function formatPriority(value: number): string {
-  if (!Number.isFinite(value) || value < 0) {
-    throw new Error('priority must be a non-negative number');
-  }
-  return String(Math.trunc(value)).padStart(2, '0');
+const RESOURCE_SCHEME = 'agelum://';
+
+// Coalesces the burst of fs events a single save usually produces
+const WATCH_DEBOUNCE_MS = 100;
+
+function toResourceUri(store: DocumentStore, filePath: string): string {
+  const segments = path
+    .relative(store.agelumPath, filePath)
+    .split(path.sep)
+    .map(encodeURIComponent);
+  return `${RESOURCE_SCHEME}${segments.join('/')}`;
 }
 
-function buildFileName(args: {
-  type: DocumentType;
-  title: string;
-  priority?: number;
-  storyPoints?: number;
-}): string {
-  const title = sanitizeFileNamePart(args.title);
-  if (!title) throw new Error('title is required');
-
-  if (args.type === 'task') {
-    if (args.priority === undefined)
-      throw new Error('priority is required for task');
-    if (args.storyPoints === undefined)
-      throw new Error('storyPoints is required for task');
-    const priority = formatPriority(args.priority);
-    const storyPoints = formatStoryPoints(args.storyPoints);
-    return `${priority} ${title} (${storyPoints}).md`;
+function fromResourceUri(store: DocumentStore, uri: string): string {
+  if (!uri.startsWith(RESOURCE_SCHEME)) {
+    throw new Error(`Unsupported resource URI: ${uri}`);
   }
 
-  if (args.storyPoints !== undefined) {
-    const storyPoints = formatStoryPoints(args.storyPoints);
-    return `${title} (${storyPoints}).md`;
-  }
+  const relative = uri
+    .slice(RESOURCE_SCHEME.length)
+    .split('/')
+    .map(decodeURIComponent)
+    .join(path.sep);
+  // Same guard as the tools: `..`, absolute paths and symlinks out are rejected
+  const filePath = store.resolvePath(relative, { mustExist: true });
+  store.inferType(filePath);
+  return filePath;
+}
 
-  return `${title}.md`;
+function listDocumentResources(store: DocumentStore): Resource[] {
+  return store.list().map((entry) => ({
+    uri: toResourceUri(store, entry.path),
+    name: path.relative(store.agelumPath, entry.path).split(path.sep).join('/'),
+    title: entry.title,
+    description: [entry.type, entry.state, entry.epic]
+      .filter(Boolean)
+      .join(' / '),
+    mimeType: 'text/markdown',
+  }));
 }
 
-function buildFrontmatter(args: {
-  type: DocumentType;
-  title: string;
-  state?: TaskState;
-  priority?: number;
-  storyPoints?: number;
-  epic?: string;
-}): string {
-  const lines: string[] = [
-    '---',
-    `title: ${args.title}`,
-    `created: ${new Date().toISOString()}`,
-    `type: ${args.type}`,
-  ];
-
-  if (args.type === 'task') {
-    if (!args.state) throw new Error('state is required for task');
-    lines.push(`state: ${args.state}`);
-    if (args.priority !== undefined)
-      lines.push(`priority: ${formatPriority(args.priority)}`);
-    if (args.storyPoints !== undefined)
-      lines.push(`storyPoints: ${formatStoryPoints(args.storyPoints)}`);
-    if (args.epic) lines.push(`epic: ${args.epic}`);
-  } else {
-    if (args.storyPoints !== undefined)
-      lines.push(`storyPoints: ${formatStoryPoints(args.storyPoints)}`);
-  }
+function listResourceTemplates(): ResourceTemplate[] {
+  return DOCUMENT_TYPES.flatMap((type) => {
+    const dir = typeToDir(type);
+    const templates: ResourceTemplate[] = [];
+
+    // Tasks, epics and ideas always live under a state folder
+    if (!isStatefulType(type)) {
+      templates.push({
+        uriTemplate: `${RESOURCE_SCHEME}${dir}/{file}`,
+        name: `${type}`,
+        description: `A ${type} document in agelum/${dir}`,
+        mimeType: 'text/markdown',
+      });
+    }
+
+    if (isStatefulType(type)) {
+      templates.push({
+        uriTemplate: `${RESOURCE_SCHEME}${dir}/{state}/{file}`,
+        name: `${type}-by-state`,
+        description: `A ${type} document in agelum/${dir}/<state>`,
+        mimeType: 'text/markdown',
+      });
+    }
+
+    if (type === 'task') {
+      templates.push({
+        uriTemplate: `${RESOURCE_SCHEME}${dir}/{state}/{epic}/{file}`,
+        name: 'task-by-epic',
+        description: 'A task grouped under an epic in agelum/tasks/<state>/<epic>',
+        mimeType: 'text/markdown',
+      });
+    }
 
-  lines.push('---');
-  return `${lines.join('\n')}\n`;
+    return templates;
+  });
 }
 
-// --- Tools Definition ---
+/**
+ * Serves agelum documents as MCP resources and notifies subscribers when the
+ * underlying files change. The file watcher starts once a client lists or
+ * subscribes to resources and stops when the server closes.
+ */
+function registerResourceHandlers(
+  server: Server,
+  resolveStore: () => DocumentStore
+) {
+  const subscriptions = new Set<string>();
+  const pending = new Map<string, NodeJS.Timeout>();
+  let watcher: fs.FSWatcher | null = null;
+
+  const notify = (key: string, send: () => Promise<void>) => {
+    clearTimeout(pending.get(key));
+    pending.set(
+      key,
+      setTimeout(() => {
+        pending.delete(key);
+        send().catch((error) =>
+          console.error('Agelum: Failed to send resource notification:', error)
+        );
+      }, WATCH_DEBOUNCE_MS)
+    );
+  };
+
+  // Only folders on disk can be watched; database changes go unannounced
+  const startWatcher = (store: DocumentStore) => {
+    if (watcher || !(store.storage instanceof FileSystemStorage)) return;
+
+    watcher = fs.watch(store.agelumPath, { recursive: true }, (eventType, file) => {
+      if (!file || !file.toString().toLowerCase().endsWith('.md')) return;
+
+      const filePath = path.join(store.agelumPath, file.toString());
+      const uri = toResourceUri(store, filePath);
+
+      // 'rename' covers files being created, deleted or moved
+      if (eventType === 'rename') {
+        notify('list', () => server.sendResourceListChanged());
+      }
+      if (subscriptions.has(uri)) {
+        notify(uri, () => server.sendResourceUpdated({ uri }));
+      }
+    });
+    watcher.on('error', (error) => {
+      console.error('Agelum: Resource watcher failed:', error);
+      watcher?.close();
+      watcher = null;
+    });
+  };
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const store = resolveStore();
+    startWatcher(store);
+    return { resources: listDocumentResources(store) };
+  });
 
-const tools: Record<string, Tool> = {
-  create: {
-    name: 'create',
-    description:
-      'Create a new markdown file in the agelum structure. Returns the file path only.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        type: {
-          type: 'string',
-          enum: [
-            'task',
-            'epic',
-            'plan',
-            'doc',
-            'command',
-            'skill',
-            'agent',
-            'context',
-          ],
-          description: 'Document type',
-        },
-        title: {
-          type: 'string',
-          description: 'Title used for naming and frontmatter',
-        },
-        content: { type: 'string', description: 'Markdown content body' },
-        state: {
-          type: 'string',
-          enum: ['pending', 'doing', 'done'],
-          default: 'pending',
-          description: 'Task state (only for type=task)',
-        },
-        priority: {
-          type: 'number',
-          description: 'Task priority number (only for type=task)',
-        },
-        storyPoints: {
-          type: 'number',
-          description: 'Story points (type=task required, type=epic optional)',
-        },
-        fileName: {
-          type: 'string',
-          description: 'Override file name (optional, with or without .md)',
-        },
-        epic: {
-          type: 'string',
-          description: 'Epic name to group this task under (only for type=task)',
-        },
-      },
-      required: ['type', 'title'],
-    },
-  },
-  move: {
-    name: 'move',
-    description: 'Move a task between states. Returns from/to paths only.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        type: {
-          type: 'string',
-          enum: ['task'],
-          description: 'Only task is supported',
-        },
-        title: { type: 'string', description: 'Task title' },
-        priority: { type: 'number', description: 'Task priority number' },
-        storyPoints: { type: 'number', description: 'Task story points' },
-        fileName: {
-          type: 'string',
-          description: 'Override file name (optional)',
-        },
-        fromState: {
-          type: 'string',
-          enum: ['pending', 'doing', 'done'],
-          description: 'Current state',
-        },
-        toState: {
-          type: 'string',
-          enum: ['pending', 'doing', 'done'],
-          description: 'Target state',
-        },
-        epic: {
-          type: 'string',
-          description: 'Epic name if the task is grouped',
-        },
-      },
-      required: ['type', 'fromState', 'toState'],
-    },
-  },
-  get: {
-    name: 'get',
-    description:
-      'Resolve a file path in the agelum structure. Returns the file path only.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        type: {
-          type: 'string',
-          enum: [
-            'task',
-            'epic',
-            'plan',
-            'doc',
-            'command',
-            'skill',
-            'agent',
-            'context',
-          ],
-          description: 'Document type',
-        },
-        title: {
-          type: 'string',
-          description:
-            'Title used to build the file name (if fileName omitted)',
-        },
-        state: {
-          type: 'string',
-          enum: ['pending', 'doing', 'done'],
-          description: 'Task state (optional)',
-        },
-        priority: {
-          type: 'number',
-          description: 'Task priority number (only for type=task)',
-        },
-        storyPoints: {
-          type: 'number',
-          description: 'Story points (type=task required, type=epic optional)',
-        },
-        fileName: {
-          type: 'string',
-          description: 'Override file name (optional)',
-        },
-        epic: {
-          type: 'string',
-          description: 'Epic name if the task is grouped (only for type=task)',
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: listResourceTemplates() };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const store = resolveStore();
+    const filePath = fromResourceUri(store, uri);
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'text/markdown',
+          text: store.storage.readFile(filePath),
         },
-      },
-      required: ['type'],
+      ],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const store = resolveStore();
+    fromResourceUri(store, request.params.uri);
+    subscriptions.add(request.params.uri);
+    startWatcher(store);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const stop = () => {
+    watcher?.close();
+    watcher = null;
+    pending.forEach((timeout) => clearTimeout(timeout));
+    pending.clear();
+    subscriptions.clear();
+  };
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    previousOnClose?.();
+    stop();
+  };
+
+  return {
+    /** Drops subscriptions and the watcher after the session switches repository */
+    reset: () => {
+      stop();
+      server
+        .sendResourceListChanged()
+        .catch((error) =>
+          console.error('Agelum: Failed to send resource notification:', error)
+        );
     },
-  },
-};
+  };
+}
 
-// --- Repo Discovery Logic ---
+// --- Prompts ---
+
+// Markdown folders whose files are advertised as prompts
+const PROMPT_SOURCES: { type: DocumentType; prefix: string }[] = [
+  { type: 'command', prefix: '' },
+  { type: 'skill', prefix: 'skill:' },
+];
+
+interface PromptDefinition extends Prompt {
+  filePath: string;
+  template: string;
+}
+
+function toPromptName(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/\.md$/, '')
+    .replace(/[^a-z0-9_:-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
 
 /**
- * Finds the repository root.
- * Prioritizes `process.cwd()` (Stdio mode).
- * If not found, falls back to `globalConfigRoot` (Service mode).
+ * Reads prompt arguments from frontmatter. Accepts either a list of names
+ * (`arguments: [branch, ticket]`) or a list of objects with `name`,
+ * `description` and `required`.
  */
-export function findRepoRootPath(globalConfigRoot?: string): string | null {
-  // 1. Try finding .git from current working directory (Stdio mode)
-  console.error(`Agelum: Searching for .git starting from ${process.cwd()}`);
-  let currentPath = process.cwd();
-  
-  // Safety check: Don't walk up if we are in a system root or unexpected place
-  // But for now, standard walking is fine.
-  
-  // We limit the walk to avoid infinite loops or going too far up in Docker
-  const MAX_DEPTH = 10;
-  let depth = 0;
+function parsePromptArguments(value: unknown): PromptArgument[] {
+  if (!Array.isArray(value)) return [];
 
-  while (depth < MAX_DEPTH) {
-    const gitPath = path.join(currentPath, '.git');
-    if (fs.existsSync(gitPath)) {
-      console.error(`Agelum: Found .git at ${currentPath}`);
-      return currentPath;
+  return value.flatMap((item): PromptArgument[] => {
+    if (typeof item === 'string' && item.trim()) {
+      return [{ name: item.trim() }];
     }
+    if (item && typeof item === 'object' && typeof item.name === 'string') {
+      return [
+        {
+          name: item.name.trim(),
+          ...(typeof item.description === 'string' && {
+            description: item.description,
+          }),
+          ...(item.required === true && { required: true }),
+        },
+      ];
+    }
+    return [];
+  });
+}
 
-    const parentPath = path.dirname(currentPath);
-    if (parentPath === currentPath) break;
-    currentPath = parentPath;
-    depth++;
+function loadPrompts(store: DocumentStore): PromptDefinition[] {
+  const prompts: PromptDefinition[] = [];
+
+  for (const source of PROMPT_SOURCES) {
+    const dir = store.typePath(source.type);
+
+    for (const filePath of store.listFiles(source.type)) {
+      const { frontmatter, body, title } = store.read(filePath, source.type);
+      if (frontmatter.prompt === false) continue;
+
+      const baseName =
+        typeof frontmatter.name === 'string' && frontmatter.name.trim()
+          ? frontmatter.name
+          : path.relative(dir, filePath).split(path.sep).join('/');
+
+      prompts.push({
+        name: `${source.prefix}${toPromptName(baseName)}`,
+        title,
+        ...(typeof frontmatter.description === 'string' && {
+          description: frontmatter.description,
+        }),
+        arguments: parsePromptArguments(frontmatter.arguments),
+        filePath,
+        template: body.trim(),
+      });
+    }
   }
-  
-  console.error('Agelum: Could not find .git via CWD traversal.');
 
-  // 2. Fallback to Global Config (Service mode / Web App context)
-  if (globalConfigRoot) {
-    console.error(`Agelum: Falling back to global config root: ${globalConfigRoot}`);
-    if (fs.existsSync(globalConfigRoot)) {
-       // Check if it has .git or is a valid dir
-       return globalConfigRoot;
-    }
+  return prompts.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function renderPrompt(
+  prompt: PromptDefinition,
+  values: Record<string, string>
+): string {
+  const missing = (prompt.arguments ?? []).filter(
+    (arg) => arg.required && !values[arg.name]
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required arguments: ${missing.map((arg) => arg.name).join(', ')}`
+    );
   }
 
-  return null;
+  // Unknown placeholders are left untouched so literal braces survive
+  const known = new Set((prompt.arguments ?? []).map((arg) => arg.name));
+  return prompt.template.replace(
+    /\{\{\s*([\w-]+)\s*\}\}/g,
+    (match, name: string) => (known.has(name) ? values[name] ?? '' : match)
+  );
+}
+
+/**
+ * Turns markdown files in `agelum/commands` and `agelum/skills` into MCP
+ * prompts. Set `prompt: false` in a file's frontmatter to hide it.
+ */
+function registerPromptHandlers(
+  server: Server,
+  resolveStore: () => DocumentStore
+) {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    const prompts = loadPrompts(resolveStore()).map(
+      ({ filePath, template, ...prompt }) => prompt
+    );
+    return { prompts };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: values = {} } = request.params;
+    const prompt = loadPrompts(resolveStore()).find(
+      (p) => p.name === name
+    );
+    if (!prompt) throw new Error(`Unknown prompt: ${name}`);
+
+    return {
+      ...(prompt.description && { description: prompt.description }),
+      messages: [
+        {
+          role: 'user',
+          content: { type: 'text', text: renderPrompt(prompt, values) },
+        },
+      ],
+    };
+  });
 }
 
 // --- Server Setup ---
 
-export function createAgelumMcpServer(globalConfigRoot?: string) {
+export function createAgelumMcpServer(options: AgelumMcpServerOptions = {}) {
+  const { detectRepoFromCwd = false } = options;
+  let selectedRepo: string | null = null;
+
   const server = new Server(
     {
       name: 'agelum',
@@ -345,13 +446,44 @@ export function createAgelumMcpServer(globalConfigRoot?: string) {
     {
       capabilities: {
         tools: {},
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+        prompts: {},
       },
     }
   );
 
+  // An explicit repo wins, then the session selection, then the CWD (stdio)
+  const openStore = (repo?: string): DocumentStore => {
+    const name = repo ?? selectedRepo;
+    if (name) return openRepoDocumentStore(name);
+
+    const cwdRepo = detectRepoFromCwd ? findRepoRootPath() : null;
+    if (cwdRepo) return DocumentStore.forRepoPath(cwdRepo);
+
+    throw new Error(
+      'No repository selected. Pass repo or call select_repository (see list_repositories).'
+    );
+  };
+
+  const resolveStore = (repo?: string) => openStore(repo).ensureStructure();
+
+  const resources = registerResourceHandlers(server, () => resolveStore());
+  registerPromptHandlers(server, () => resolveStore());
+
   server.setRequestHandler(ListToolsRequestSchema, async () => {
+    // State enums follow the current repository's workflow when there is one
+    let workflow = DEFAULT_WORKFLOW;
+    try {
+      workflow = openStore().workflow;
+    } catch {
+      // No repository selected yet (or an invalid workflow.json)
+    }
+
     return {
-      tools: Object.values(tools),
+      tools: listTools(workflow),
     };
   });
 
@@ -359,69 +491,71 @@ export function createAgelumMcpServer(globalConfigRoot?: string) {
     const { name, arguments: args } = request.params;
 
     try {
-      const repoRootPath = findRepoRootPath(globalConfigRoot);
-      if (!repoRootPath) throw new Error('Could not find repository root');
-      const agelumPath = ensureAgelumStructure(repoRootPath);
-
-      switch (name) {
-        case 'create': {
-          const {
-            type,
-            title,
-            content = '',
-            state = 'pending',
-            priority,
-            storyPoints,
-            fileName,
-            epic,
-          } = args as {
-            type: DocumentType;
-            title: string;
-            content?: string;
-            state?: TaskState;
-            priority?: number;
-            storyPoints?: number;
-            fileName?: string;
-            epic?: string;
-          };
-
-          const resolvedFileName = ensureMdExtension(
-            sanitizeFileNamePart(
-              fileName ?? buildFileName({ type, title, priority, storyPoints })
-            )
-          );
+      if (!isToolName(name)) throw new Error(`Unknown tool: ${name}`);
+
+      if (name === 'list_repositories') {
+        // Server mode has no directories: every repository is in the database
+        const listing = isServerMode()
+          ? {
+              roots: [],
+              repositories: listStoredRepositories().map((repo) => ({
+                name: repo,
+                hasAgelum: true,
+              })),
+            }
+          : {
+              roots: getRootGitDirectories(),
+              repositories: listRepositories().map((repo) => ({
+                name: repo.name,
+                path: repo.path,
+                hasAgelum: fs.existsSync(getAgelumPath(repo.path)),
+              })),
+            };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ ...listing, selected: selectedRepo }),
+            },
+          ],
+        };
+      }
 
-          let targetDir =
-            type === 'task'
-              ? path.join(agelumPath, 'tasks', state)
-              : path.join(agelumPath, nonTaskTypeToDir[type]);
+      if (name === 'select_repository') {
+        const { repo } = parseToolArguments(name, args) as SelectRepositoryToolArgs;
+        const repoPath = path.dirname(openRepoDocumentStore(repo).agelumPath);
 
-          if (type === 'task' && epic) {
-            targetDir = path.join(targetDir, sanitizeFileNamePart(epic));
-          }
+        if (selectedRepo !== repo) {
+          selectedRepo = repo;
+          resources.reset();
+        }
 
-          fs.mkdirSync(targetDir, { recursive: true });
-          const filePath = path.join(targetDir, resolvedFileName);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ repo, path: repoPath }),
+            },
+          ],
+        };
+      }
 
-          if (fs.existsSync(filePath))
-            throw new Error(`File already exists: ${filePath}`);
+      // Arguments are validated against the target repository's workflow
+      const store = resolveStore(
+        typeof args?.repo === 'string' ? args.repo : undefined
+      );
+      const input = parseToolArguments(name, args, store.workflow);
 
-          const frontmatter = buildFrontmatter({
-            type,
-            title,
-            state,
-            priority,
-            storyPoints,
-            epic,
-          });
-          const body = `\n# ${title}\n\n${content}\n`;
-          fs.writeFileSync(filePath, `${frontmatter}${body}`);
+      switch (name) {
+        case 'create': {
+          const entry = store.create(input as CreateToolArgs);
 
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify({ path: filePath }),
+                text: JSON.stringify({ path: entry.path }),
               },
             ],
           };
@@ -437,151 +571,138 @@ export function createAgelumMcpServer(globalConfigRoot?: string) {
             fromState,
             toState,
             epic,
-          } = args as {
-            type: 'task';
-            title?: string;
-            priority?: number;
-            storyPoints?: number;
-            fileName?: string;
-            fromState: TaskState;
-            toState: TaskState;
-            epic?: string;
-          };
+            force,
+          } = input as MoveToolArgs;
 
-          if (fromState === toState) {
-             throw new Error('fromState and toState must be different');
-          }
-
-          let sourceFileName = fileName;
-          if (!sourceFileName) {
-             if (!title) throw new Error('title is required if fileName is not provided');
-             sourceFileName = buildFileName({ type, title, priority, storyPoints });
-          }
-          sourceFileName = ensureMdExtension(sourceFileName);
-
-          let sourceDir = path.join(agelumPath, 'tasks', fromState);
-          if (epic) {
-             sourceDir = path.join(sourceDir, sanitizeFileNamePart(epic));
-          }
-          
-          const sourcePath = path.join(sourceDir, sourceFileName);
-
-          if (!fs.existsSync(sourcePath)) {
-            throw new Error(`Source file not found: ${sourcePath}`);
-          }
-
-          let targetDir = path.join(agelumPath, 'tasks', toState);
-          if (epic) {
-             targetDir = path.join(targetDir, sanitizeFileNamePart(epic));
-          }
-          
-          fs.mkdirSync(targetDir, { recursive: true });
-          const targetPath = path.join(targetDir, sourceFileName);
-
-          if (fs.existsSync(targetPath)) {
-             throw new Error(`Target file already exists: ${targetPath}`);
-          }
-
-          fs.renameSync(sourcePath, targetPath);
+          const result = store.move({
+            type,
+            fileName:
+              fileName ?? buildFileName({ type, title, priority, storyPoints }),
+            fromState,
+            toState,
+            epic,
+            force,
+          });
 
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify({ from: sourcePath, to: targetPath }),
+                text: JSON.stringify(result),
               },
             ],
           };
         }
 
         case 'get': {
-          const {
-            type,
-            title = '',
-            state,
-            priority,
-            storyPoints,
-            fileName,
-            epic,
-          } = args as {
-            type: DocumentType;
-            title?: string;
-            state?: TaskState;
-            priority?: number;
-            storyPoints?: number;
-            fileName?: string;
-            epic?: string;
+          const searchPath = store.resolve(input as DocumentLocator);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ path: searchPath }),
+              },
+            ],
           };
+        }
 
-          let resolvedFileName = fileName;
-          if (!resolvedFileName) {
-             if (!title) throw new Error('title is required if fileName is not provided');
-             if (type === 'task') {
-                 if (priority !== undefined && storyPoints !== undefined) {
-                     resolvedFileName = buildFileName({ type, title, priority, storyPoints });
-                 } else {
-                     // For get, if priority/SP missing, we assume title matches (might fail if not exact)
-                     // Or could assume user provided exact filename in title? No, buildFileName handles logic.
-                     // If incomplete, let's try just title if it's the simple case, but buildFileName throws.
-                     // Let's assume user provides correct params or fileName.
-                     try {
-                        resolvedFileName = buildFileName({ type, title, priority, storyPoints });
-                     } catch (e) {
-                        // Fallback: try just title.md? No, convention is strict.
-                        throw new Error('Insufficient arguments to build filename. Provide fileName or all task attributes.');
-                     }
-                 }
-             } else {
-                 resolvedFileName = buildFileName({ type, title, priority, storyPoints });
-             }
-          }
-          
-          let searchPath = '';
-          if (type === 'task') {
-             if (state) {
-                 searchPath = path.join(agelumPath, 'tasks', state);
-                 if (epic) {
-                    searchPath = path.join(searchPath, sanitizeFileNamePart(epic));
-                 }
-                 searchPath = path.join(searchPath, resolvedFileName);
-             } else {
-                 // Search in all states?
-                 // "get" usually implies knowing where it is.
-                 // But for convenience, we could check pending/doing/done?
-                 // For now, let's just return what we can if state is provided.
-                 // If state is NOT provided, we can't reliably find it without searching.
-                 // Let's assume state is optional but we try to find it.
-                 const states: TaskState[] = ['pending', 'doing', 'done'];
-                 let foundPath: string | null = null;
-                 
-                 for (const s of states) {
-                     let dir = path.join(agelumPath, 'tasks', s);
-                     if (epic) dir = path.join(dir, sanitizeFileNamePart(epic));
-                     const p = path.join(dir, resolvedFileName);
-                     if (fs.existsSync(p)) {
-                         foundPath = p;
-                         break;
-                     }
-                 }
-                 
-                 if (!foundPath) {
-                     throw new Error(`File not found: ${resolvedFileName} (searched in ${epic ? 'epic ' + epic : 'all states'})`);
-                 }
-                 searchPath = foundPath;
-             }
-          } else {
-              searchPath = path.join(agelumPath, nonTaskTypeToDir[type], resolvedFileName);
-          }
-
-          if (!fs.existsSync(searchPath)) {
-            throw new Error(`File not found: ${searchPath}`);
-          }
+        case 'list': {
+          const filters = input as ListFilters;
+          const entries = store.list(filters);
 
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify({ path: searchPath }),
+                text: JSON.stringify({ entries }),
+              },
+            ],
+          };
+        }
+
+        case 'read': {
+          const filePath = store.resolve(input as DocumentLocator);
+          const { frontmatter, body } = store.read(filePath);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ path: filePath, frontmatter, body }),
+              },
+            ],
+          };
+        }
+
+        case 'update': {
+          const { frontmatter, body, sections, append, ...locator } =
+            input as UpdateToolArgs;
+
+          const filePath = store.resolve(locator);
+          // Only documents inside a known type folder can be edited
+          store.inferType(filePath);
+          const updated = store.update(filePath, {
+            frontmatter,
+            body,
+            sections,
+            append,
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ path: filePath, ...updated }),
+              },
+            ],
+          };
+        }
+
+        case 'delete':
+        case 'archive': {
+          const filePath = store.resolve(input as DocumentLocator);
+          const entry = moveToArea(
+            store.storage,
+            filePath,
+            name === 'delete' ? 'trash' : 'archive'
+          );
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(entry),
+              },
+            ],
+          };
+        }
+
+        case 'restore': {
+          const { id, area } = input as RestoreToolArgs;
+          const result = restoreRemoved(store.storage, id, area, (target) =>
+            store.resolvePath(target)
+          );
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result),
+              },
+            ],
+          };
+        }
+
+        case 'list_trash': {
+          const { area } = input as ListTrashToolArgs;
+          const entries = listRemoved(store.storage, area);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ entries }),
               },
             ],
           };
@@ -591,6 +712,22 @@ export function createAgelumMcpServer(globalConfigRoot?: string) {
           throw new Error(`Unknown tool: ${name}`);
       }
     } catch (error: any) {
+      if (error instanceof ToolArgumentsError) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: 'Invalid arguments',
+                tool: error.tool,
+                issues: error.issues,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+
       return {
         content: [
           {
@@ -0,0 +1,131 @@
+// --- Types & Constants ---
+
+export type ViewMode =
+  | 'ideas'
+  | 'research'
+  | 'docs'
+  | 'plan'
+  | 'epics'
+  | 'kanban'
+  | 'graph'
+  | 'commands'
+  | 'browser';
+
+export const DEFAULT_VIEW: ViewMode = 'epics';
+
+/** URL segment per view; the rest use their own name */
+const VIEW_SEGMENTS: Partial<Record<ViewMode, string>> = {
+  kanban: 'tasks',
+  browser: 'files',
+};
+
+export const VIEWS: ViewMode[] = [
+  'ideas',
+  'research',
+  'docs',
+  'plan',
+  'epics',
+  'kanban',
+  'graph',
+  'commands',
+  'browser',
+];
+
+/**
+ * Boards address documents by their path below the type folder
+ * (`/repo/tasks/pending/<epic>/<taskId>.md`). The folder changes with the
+ * document's state, so a link to a document that has moved since falls back
+ * to its file name.
+ */
+export const BOARD_VIEW_TYPES: Partial<Record<ViewMode, 'idea' | 'epic' | 'task'>> = {
+  ideas: 'idea',
+  epics: 'epic',
+  kanban: 'task',
+};
+
+/**
+ * Views address documents by their path below this folder of the agelum
+ * directory (`/repo/docs/guides/setup.md`). Document paths from
+ * the API are already relative to the agelum directory.
+ */
+const VIEW_ROOTS: Partial<Record<ViewMode, string>> = {
+  ideas: 'ideas',
+  epics: 'epics',
+  kanban: 'tasks',
+  research: 'research',
+  docs: 'docs',
+  plan: 'plan',
+  commands: 'commands',
+  browser: '',
+  graph: '',
+};
+
+export interface AppRoute {
+  repo?: string;
+  view?: ViewMode;
+  /** Path segments of the open document below the view root */
+  doc?: string[];
+  /** Slug of the epic the task board is filtered to (`?epic=<slug>`) */
+  epic?: string;
+}
+
+// --- Parsing & building ---
+
+export function viewToSegment(view: ViewMode): string {
+  return VIEW_SEGMENTS[view] ?? view;
+}
+
+export function segmentToView(segment: string): ViewMode | undefined {
+  return VIEWS.find((view) => viewToSegment(view) === segment);
+}
+
+/**
+ * `/<repo>/<view>/<doc...>[?epic=<slug>]`; unknown views fall back to the
+ * repo's default
+ */
+export function parseRoute(pathname: string, search = ''): AppRoute {
+  const [repo, view, ...doc] = pathname
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => decodeURIComponent(segment));
+
+  if (!repo) return {};
+  const parsedView = view ? segmentToView(view) : undefined;
+  const epic = new URLSearchParams(search).get('epic');
+  return {
+    repo,
+    ...(parsedView && { view: parsedView }),
+    ...(parsedView && doc.length > 0 && { doc }),
+    ...(parsedView === 'kanban' && epic && { epic }),
+  };
+}
+
+export function buildRoute(route: AppRoute): string {
+  if (!route.repo) return '/';
+  const segments = [route.repo];
+  if (route.view) {
+    segments.push(viewToSegment(route.view), ...(route.doc ?? []));
+  }
+  const pathname = `/${segments.map((segment) => encodeURIComponent(segment)).join('/')}`;
+  return route.view === 'kanban' && route.epic
+    ? `${pathname}?${new URLSearchParams({ epic: route.epic })}`
+    : pathname;
+}
+
+// --- Documents ---
+
+/** Agelum-relative path of the document the URL segments name in `view` */
+export function fromDocSegments(view: ViewMode, doc: string[]): string {
+  const root = VIEW_ROOTS[view];
+  return [root, ...doc].filter(Boolean).join('/');
+}
+
+/** URL segments that identify the agelum-relative `filePath` in `view` */
+export function toDocSegments(view: ViewMode, filePath: string): string[] {
+  const root = VIEW_ROOTS[view];
+  const relative =
+    root && filePath.startsWith(`${root}/`)
+      ? filePath.slice(root.length + 1)
+      : filePath;
+  return relative.split('/').filter(Boolean);
+}
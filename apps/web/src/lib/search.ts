@@ -0,0 +1,320 @@
+import type {
+  DocumentEntry,
+  DocumentStore,
+  DocumentType,
+} from './document-store';
+
+// --- Types ---
+
+/** Document types that hold prose worth searching */
+export const SEARCHABLE_TYPES: DocumentType[] = [
+  'idea',
+  'epic',
+  'task',
+  'doc',
+  'plan',
+  'research',
+  'context',
+];
+
+export interface FieldFilter {
+  field: string;
+  value: string;
+}
+
+export interface ParsedQuery {
+  /** Words and quoted phrases, lowercased; every one must match */
+  terms: string[];
+  /** `field:value` pairs, e.g. `state:doing` or `assignee:"Ana Lopez"` */
+  fields: FieldFilter[];
+}
+
+export interface SearchSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  id: string;
+  type: DocumentType;
+  state?: string;
+  epic?: string;
+  title: string;
+  /** Relative to the agelum folder */
+  path: string;
+  score: number;
+  highlights: {
+    title: SearchSegment[];
+    snippet: SearchSegment[];
+  };
+}
+
+interface IndexedDocument {
+  mtimeMs: number;
+  entry: DocumentEntry;
+  body: string;
+  /** Lowercased title, body and frontmatter values for term matching */
+  text: {
+    title: string;
+    body: string;
+    frontmatter: string;
+  };
+}
+
+const FIELD_ALIASES: Record<string, string> = {
+  label: 'labels',
+  points: 'storyPoints',
+  storypoints: 'storyPoints',
+  due: 'dueDate',
+  duedate: 'dueDate',
+  depends: 'dependsOn',
+  dependson: 'dependsOn',
+};
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_LENGTH = 180;
+
+// --- Query parsing ---
+
+/**
+ * Splits a query into free-text terms and `field:value` filters. Double quotes
+ * group words into a phrase, both for terms and for field values.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], fields: [] };
+  const pattern = /(?:([A-Za-z][\w-]*):)?(?:"([^"]*)"?|(\S+))/g;
+
+  for (const match of Array.from(query.matchAll(pattern))) {
+    const [, field, quoted, word] = match;
+    const value = (quoted ?? word ?? '').trim();
+    if (!value) continue;
+
+    if (field) {
+      const key = field.toLowerCase();
+      parsed.fields.push({ field: FIELD_ALIASES[key] ?? field, value });
+    } else {
+      parsed.terms.push(value.toLowerCase());
+    }
+  }
+
+  return parsed;
+}
+
+// --- Matching ---
+
+function flatten(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) return value.flatMap(flatten);
+  if (value instanceof Date) return [value.toISOString().slice(0, 10)];
+  if (typeof value === 'object') return Object.values(value).flatMap(flatten);
+  return [String(value)];
+}
+
+function fieldValues(doc: IndexedDocument, field: string): string[] {
+  const { entry } = doc;
+  switch (field.toLowerCase()) {
+    case 'type':
+      return [entry.type];
+    case 'state':
+      return flatten(entry.state);
+    case 'epic':
+      return flatten(entry.type === 'epic' ? entry.slug : entry.epic);
+    case 'priority':
+      return flatten(entry.priority);
+    case 'storypoints':
+      return flatten(entry.storyPoints);
+  }
+
+  const key = Object.keys(entry.frontmatter).find(
+    (name) => name.toLowerCase() === field.toLowerCase()
+  );
+  return key ? flatten(entry.frontmatter[key]) : [];
+}
+
+function matchesField(doc: IndexedDocument, filter: FieldFilter): boolean {
+  const wanted = filter.value.toLowerCase();
+  switch (filter.field.toLowerCase()) {
+    case 'title':
+      return doc.text.title.includes(wanted);
+    case 'body':
+      return doc.text.body.includes(wanted);
+  }
+  return fieldValues(doc, filter.field).some(
+    (value) => value.trim().toLowerCase() === wanted
+  );
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  for (
+    let index = text.indexOf(term);
+    index !== -1;
+    index = text.indexOf(term, index + term.length)
+  ) {
+    count++;
+  }
+  return count;
+}
+
+/** Title hits weigh most, then frontmatter, then (capped) body hits */
+function scoreDocument(doc: IndexedDocument, terms: string[]): number {
+  let score = 0;
+  for (const term of terms) {
+    const inTitle = doc.text.title.includes(term);
+    const inFrontmatter = doc.text.frontmatter.includes(term);
+    const inBody = Math.min(countOccurrences(doc.text.body, term), 5);
+    if (!inTitle && !inFrontmatter && inBody === 0) return 0;
+    score += (inTitle ? 10 : 0) + (inFrontmatter ? 3 : 0) + inBody;
+  }
+  return Math.max(score, 1);
+}
+
+// --- Highlighting ---
+
+/** Splits `text` into plain and highlighted runs for every term occurrence */
+export function highlight(text: string, terms: string[]): SearchSegment[] {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+
+  for (const term of terms) {
+    for (
+      let index = lower.indexOf(term);
+      index !== -1;
+      index = lower.indexOf(term, index + term.length)
+    ) {
+      ranges.push([index, index + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const segments: SearchSegment[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (end <= cursor) continue;
+    const from = Math.max(start, cursor);
+    if (from > cursor) {
+      segments.push({ text: text.slice(cursor, from), highlight: false });
+    }
+    segments.push({ text: text.slice(from, end), highlight: true });
+    cursor = end;
+  }
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), highlight: false });
+  }
+  return segments;
+}
+
+/** A window of the body around the first term occurrence, on one line */
+function buildSnippet(body: string, terms: string[]): SearchSegment[] {
+  const text = body
+    .replace(/^\s*#\s+.*$/m, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const lower = text.toLowerCase();
+
+  const first = terms
+    .map((term) => lower.indexOf(term))
+    .filter((index) => index !== -1)
+    .sort((a, b) => a - b)[0];
+  const start = first === undefined ? 0 : Math.max(0, first - SNIPPET_BEFORE);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const window =
+    (start > 0 ? '…' : '') +
+    text.slice(start, end) +
+    (end < text.length ? '…' : '');
+  return highlight(window, terms);
+}
+
+// --- Index ---
+
+/**
+ * Parsed documents of one agelum folder, kept in memory between searches and
+ * re-read only when a file's mtime changes.
+ */
+class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+
+  constructor(private store: DocumentStore) {}
+
+  refresh(): IndexedDocument[] {
+    const seen = new Set<string>();
+
+    for (const type of SEARCHABLE_TYPES) {
+      for (const filePath of this.store.listFiles(type)) {
+        seen.add(filePath);
+        const mtimeMs = this.store.storage.stat(filePath)?.mtime.getTime() ?? 0;
+        if (this.documents.get(filePath)?.mtimeMs === mtimeMs) continue;
+
+        const { body, ...entry } = this.store.read(filePath, type);
+        this.documents.set(filePath, {
+          mtimeMs,
+          entry,
+          body,
+          text: {
+            title: entry.title.toLowerCase(),
+            body: body.toLowerCase(),
+            frontmatter: flatten(entry.frontmatter).join('\n').toLowerCase(),
+          },
+        });
+      }
+    }
+
+    Array.from(this.documents.keys())
+      .filter((filePath) => !seen.has(filePath))
+      .forEach((filePath) => this.documents.delete(filePath));
+
+    return Array.from(this.documents.values());
+  }
+}
+
+const indexes = new Map<string, SearchIndex>();
+
+function indexFor(store: DocumentStore): SearchIndex {
+  let index = indexes.get(store.agelumPath);
+  if (!index) {
+    index = new SearchIndex(store);
+    indexes.set(store.agelumPath, index);
+  }
+  return index;
+}
+
+// --- Search ---
+
+/**
+ * Searches ideas, epics, tasks, docs, plans, research and context of the
+ * store's repository. Results are ordered by relevance, then title.
+ */
+export function searchDocuments(
+  store: DocumentStore,
+  query: string,
+  options: { limit?: number } = {}
+): SearchResult[] {
+  const { terms, fields } = parseQuery(query);
+  if (terms.length === 0 && fields.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  for (const doc of indexFor(store).refresh()) {
+    if (!fields.every((filter) => matchesField(doc, filter))) continue;
+    const score = terms.length > 0 ? scoreDocument(doc, terms) : 1;
+    if (score === 0) continue;
+
+    const { entry } = doc;
+    results.push({
+      id: entry.id,
+      type: entry.type,
+      ...(entry.state && { state: entry.state }),
+      ...(entry.epic && { epic: entry.epic }),
+      title: entry.title,
+      path: store.relativePath(entry.path),
+      score,
+      highlights: {
+        title: highlight(entry.title, terms),
+        snippet: buildSnippet(doc.body, terms),
+      },
+    });
+  }
+
+  results.sort((a, b) => b.score - a.score || a.title.localeCompare(b.title));
+  return options.limit !== undefined ? results.slice(0, options.limit) : results;
+}
@@ -0,0 +1,284 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { RepositoryNotFoundError, isValidRepositoryName } from './config';
+import {
+  FileSystemStorage,
+  copyTree,
+  isDirectory,
+  type StorageBackend,
+  type StorageEntry,
+  type StorageStat,
+} from './storage';
+
+// --- Database ---
+
+/** Server mode keeps every repository's agelum folder in this file */
+export const DATABASE_FILE =
+  process.env.AGELUM_DATABASE ||
+  path.join(os.homedir(), '.agelum', 'agelum.db');
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS repositories (
+    name TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS entries (
+    repo TEXT NOT NULL REFERENCES repositories (name) ON DELETE CASCADE,
+    -- Relative to the agelum folder, '/'-separated; the folder itself has no row
+    path TEXT NOT NULL,
+    parent TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('file', 'directory')),
+    content TEXT,
+    mtime INTEGER NOT NULL,
+    PRIMARY KEY (repo, path)
+  );
+  CREATE INDEX IF NOT EXISTS entries_by_parent ON entries (repo, parent);
+`;
+
+let database: Database.Database | null = null;
+
+export function openDatabase(file: string = DATABASE_FILE): Database.Database {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+  return db;
+}
+
+/** Shared connection to `DATABASE_FILE`, opened on first use */
+export function getDatabase(): Database.Database {
+  database ??= openDatabase();
+  return database;
+}
+
+export function listStoredRepositories(db = getDatabase()): string[] {
+  return (
+    db.prepare('SELECT name FROM repositories ORDER BY name').all() as {
+      name: string;
+    }[]
+  ).map((row) => row.name);
+}
+
+export function createStoredRepository(name: string, db = getDatabase()): void {
+  if (!isValidRepositoryName(name)) {
+    throw new Error(`Invalid repository name: ${name}`);
+  }
+  db.prepare(
+    'INSERT OR IGNORE INTO repositories (name, created_at) VALUES (?, ?)'
+  ).run(name, new Date().toISOString());
+}
+
+// --- Storage ---
+
+interface EntryRow {
+  path: string;
+  kind: 'file' | 'directory';
+  content: string | null;
+  mtime: number;
+}
+
+function parentOf(key: string): string {
+  const index = key.lastIndexOf('/');
+  return index === -1 ? '' : key.slice(0, index);
+}
+
+/**
+ * The agelum folder of one repository stored in SQLite. Paths look like
+ * `/<repo>/agelum/...` so the rest of the app can treat them like files on
+ * disk; there are no symlinks to follow.
+ */
+export class SqliteStorage implements StorageBackend {
+  readonly root: string;
+
+  constructor(
+    readonly repo: string,
+    private readonly db: Database.Database = getDatabase()
+  ) {
+    this.root = path.resolve(path.sep, repo, 'agelum');
+  }
+
+  /** Storage for a repository that is already in the database */
+  static open(repo: string, db = getDatabase()): SqliteStorage {
+    const found = db
+      .prepare('SELECT 1 FROM repositories WHERE name = ?')
+      .get(repo);
+    if (!found) throw new RepositoryNotFoundError(repo);
+    return new SqliteStorage(repo, db);
+  }
+
+  /** Row key of an absolute path; `''` is the agelum folder itself */
+  private key(target: string): string {
+    const relative = path.relative(this.root, path.resolve(this.root, target));
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Path is outside the agelum folder: ${target}`);
+    }
+    return relative.split(path.sep).join('/');
+  }
+
+  private row(key: string): EntryRow | undefined {
+    return this.db
+      .prepare(
+        'SELECT path, kind, content, mtime FROM entries WHERE repo = ? AND path = ?'
+      )
+      .get(this.repo, key) as EntryRow | undefined;
+  }
+
+  private put(key: string, kind: EntryRow['kind'], content: string | null) {
+    this.db
+      .prepare(
+        `INSERT INTO entries (repo, path, parent, kind, content, mtime)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (repo, path) DO UPDATE
+         SET kind = excluded.kind, content = excluded.content, mtime = excluded.mtime`
+      )
+      .run(this.repo, key, parentOf(key), kind, content, Date.now());
+  }
+
+  /** Keys of a folder and everything below it */
+  private subtree(key: string): string[] {
+    return (
+      this.db
+        .prepare(
+          `SELECT path FROM entries
+           WHERE repo = @repo AND (path = @key OR substr(path, 1, length(@prefix)) = @prefix)`
+        )
+        .all({ repo: this.repo, key, prefix: `${key}/` }) as Pick<EntryRow, 'path'>[]
+    ).map((row) => row.path);
+  }
+
+  private ensureFolder(key: string) {
+    const missing: string[] = [];
+    for (let current = key; current; current = parentOf(current)) {
+      const row = this.row(current);
+      if (row?.kind === 'directory') break;
+      if (row) throw new Error(`Not a directory: ${current}`);
+      missing.push(current);
+    }
+    missing.forEach((folder) => this.put(folder, 'directory', null));
+  }
+
+  stat(target: string): StorageStat | null {
+    const key = this.key(target);
+    if (!key) return { kind: 'directory', mtime: new Date(0) };
+    const row = this.row(key);
+    return row ? { kind: row.kind, mtime: new Date(row.mtime) } : null;
+  }
+
+  list(dir: string): StorageEntry[] {
+    const key = this.key(dir);
+    const rows = this.db
+      .prepare('SELECT path, kind FROM entries WHERE repo = ? AND parent = ?')
+      .all(this.repo, key) as Pick<EntryRow, 'path' | 'kind'>[];
+    return rows.map((row) => ({
+      name: row.path.slice(key ? key.length + 1 : 0),
+      kind: row.kind,
+    }));
+  }
+
+  readFile(file: string): string {
+    const row = this.row(this.key(file));
+    if (!row || row.kind !== 'file') {
+      throw new Error(`File not found: ${file}`);
+    }
+    return row.content ?? '';
+  }
+
+  writeFile(file: string, content: string): void {
+    const key = this.key(file);
+    if (this.row(key)?.kind === 'directory') {
+      throw new Error(`Is a directory: ${file}`);
+    }
+    this.db.transaction(() => {
+      this.ensureFolder(parentOf(key));
+      this.put(key, 'file', content);
+    })();
+  }
+
+  mkdir(dir: string): void {
+    const key = this.key(dir);
+    this.db.transaction(() => this.ensureFolder(key))();
+  }
+
+  rename(from: string, to: string): void {
+    const fromKey = this.key(from);
+    const toKey = this.key(to);
+    if (!fromKey || !toKey) throw new Error('Cannot move the agelum folder');
+    if (toKey === fromKey || toKey.startsWith(`${fromKey}/`)) {
+      throw new Error(`Cannot move ${from} into itself`);
+    }
+
+    this.db.transaction(() => {
+      const keys = this.subtree(fromKey);
+      if (keys.length === 0) throw new Error(`Path does not exist: ${from}`);
+      // Like rename(2), an existing file at the target is replaced
+      if (this.row(toKey)?.kind === 'directory') {
+        throw new Error(`Target already exists: ${to}`);
+      }
+
+      this.ensureFolder(parentOf(toKey));
+      const move = this.db.prepare(
+        'UPDATE entries SET path = ?, parent = ? WHERE repo = ? AND path = ?'
+      );
+      this.db
+        .prepare('DELETE FROM entries WHERE repo = ? AND path = ?')
+        .run(this.repo, toKey);
+      for (const key of keys) {
+        const next = toKey + key.slice(fromKey.length);
+        move.run(next, parentOf(next), this.repo, key);
+      }
+    })();
+  }
+
+  remove(target: string): void {
+    const key = this.key(target);
+    if (!key) throw new Error('Cannot remove the agelum folder');
+    this.db
+      .prepare(
+        `DELETE FROM entries
+         WHERE repo = @repo AND (path = @key OR substr(path, 1, length(@prefix)) = @prefix)`
+      )
+      .run({ repo: this.repo, key, prefix: `${key}/` });
+  }
+
+  realPath(target: string): string {
+    return path.resolve(this.root, target);
+  }
+}
+
+// --- Import & export ---
+
+/**
+ * Replaces a repository's stored agelum folder with the one at `agelumPath`,
+ * creating the repository when needed. Returns the number of files copied.
+ */
+export function importAgelumFolder(
+  repo: string,
+  agelumPath: string,
+  db = getDatabase()
+): number {
+  const source = new FileSystemStorage(agelumPath);
+  if (!isDirectory(source, source.root)) {
+    throw new Error(`Not a directory: ${agelumPath}`);
+  }
+
+  return db.transaction(() => {
+    createStoredRepository(repo, db);
+    db.prepare('DELETE FROM entries WHERE repo = ?').run(repo);
+    return copyTree(source, new SqliteStorage(repo, db));
+  })();
+}
+
+/**
+ * Writes a stored repository's agelum folder to `agelumPath`. Files there are
+ * overwritten; files that only exist on disk are left alone.
+ */
+export function exportAgelumFolder(
+  repo: string,
+  agelumPath: string,
+  db = getDatabase()
+): number {
+  return copyTree(SqliteStorage.open(repo, db), new FileSystemStorage(agelumPath));
+}
@@ -0,0 +1,140 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+// --- Types ---
+
+export interface StorageEntry {
+  name: string;
+  kind: 'file' | 'directory';
+}
+
+export interface StorageStat {
+  kind: 'file' | 'directory';
+  mtime: Date;
+}
+
+/**
+ * Files and folders of one agelum folder. Every path is absolute and lies
+ * inside `root`; callers check that (see `DocumentStore.resolvePath`)
+ * before handing paths over.
+ */
+export interface StorageBackend {
+  /** Absolute path of the agelum folder; virtual for database backends */
+  readonly root: string;
+  stat(target: string): StorageStat | null;
+  /** Entries of a folder, or none when it does not exist */
+  list(dir: string): StorageEntry[];
+  readFile(file: string): string;
+  /** Creates missing parent folders */
+  writeFile(file: string, content: string): void;
+  mkdir(dir: string): void;
+  /** Moves a file or a whole folder; missing parent folders are created */
+  rename(from: string, to: string): void;
+  /** Removes a file or a folder with its contents; missing paths are ignored */
+  remove(target: string): void;
+  /** `target` with symlinks resolved, for escape checks */
+  realPath(target: string): string;
+}
+
+// --- Helpers ---
+
+export function exists(storage: StorageBackend, target: string): boolean {
+  return storage.stat(target) !== null;
+}
+
+export function isDirectory(storage: StorageBackend, target: string): boolean {
+  return storage.stat(target)?.kind === 'directory';
+}
+
+/**
+ * Copies every file and folder below `from.root` into `to`, keeping paths
+ * relative to the agelum folder. Returns the number of files copied.
+ */
+export function copyTree(from: StorageBackend, to: StorageBackend): number {
+  let copied = 0;
+  const walk = (dir: string) => {
+    const target = path.join(to.root, path.relative(from.root, dir));
+    to.mkdir(target);
+    for (const entry of from.list(dir)) {
+      const source = path.join(dir, entry.name);
+      if (entry.kind === 'directory') {
+        walk(source);
+      } else {
+        to.writeFile(path.join(target, entry.name), from.readFile(source));
+        copied++;
+      }
+    }
+  };
+  walk(from.root);
+  return copied;
+}
+
+// --- File system ---
+
+/**
+ * Follows symlinks in the deepest part of `target` that exists, so paths to
+ * files that are about to be created are checked too. Dangling links throw.
+ */
+function realPathOfExisting(target: string): string {
+  let current = target;
+  const missing: string[] = [];
+  while (!fs.lstatSync(current, { throwIfNoEntry: false })) {
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    missing.unshift(path.basename(current));
+    current = parent;
+  }
+  return path.join(fs.realpathSync(current), ...missing);
+}
+
+/** The agelum folder of a repository checkout on disk */
+export class FileSystemStorage implements StorageBackend {
+  readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  stat(target: string): StorageStat | null {
+    const stats = fs.statSync(target, { throwIfNoEntry: false });
+    if (!stats || !(stats.isFile() || stats.isDirectory())) return null;
+    return { kind: stats.isDirectory() ? 'directory' : 'file', mtime: stats.mtime };
+  }
+
+  list(dir: string): StorageEntry[] {
+    if (!fs.existsSync(dir)) return [];
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isFile() || entry.isDirectory())
+      .map((entry) => ({
+        name: entry.name,
+        kind: entry.isDirectory() ? 'directory' : 'file',
+      }));
+  }
+
+  readFile(file: string): string {
+    return fs.readFileSync(file, 'utf-8');
+  }
+
+  writeFile(file: string, content: string): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  mkdir(dir: string): void {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  rename(from: string, to: string): void {
+    fs.mkdirSync(path.dirname(to), { recursive: true });
+    fs.renameSync(from, to);
+  }
+
+  remove(target: string): void {
+    fs.rmSync(target, { recursive: true, force: true });
+  }
+
+  realPath(target: string): string {
+    return realPathOfExisting(target);
+  }
+}
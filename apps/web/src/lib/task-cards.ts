@@ -0,0 +1,85 @@
+import type {
+  KanbanAssignee,
+  KanbanCardType,
+  KanbanColumnColor,
+  KanbanLabel,
+} from '@agelum/kanban';
+
+const LABEL_COLORS: KanbanColumnColor[] = [
+  'blue',
+  'green',
+  'purple',
+  'orange',
+  'pink',
+  'teal',
+  'amber',
+  'cyan',
+];
+
+/**
+ * Task priorities are the numeric file name prefix, lowest first. Cards only
+ * have four levels, so the numbers are bucketed.
+ */
+export function toCardPriority(
+  priority?: number
+): KanbanCardType['priority'] {
+  if (priority === undefined) return undefined;
+  if (priority <= 1) return 'urgent';
+  if (priority <= 3) return 'high';
+  if (priority <= 6) return 'medium';
+  return 'low';
+}
+
+/** Labels keep the same color on every card by hashing their name */
+export function toKanbanLabels(labels: string[] = []): KanbanLabel[] {
+  return labels.map((name) => {
+    let hash = 0;
+    for (const char of name.toLowerCase()) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    return {
+      id: name,
+      name,
+      color: LABEL_COLORS[hash % LABEL_COLORS.length],
+    };
+  });
+}
+
+export function toEpicLabel(epic: string): KanbanLabel {
+  return { id: `epic:${epic}`, name: epic, color: 'indigo' };
+}
+
+/** `dependsOn` entries that match no task, so a typo doesn't go unnoticed */
+export function toMissingDependencyLabels(refs: string[] = []): KanbanLabel[] {
+  return refs.map((ref) => ({
+    id: `missing:${ref}`,
+    name: `Missing dependency: ${ref}`,
+    color: 'red',
+  }));
+}
+
+/**
+ * Looks an assignee up by id or name in the repository's users; unknown
+ * assignees still get an avatar with their initials.
+ */
+export function resolveAssignee(
+  assignee: string,
+  users: KanbanAssignee[]
+): KanbanAssignee {
+  const key = assignee.trim().toLowerCase();
+  return (
+    users.find(
+      (user) =>
+        user.id.toLowerCase() === key || user.name.toLowerCase() === key
+    ) ?? { id: assignee, name: assignee }
+  );
+}
+
+/** Due dates are stored as `YYYY-MM-DD` and mean local midnight */
+export function parseDueDate(value?: string): Date | undefined {
+  if (!value) return undefined;
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T00:00:00`)
+    : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,138 @@
+import type { DocumentEntry } from './document-store';
+import { WorkflowViolationError } from './workflow';
+
+// --- Types ---
+
+export interface TaskDependencies {
+  /** Ids of the tasks this one depends on */
+  dependsOn: string[];
+  /** `dependsOn` entries that match no task */
+  missing: string[];
+  /** Dependencies that aren't finished yet */
+  blockedBy: string[];
+  /** Ids of the tasks depending on this one */
+  blocks: string[];
+}
+
+/** Raised when `dependsOn` names unknown tasks or would create a cycle */
+export class DependencyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DependencyError';
+  }
+}
+
+/** Raised when a task with unfinished dependencies is started */
+export class BlockedTaskError extends WorkflowViolationError {
+  constructor(
+    readonly taskId: string,
+    readonly blockedBy: string[]
+  ) {
+    super(`${taskId} is blocked by: ${blockedBy.join(', ')}`);
+    this.name = 'BlockedTaskError';
+  }
+}
+
+// --- Helpers ---
+
+/** `dependsOn` references from a list or a comma separated string */
+export function toDependsOnRefs(value: unknown): string[] {
+  const refs = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+  return refs.map((ref) => String(ref).trim()).filter(Boolean);
+}
+
+/** Raw `dependsOn` entries of a task */
+export function getDependsOn(task: DocumentEntry): string[] {
+  return toDependsOnRefs(task.frontmatter.dependsOn);
+}
+
+/**
+ * Tasks are referenced by title, which survives priority and story point
+ * changes; file names (ids) are accepted too.
+ */
+export function findTask(
+  ref: string,
+  tasks: DocumentEntry[]
+): DocumentEntry | undefined {
+  const key = ref.trim().toLowerCase();
+  return (
+    tasks.find((task) => task.id.toLowerCase() === key) ??
+    tasks.find((task) => task.title.toLowerCase() === key)
+  );
+}
+
+export function buildDependencyGraph(
+  tasks: DocumentEntry[],
+  finalState: string
+): Map<string, TaskDependencies> {
+  const graph = new Map<string, TaskDependencies>();
+  for (const task of tasks) {
+    graph.set(task.id, { dependsOn: [], missing: [], blockedBy: [], blocks: [] });
+  }
+
+  for (const task of tasks) {
+    const node = graph.get(task.id)!;
+    for (const ref of getDependsOn(task)) {
+      const target = findTask(ref, tasks);
+      if (!target || target.id === task.id) {
+        node.missing.push(ref);
+        continue;
+      }
+      if (node.dependsOn.includes(target.id)) continue;
+      node.dependsOn.push(target.id);
+      graph.get(target.id)!.blocks.push(task.id);
+      if (target.state !== finalState) node.blockedBy.push(target.id);
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Resolves the `dependsOn` entries for `task` to task titles, rejecting
+ * unknown tasks, self references and cycles.
+ */
+export function validateDependsOn(
+  task: DocumentEntry,
+  refs: string[],
+  tasks: DocumentEntry[]
+): string[] {
+  const targets = refs.map((ref) => {
+    const target = findTask(ref, tasks);
+    if (!target) throw new DependencyError(`Unknown task: ${ref}`);
+    if (target.path === task.path) {
+      throw new DependencyError('A task cannot depend on itself');
+    }
+    return target;
+  });
+
+  // Walk the existing dependencies of each target looking for the task
+  const edges = new Map(
+    tasks.map((entry) => [
+      entry.path,
+      getDependsOn(entry)
+        .map((ref) => findTask(ref, tasks))
+        .filter((dep): dep is DocumentEntry => dep !== undefined),
+    ])
+  );
+  const visited = new Set<string>();
+  const visit = (current: DocumentEntry, trail: string[]): void => {
+    if (current.path === task.path) {
+      throw new DependencyError(
+        `Dependency cycle: ${[task.title, ...trail].join(' -> ')}`
+      );
+    }
+    if (visited.has(current.path)) return;
+    visited.add(current.path);
+    for (const dep of edges.get(current.path) ?? []) {
+      visit(dep, [...trail, dep.title]);
+    }
+  };
+  for (const target of targets) visit(target, [target.title]);
+
+  return Array.from(new Set(targets.map((target) => target.title)));
+}
@@ -0,0 +1,29 @@
+import type { Theme } from './config';
+
+/**
+ * The `dark` class switches the Tailwind color tokens; `data-color-mode`
+ * does the same for the markdown editor and preview.
+ */
+function setDark(dark: boolean) {
+  const root = document.documentElement;
+  root.classList.toggle('dark', dark);
+  root.dataset.colorMode = dark ? 'dark' : 'light';
+}
+
+/**
+ * Switches the document between the dark and light palettes. `system`
+ * follows the OS setting until the returned cleanup runs; no theme keeps
+ * the app dark.
+ */
+export function applyTheme(theme: Theme = 'dark'): () => void {
+  if (theme !== 'system') {
+    setDark(theme === 'dark');
+    return () => {};
+  }
+
+  const query = window.matchMedia('(prefers-color-scheme: dark)');
+  const update = () => setDark(query.matches);
+  update();
+  query.addEventListener('change', update);
+  return () => query.removeEventListener('change', update);
+}
@@ -0,0 +1,151 @@
+import path from 'node:path';
+import { exists, type StorageBackend } from './storage';
+
+export type RemovalArea = 'trash' | 'archive';
+
+export interface RemovedEntry {
+  id: string;
+  area: RemovalArea;
+  name: string;
+  kind: 'file' | 'directory';
+  originalPath: string;
+  removedAt: string;
+}
+
+const AREA_DIRS: Record<RemovalArea, string> = {
+  trash: '.trash',
+  archive: 'archive',
+};
+
+const REMOVAL_AREAS = Object.keys(AREA_DIRS) as RemovalArea[];
+
+const META_FILE = 'meta.json';
+
+function getAreaPath(agelumPath: string, area: RemovalArea): string {
+  return path.join(agelumPath, AREA_DIRS[area]);
+}
+
+function isInside(parent: string, child: string): boolean {
+  const relative = path.relative(parent, child);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Moves a file or folder into `agelum/.trash` (or `agelum/archive`) next to a
+ * `meta.json` recording where it came from, so it can be restored later.
+ */
+export function moveToArea(
+  storage: StorageBackend,
+  targetPath: string,
+  area: RemovalArea
+): RemovedEntry {
+  const root = storage.root;
+  const resolved = path.resolve(targetPath);
+
+  if (!isInside(root, resolved)) {
+    throw new Error(`Path is outside the agelum folder: ${targetPath}`);
+  }
+  const stat = storage.stat(resolved);
+  if (!stat) {
+    throw new Error(`Path does not exist: ${targetPath}`);
+  }
+
+  const areaPath = getAreaPath(root, area);
+  if (resolved === areaPath || isInside(areaPath, resolved)) {
+    throw new Error(`Path is already in ${AREA_DIRS[area]}: ${targetPath}`);
+  }
+
+  const name = path.basename(resolved);
+  const removedAt = new Date().toISOString();
+  const id = `${Date.now()}-${name.replace(/[^\w.-]+/g, '-')}`;
+  const entryDir = path.join(areaPath, id);
+
+  const entry: RemovedEntry = {
+    id,
+    area,
+    name,
+    kind: stat.kind,
+    originalPath: path.relative(root, resolved),
+    removedAt,
+  };
+
+  storage.rename(resolved, path.join(entryDir, name));
+  storage.writeFile(
+    path.join(entryDir, META_FILE),
+    JSON.stringify(entry, null, 2)
+  );
+
+  return entry;
+}
+
+function readEntry(
+  storage: StorageBackend,
+  entryDir: string
+): RemovedEntry | null {
+  try {
+    const raw = storage.readFile(path.join(entryDir, META_FILE));
+    return JSON.parse(raw) as RemovedEntry;
+  } catch {
+    return null;
+  }
+}
+
+export function listRemoved(
+  storage: StorageBackend,
+  area?: RemovalArea
+): RemovedEntry[] {
+  const areas = area ? [area] : REMOVAL_AREAS;
+  const entries: RemovedEntry[] = [];
+
+  for (const current of areas) {
+    const areaPath = getAreaPath(storage.root, current);
+
+    for (const item of storage.list(areaPath)) {
+      if (item.kind !== 'directory') continue;
+      const entry = readEntry(storage, path.join(areaPath, item.name));
+      if (entry) entries.push({ ...entry, area: current });
+    }
+  }
+
+  return entries.sort((a, b) => b.removedAt.localeCompare(a.removedAt));
+}
+
+/**
+ * Moves a trashed or archived item back to its original location. `resolveTarget`
+ * lets callers apply a stricter check (e.g. symlinks) to the restore path.
+ */
+export function restoreRemoved(
+  storage: StorageBackend,
+  id: string,
+  area?: RemovalArea,
+  resolveTarget?: (originalPath: string) => string
+): { from: string; to: string } {
+  const root = storage.root;
+  const areas = area ? [area] : REMOVAL_AREAS;
+
+  for (const current of areas) {
+    const entryDir = path.join(getAreaPath(root, current), id);
+    if (!isInside(getAreaPath(root, current), entryDir)) continue;
+
+    const entry = readEntry(storage, entryDir);
+    if (!entry) continue;
+
+    const from = path.join(entryDir, entry.name);
+    const to = resolveTarget
+      ? resolveTarget(entry.originalPath)
+      : path.resolve(root, entry.originalPath);
+    if (!isInside(root, to)) {
+      throw new Error(`Invalid original path: ${entry.originalPath}`);
+    }
+    if (exists(storage, to)) {
+      throw new Error(`Target already exists: ${to}`);
+    }
+
+    storage.rename(from, to);
+    storage.remove(entryDir);
+
+    return { from, to };
+  }
+
+  throw new Error(`Removed item not found: ${id}`);
+}
@@ -0,0 +1,121 @@
+import {
+  useCallback,
+  useRef,
+  type Dispatch,
+  type SetStateAction,
+} from 'react';
+import type { StatefulType } from './workflow';
+
+interface BoardItem {
+  id: string;
+  state: string;
+}
+
+interface BoardOrderingOptions<T extends BoardItem> {
+  repo: string;
+  setItems: Dispatch<SetStateAction<T[]>>;
+  /** Bumped to reload the board once the server has answered */
+  setRefreshKey: Dispatch<SetStateAction<number>>;
+}
+
+/**
+ * Card move and reorder handlers for a kanban board backed by one of the
+ * list routes (`/api/tasks`, `/api/epics`, `/api/ideas`).
+ */
+export function useBoardOrdering<T extends BoardItem>(
+  endpoint: string,
+  type: StatefulType,
+  { repo, setItems, setRefreshKey }: BoardOrderingOptions<T>
+) {
+  // A drop into another column reports the move and then the column order;
+  // the order can only be saved once the file is in its new state folder
+  const pendingMove = useRef<Promise<boolean>>(Promise.resolve(true));
+
+  const post = useCallback(
+    (body: Record<string, unknown>) =>
+      fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ repo, ...body }),
+      }),
+    [endpoint, repo]
+  );
+
+  const moveCard = useCallback(
+    async (cardId: string, fromState: string, toState: string) => {
+      setItems((prev) =>
+        prev.map((item) =>
+          item.id === cardId ? { ...item, state: toState } : item
+        )
+      );
+      const refresh = () => setRefreshKey((k) => k + 1);
+
+      const move = (force: boolean) =>
+        post({
+          action: 'move',
+          [`${type}Id`]: cardId,
+          fromState,
+          toState,
+          ...(force && { force }),
+        });
+
+      // Nobody awaits the drag callbacks, so failures are reported here and
+      // the reload puts the card back
+      try {
+        let res = await move(false);
+        if (res.status === 409) {
+          const data = await res.json();
+          // Starting a task with unfinished dependencies needs a confirmation;
+          // other workflow rules (transitions, WIP limits) just reject the move
+          if (!data.blockedBy || !window.confirm(`${data.error}\n\nStart it anyway?`)) {
+            if (!data.blockedBy) window.alert(data.error);
+            return false;
+          }
+          res = await move(true);
+        }
+
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || `Failed to move ${type}`);
+        }
+        return true;
+      } catch (error) {
+        window.alert(error instanceof Error ? error.message : `Failed to move ${type}`);
+        return false;
+      } finally {
+        refresh();
+      }
+    },
+    [post, type, setItems, setRefreshKey]
+  );
+
+  const handleCardMove = useCallback(
+    (cardId: string, fromState: string, toState: string) => {
+      pendingMove.current = moveCard(cardId, fromState, toState);
+    },
+    [moveCard]
+  );
+
+  const handleCardReorder = useCallback(
+    async (state: string, ids: string[]) => {
+      const pending = pendingMove.current;
+      pendingMove.current = Promise.resolve(true);
+      if (!(await pending)) return;
+
+      try {
+        const res = await post({ action: 'reorder', state, ids });
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || `Failed to reorder ${type}s`);
+        }
+      } catch (error) {
+        window.alert(error instanceof Error ? error.message : `Failed to reorder ${type}s`);
+      } finally {
+        setRefreshKey((k) => k + 1);
+      }
+    },
+    [post, type, setRefreshKey]
+  );
+
+  return { handleCardMove, handleCardReorder };
+}
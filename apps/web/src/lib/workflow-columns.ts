@@ -0,0 +1,15 @@
+import type { KanbanColumnColor, KanbanColumnType } from '@agelum/kanban';
+import type { WorkflowState } from './workflow';
+
+/**
+ * Maps the workflow states returned by the list routes to kanban columns.
+ */
+export function toKanbanColumns(states: WorkflowState[] = []): KanbanColumnType[] {
+  return states.map((state, index) => ({
+    id: state.id,
+    title: state.title,
+    color: state.color as KanbanColumnColor | undefined,
+    order: index,
+    ...(state.wipLimit !== undefined && { wipLimit: state.wipLimit }),
+  }));
+}
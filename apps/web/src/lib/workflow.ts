@@ -0,0 +1,226 @@
+import path from 'node:path';
+import { z } from 'zod';
+import { exists, type StorageBackend } from './storage';
+
+// --- Types & Constants ---
+
+// Types whose files live under a `<state>/` subfolder
+export type StatefulType = 'task' | 'epic' | 'idea';
+export const STATEFUL_TYPES: StatefulType[] = ['task', 'epic', 'idea'];
+
+export const WORKFLOW_FILE = path.join('config', 'workflow.json');
+
+export interface WorkflowState {
+  id: string;
+  title: string;
+  color?: string;
+  /** Maximum number of documents allowed in the state */
+  wipLimit?: number;
+}
+
+export interface TypeWorkflow {
+  states: WorkflowState[];
+  /** State new documents start in */
+  initial: string;
+  /** Allowed target states per source state; any move is allowed when omitted */
+  transitions?: Record<string, string[]>;
+}
+
+export type Workflow = Record<StatefulType, TypeWorkflow>;
+
+const BOARD_STATES: WorkflowState[] = [
+  { id: 'backlog', title: 'Backlog', color: 'gray' },
+  { id: 'priority', title: 'Priority', color: 'red' },
+  { id: 'pending', title: 'Pending', color: 'yellow' },
+  { id: 'doing', title: 'Doing', color: 'blue' },
+  { id: 'done', title: 'Done', color: 'green' },
+];
+
+export const DEFAULT_WORKFLOW: Workflow = {
+  task: { states: BOARD_STATES, initial: 'pending' },
+  epic: { states: BOARD_STATES, initial: 'backlog' },
+  idea: {
+    states: [
+      { id: 'thinking', title: 'Thinking', color: 'purple' },
+      { id: 'important', title: 'Important', color: 'orange' },
+      { id: 'priority', title: 'Priority', color: 'red' },
+      { id: 'planned', title: 'Planned', color: 'blue' },
+      { id: 'done', title: 'Done', color: 'green' },
+    ],
+    initial: 'thinking',
+  },
+};
+
+/**
+ * Raised when a move breaks the workflow rules (a transition that isn't
+ * allowed or a state that is already at its WIP limit).
+ */
+export class WorkflowViolationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowViolationError';
+  }
+}
+
+// --- Schema ---
+
+const workflowStateSchema = z.union([
+  z.string(),
+  z.object({
+    id: z.string(),
+    title: z.string().min(1).optional(),
+    color: z.string().optional(),
+    wipLimit: z.number().int().nonnegative().optional(),
+  }),
+]);
+
+const typeWorkflowSchema = z
+  .object({
+    states: z.array(workflowStateSchema).min(1),
+    initial: z.string().optional(),
+    transitions: z.record(z.string(), z.array(z.string())).optional(),
+  })
+  .superRefine((value, ctx) => {
+    const ids = value.states.map((state) =>
+      typeof state === 'string' ? state : state.id
+    );
+    ids.forEach((id, index) => {
+      // State ids become folder names
+      if (!/^[\w-]+$/.test(id)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['states', index],
+          message: `Invalid state id: ${id} (use letters, digits, - and _)`,
+        });
+      } else if (ids.indexOf(id) !== index) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['states', index],
+          message: `Duplicate state: ${id}`,
+        });
+      }
+    });
+    if (value.initial && !ids.includes(value.initial)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['initial'],
+        message: `Unknown initial state: ${value.initial}`,
+      });
+    }
+    for (const [from, targets] of Object.entries(value.transitions ?? {})) {
+      for (const state of [from, ...targets]) {
+        if (!ids.includes(state)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['transitions', from],
+            message: `Unknown state in transitions: ${state}`,
+          });
+        }
+      }
+    }
+  });
+
+const workflowFileSchema = z.object({
+  task: typeWorkflowSchema.optional(),
+  epic: typeWorkflowSchema.optional(),
+  idea: typeWorkflowSchema.optional(),
+});
+
+// --- Helpers ---
+
+function toTitle(id: string): string {
+  const words = id.replace(/[-_]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function toTypeWorkflow(
+  value: z.infer<typeof typeWorkflowSchema>
+): TypeWorkflow {
+  const states = value.states.map((state): WorkflowState => {
+    if (typeof state === 'string') return { id: state, title: toTitle(state) };
+    return {
+      id: state.id,
+      title: state.title ?? toTitle(state.id),
+      ...(state.color && { color: state.color }),
+      ...(state.wipLimit !== undefined && { wipLimit: state.wipLimit }),
+    };
+  });
+  return {
+    states,
+    initial: value.initial ?? states[0].id,
+    ...(value.transitions && { transitions: value.transitions }),
+  };
+}
+
+/**
+ * Reads `agelum/config/workflow.json`. Types missing from the file keep the
+ * default states; states may be plain ids or `{ id, title, color, wipLimit }`
+ * objects.
+ */
+export function loadWorkflow(storage: StorageBackend): Workflow {
+  const filePath = path.join(storage.root, WORKFLOW_FILE);
+  if (!exists(storage, filePath)) return DEFAULT_WORKFLOW;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(storage.readFile(filePath));
+  } catch (error) {
+    throw new Error(
+      `Invalid ${WORKFLOW_FILE}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const result = workflowFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid ${WORKFLOW_FILE}: ${issues}`);
+  }
+
+  const workflow = { ...DEFAULT_WORKFLOW };
+  for (const type of STATEFUL_TYPES) {
+    const value = result.data[type];
+    if (value) workflow[type] = toTypeWorkflow(value);
+  }
+  return workflow;
+}
+
+export function getStateIds(workflow: Workflow, type: StatefulType): string[] {
+  return workflow[type].states.map((state) => state.id);
+}
+
+/** Every state used by any type, in board order */
+export function getAllStateIds(workflow: Workflow): string[] {
+  return Array.from(
+    new Set(STATEFUL_TYPES.flatMap((type) => getStateIds(workflow, type)))
+  );
+}
+
+export function getWorkflowState(
+  workflow: Workflow,
+  type: StatefulType,
+  state: string
+): WorkflowState | undefined {
+  return workflow[type].states.find((s) => s.id === state);
+}
+
+/**
+ * States without an entry in `transitions` can move anywhere, so a workflow
+ * only needs to list the states it wants to restrict.
+ */
+export function canTransition(
+  workflow: Workflow,
+  type: StatefulType,
+  from: string,
+  to: string
+): boolean {
+  const targets = workflow[type].transitions?.[from];
+  return !targets || targets.includes(to);
+}
+
+/** The last state of a type's workflow counts as finished */
+export function getFinalState(workflow: Workflow, type: StatefulType): string {
+  const { states } = workflow[type];
+  return states[states.length - 1].id;
+}
@@ -0,0 +1,165 @@
+import {
+  AGELUM_PATH,
+  ESCAPES,
+  REPO,
+  SECRET,
+  SECRET_FILE,
+  OUTSIDE_PATH,
+  createFixture,
+  query,
+  removeFixture,
+  request,
+} from './fixture';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import * as fileRoute from '../src/app/api/file/route';
+import * as filesRoute from '../src/app/api/files/route';
+import * as trashRoute from '../src/app/api/trash/route';
+
+before(createFixture);
+after(removeFixture);
+
+describe('/api/file', () => {
+  test('reads files inside the agelum folder', async () => {
+    const res = await fileRoute.GET(
+      request(`/api/file?${query({ repo: REPO, path: 'docs/readme.md' })}`)
+    );
+    assert.equal(res.status, 200);
+    assert.equal((await res.json()).content, '# Readme\n');
+  });
+
+  for (const [name, escape] of Object.entries(ESCAPES)) {
+    test(`GET rejects ${name} escapes`, async () => {
+      const res = await fileRoute.GET(
+        request(`/api/file?${query({ repo: REPO, path: escape })}`)
+      );
+      assert.equal(res.status, 403);
+      assert.notEqual((await res.json()).content, SECRET);
+    });
+
+    test(`POST rejects ${name} escapes`, async () => {
+      const res = await fileRoute.POST(
+        request('/api/file', {
+          method: 'POST',
+          body: { repo: REPO, path: escape, content: 'overwritten' },
+        })
+      );
+      assert.equal(res.status, 403);
+      assert.equal(fs.readFileSync(SECRET_FILE, 'utf-8'), SECRET);
+    });
+
+    test(`DELETE rejects ${name} escapes`, async () => {
+      const res = await fileRoute.DELETE(
+        request(`/api/file?${query({ repo: REPO, path: escape })}`, {
+          method: 'DELETE',
+        })
+      );
+      assert.equal(res.status, 403);
+      assert.ok(fs.existsSync(SECRET_FILE));
+    });
+  }
+
+  test('POST does not create files outside through a parent path', async () => {
+    const res = await fileRoute.POST(
+      request('/api/file', {
+        method: 'POST',
+        body: { repo: REPO, path: '../../../outside/new.md', content: 'new' },
+      })
+    );
+    assert.equal(res.status, 403);
+    assert.ok(!fs.existsSync(path.join(OUTSIDE_PATH, 'new.md')));
+  });
+});
+
+describe('/api/files', () => {
+  test('lists the tree without following symlinks', async () => {
+    const res = await filesRoute.GET(
+      request(`/api/files?${query({ repo: REPO, path: 'docs' })}`)
+    );
+    assert.equal(res.status, 200);
+    const { tree } = await res.json();
+    const names = tree.children.map((child: { name: string }) => child.name);
+    assert.deepEqual(names, ['readme.md']);
+  });
+
+  for (const [name, escape] of Object.entries({
+    parent: '../../../outside',
+    absolute: OUTSIDE_PATH,
+    symlinkFolder: 'docs/link',
+  })) {
+    test(`rejects ${name} escapes`, async () => {
+      const res = await filesRoute.GET(
+        request(`/api/files?${query({ repo: REPO, path: escape })}`)
+      );
+      assert.equal(res.status, 403);
+      assert.equal((await res.json()).tree, null);
+    });
+  }
+});
+
+describe('/api/trash', () => {
+  /** A trash entry whose meta.json points the restore somewhere else */
+  const plantEntry = (id: string, originalPath: string) => {
+    const entryDir = path.join(AGELUM_PATH, '.trash', id);
+    fs.mkdirSync(entryDir, { recursive: true });
+    fs.writeFileSync(path.join(entryDir, 'planted.md'), 'planted');
+    fs.writeFileSync(
+      path.join(entryDir, 'meta.json'),
+      JSON.stringify({
+        id,
+        area: 'trash',
+        name: 'planted.md',
+        kind: 'file',
+        originalPath,
+        removedAt: new Date().toISOString(),
+      })
+    );
+    return path.join(entryDir, 'planted.md');
+  };
+
+  const restore = (id: string) =>
+    trashRoute.POST(
+      request('/api/trash', {
+        method: 'POST',
+        body: { repo: REPO, action: 'restore', id },
+      })
+    );
+
+  for (const [name, originalPath] of Object.entries({
+    parent: '../../../outside/planted.md',
+    absolute: path.join(OUTSIDE_PATH, 'planted.md'),
+    symlinkFolder: 'docs/link/planted.md',
+  })) {
+    test(`restore rejects ${name} escapes`, async () => {
+      const planted = plantEntry(`escape-${name}`, originalPath);
+      const res = await restore(`escape-${name}`);
+      assert.equal(res.status, 403);
+      assert.ok(fs.existsSync(planted));
+      assert.ok(!fs.existsSync(path.join(OUTSIDE_PATH, 'planted.md')));
+    });
+  }
+
+  test('restore ignores ids outside the trash folder', async () => {
+    const res = await restore('../../docs');
+    assert.notEqual(res.status, 200);
+    assert.ok(fs.existsSync(path.join(AGELUM_PATH, 'docs', 'readme.md')));
+  });
+
+  test('restores entries back into the agelum folder', async () => {
+    const planted = plantEntry('inside', 'docs/restored.md');
+    const res = await restore('inside');
+    assert.equal(res.status, 200);
+    assert.ok(!fs.existsSync(planted));
+    assert.ok(fs.existsSync(path.join(AGELUM_PATH, 'docs', 'restored.md')));
+  });
+
+  test('lists unknown repositories as not found', async () => {
+    const res = await trashRoute.GET(
+      request(`/api/trash?${query({ repo: 'missing' })}`)
+    );
+    assert.equal(res.status, 404);
+    assert.deepEqual((await res.json()).entries, []);
+  });
+});
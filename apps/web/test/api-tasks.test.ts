@@ -0,0 +1,40 @@
+import { REPO, createFixture, query, removeFixture, request } from './fixture';
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import * as tasksRoute from '../src/app/api/tasks/route';
+
+before(createFixture);
+after(removeFixture);
+
+const post = async (body: Record<string, unknown>) => {
+  const res = await tasksRoute.POST(
+    request('/api/tasks', { method: 'POST', body: { repo: REPO, ...body } })
+  );
+  return { status: res.status, data: await res.json() };
+};
+
+async function listTasks() {
+  const res = await tasksRoute.GET(request(`/api/tasks?${query({ repo: REPO })}`));
+  return (await res.json()).tasks as { id: string; description: string }[];
+}
+
+describe('/api/tasks', () => {
+  test('reads and updates the description the task was created with', async () => {
+    const created = await post({
+      action: 'create',
+      data: { title: 'Write docs', description: 'First draft' },
+    });
+    assert.equal(created.status, 200);
+    const { task } = created.data;
+    assert.equal(task.description, 'First draft');
+    assert.equal((await listTasks()).find((t) => t.id === task.id)?.description, 'First draft');
+
+    const updated = await post({
+      action: 'update',
+      path: task.path,
+      data: { description: 'Second draft' },
+    });
+    assert.equal(updated.data.task.description, 'Second draft');
+    assert.equal((await listTasks()).find((t) => t.id === task.id)?.description, 'Second draft');
+  });
+});
@@ -0,0 +1,40 @@
+import { AGELUM_PATH, REPO, createFixture, query, removeFixture, request } from './fixture';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import * as usersRoute from '../src/app/api/users/route';
+
+before(createFixture);
+after(removeFixture);
+
+const getUsers = (repo: string) =>
+  usersRoute.GET(request(`/api/users?${query({ repo })}`));
+
+describe('/api/users', () => {
+  test('reads no users without creating the config file', async () => {
+    const res = await getUsers(REPO);
+    assert.equal(res.status, 200);
+    assert.deepEqual((await res.json()).users, []);
+    assert.ok(!fs.existsSync(path.join(AGELUM_PATH, 'config', 'users.json')));
+  });
+
+  test('resolves plain names and user objects', async () => {
+    fs.mkdirSync(path.join(AGELUM_PATH, 'config'), { recursive: true });
+    fs.writeFileSync(
+      path.join(AGELUM_PATH, 'config', 'users.json'),
+      JSON.stringify({ users: ['ana', { id: 'bo', name: 'Bo', avatar: '/bo.png' }, ''] })
+    );
+    const res = await getUsers(REPO);
+    assert.deepEqual((await res.json()).users, [
+      { id: 'ana', name: 'ana' },
+      { id: 'bo', name: 'Bo', avatar: '/bo.png' },
+    ]);
+  });
+
+  test('lists unknown repositories as not found', async () => {
+    const res = await getUsers('missing');
+    assert.equal(res.status, 404);
+    assert.deepEqual((await res.json()).users, []);
+  });
+});
@@ -0,0 +1,64 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Imported before the app modules: config.ts reads HOME when it loads
+const TMP = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'agelum-test-')));
+process.env.HOME = path.join(TMP, 'home');
+
+export const REPO = 'demo';
+export const REPO_PATH = path.join(TMP, 'git', REPO);
+export const AGELUM_PATH = path.join(REPO_PATH, 'agelum');
+
+/** A folder next to the repository that no path may reach */
+export const OUTSIDE_PATH = path.join(TMP, 'outside');
+export const SECRET_FILE = path.join(OUTSIDE_PATH, 'secret.md');
+export const SECRET = 'outside the repository';
+
+/**
+ * A registered repository with `docs/readme.md` and two symlinks that lead
+ * out of its agelum folder: `docs/link` (a folder) and `docs/secret.md`.
+ */
+export function createFixture(): void {
+  fs.mkdirSync(path.join(process.env.HOME!, '.agelum'), { recursive: true });
+  fs.writeFileSync(
+    path.join(process.env.HOME!, '.agelum', 'config.json'),
+    JSON.stringify({ repositories: [{ name: REPO, path: REPO_PATH }] })
+  );
+
+  fs.mkdirSync(path.join(AGELUM_PATH, 'docs'), { recursive: true });
+  fs.writeFileSync(path.join(AGELUM_PATH, 'docs', 'readme.md'), '# Readme\n');
+  fs.mkdirSync(OUTSIDE_PATH, { recursive: true });
+  fs.writeFileSync(SECRET_FILE, SECRET);
+  fs.symlinkSync(OUTSIDE_PATH, path.join(AGELUM_PATH, 'docs', 'link'));
+  fs.symlinkSync(SECRET_FILE, path.join(AGELUM_PATH, 'docs', 'secret.md'));
+}
+
+export function removeFixture(): void {
+  fs.rmSync(TMP, { recursive: true, force: true });
+}
+
+/** Paths that must be rejected, relative to the agelum folder */
+export const ESCAPES = {
+  parent: '../../../outside/secret.md',
+  absolute: SECRET_FILE,
+  symlinkFolder: 'docs/link/secret.md',
+  symlinkFile: 'docs/secret.md',
+};
+
+export function request(
+  url: string,
+  init: { method?: string; body?: unknown } = {}
+): Request {
+  return new Request(`http://localhost${url}`, {
+    method: init.method ?? 'GET',
+    ...(init.body !== undefined && {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(init.body),
+    }),
+  });
+}
+
+export function query(params: Record<string, string>): string {
+  return new URLSearchParams(params).toString();
+}
@@ -0,0 +1,57 @@
+import { ESCAPES, REPO, SECRET, createFixture, removeFixture } from './fixture';
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createAgelumMcpServer } from '../src/lib/mcp';
+
+const client = new Client({ name: 'agelum-test', version: '0.0.0' });
+
+before(async () => {
+  createFixture();
+  const server = createAgelumMcpServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  await client.callTool({ name: 'select_repository', arguments: { repo: REPO } });
+});
+
+after(async () => {
+  await client.close();
+  removeFixture();
+});
+
+/** Percent-encodes each segment the way `toResourceUri` does */
+function toUri(relative: string): string {
+  return `agelum://${relative.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+const ESCAPE_URIS = {
+  ...Object.fromEntries(
+    Object.entries(ESCAPES).map(([name, escape]) => [name, toUri(escape)])
+  ),
+  // `%2F` decodes inside a single segment
+  encodedSlashes: `agelum://${encodeURIComponent(ESCAPES.parent)}`,
+};
+
+describe('MCP resources', () => {
+  test('reads documents inside the agelum folder', async () => {
+    const result = await client.readResource({ uri: toUri('docs/readme.md') });
+    assert.deepEqual(result.contents, [
+      { uri: toUri('docs/readme.md'), mimeType: 'text/markdown', text: '# Readme\n' },
+    ]);
+  });
+
+  for (const [name, uri] of Object.entries(ESCAPE_URIS)) {
+    test(`read rejects ${name} escapes`, async () => {
+      await assert.rejects(client.readResource({ uri }), (error: Error) => {
+        assert.ok(!error.message.includes(SECRET));
+        return true;
+      });
+    });
+
+    test(`subscribe rejects ${name} escapes`, async () => {
+      await assert.rejects(client.subscribeResource({ uri }));
+    });
+  }
+});
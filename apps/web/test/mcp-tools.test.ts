@@ -0,0 +1,105 @@
+import {
+  AGELUM_PATH,
+  OUTSIDE_PATH,
+  REPO,
+  SECRET,
+  SECRET_FILE,
+  createFixture,
+  removeFixture,
+} from './fixture';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createAgelumMcpServer } from '../src/lib/mcp';
+
+const client = new Client({ name: 'agelum-test', version: '0.0.0' });
+
+before(async () => {
+  createFixture();
+  // A task file and an epic folder that lead out of the repository
+  const pending = path.join(AGELUM_PATH, 'tasks', 'pending');
+  fs.mkdirSync(pending, { recursive: true });
+  fs.symlinkSync(SECRET_FILE, path.join(pending, 'leak.md'));
+  fs.symlinkSync(OUTSIDE_PATH, path.join(pending, 'ext'));
+
+  const server = createAgelumMcpServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  await client.callTool({ name: 'select_repository', arguments: { repo: REPO } });
+});
+
+after(async () => {
+  await client.close();
+  removeFixture();
+});
+
+async function call(name: string, args: Record<string, unknown>) {
+  const result = await client.callTool({ name, arguments: args });
+  const [content] = result.content as { type: 'text'; text: string }[];
+  return { isError: result.isError === true, text: content.text };
+}
+
+/** Locators that must not reach `SECRET_FILE` */
+const ESCAPES: Record<string, Record<string, unknown>> = {
+  symlinkFile: { type: 'doc', fileName: 'secret.md' },
+  symlinkFolder: { type: 'doc', fileName: 'link/secret.md' },
+  parentFileName: { type: 'doc', fileName: '../../../outside/secret.md' },
+  absoluteFileName: { type: 'doc', fileName: SECRET_FILE },
+  absolutePath: { path: SECRET_FILE },
+  symlinkTask: { type: 'task', state: 'pending', fileName: 'leak' },
+  symlinkEpic: { type: 'task', epic: 'ext', fileName: 'secret' },
+};
+
+describe('MCP tools', () => {
+  test('read finds documents by type and file name', async () => {
+    const result = await call('read', { type: 'doc', fileName: 'readme' });
+    assert.equal(result.isError, false);
+    assert.equal(JSON.parse(result.text).body.trim(), '# Readme');
+  });
+
+  for (const [name, locator] of Object.entries(ESCAPES)) {
+    for (const tool of ['get', 'read']) {
+      test(`${tool} rejects ${name} escapes`, async () => {
+        const result = await call(tool, locator);
+        assert.equal(result.isError, true);
+        assert.ok(!result.text.includes(SECRET));
+      });
+    }
+
+    test(`update rejects ${name} escapes`, async () => {
+      const result = await call('update', { ...locator, append: 'overwritten' });
+      assert.equal(result.isError, true);
+      assert.equal(fs.readFileSync(SECRET_FILE, 'utf-8'), SECRET);
+    });
+
+    for (const tool of ['delete', 'archive']) {
+      test(`${tool} rejects ${name} escapes`, async () => {
+        const result = await call(tool, locator);
+        assert.equal(result.isError, true);
+        assert.ok(fs.existsSync(SECRET_FILE));
+      });
+    }
+  }
+
+  for (const [name, args] of Object.entries({
+    symlinkTask: { fileName: 'leak' },
+    symlinkEpic: { fileName: 'secret', epic: 'ext' },
+    parentFileName: { fileName: '../../../../outside/secret' },
+  })) {
+    test(`move rejects ${name} escapes`, async () => {
+      const result = await call('move', {
+        type: 'task',
+        fromState: 'pending',
+        toState: 'doing',
+        ...args,
+      });
+      assert.equal(result.isError, true);
+      assert.ok(fs.existsSync(SECRET_FILE));
+      assert.ok(!fs.existsSync(path.join(AGELUM_PATH, 'tasks', 'doing', 'leak.md')));
+    });
+  }
+});
@@ -0,0 +1,75 @@
+import { REPO, createFixture, removeFixture } from './fixture';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { getRepoDocumentStore, type DocumentStore } from '../src/lib/document-store';
+import { BlockedTaskError, DependencyError } from '../src/lib/task-dependencies';
+
+let store: DocumentStore;
+
+before(() => {
+  createFixture();
+  store = getRepoDocumentStore(REPO);
+});
+after(removeFixture);
+
+function createTask(title: string, state = 'pending') {
+  return store.create({ type: 'task', title, state, fileName: title });
+}
+
+const move = (fileName: string, fromState: string, toState: string) =>
+  store.move({ type: 'task', fileName, fromState, toState });
+
+describe('task dependencies', () => {
+  test('update rejects unknown tasks and cycles in dependsOn', () => {
+    const a = createTask('a');
+    const b = createTask('b');
+    store.update(b.path, { frontmatter: { dependsOn: ['a'] } });
+
+    assert.throws(
+      () => store.update(a.path, { frontmatter: { dependsOn: ['missing'] } }),
+      DependencyError
+    );
+    assert.throws(
+      () => store.update(a.path, { frontmatter: { dependsOn: 'b' } }),
+      DependencyError
+    );
+    assert.equal(store.read(a.path, 'task').frontmatter.dependsOn, undefined);
+  });
+
+  test('setFields validates dependsOn and clears it with an empty list', () => {
+    const task = createTask('c');
+    assert.throws(
+      () => store.setFields(task.path, { dependsOn: ['missing'] }),
+      DependencyError
+    );
+    store.setFields(task.path, { dependsOn: ['a'] });
+    store.setFields(task.path, { dependsOn: [] });
+    assert.deepEqual(store.read(task.path, 'task').frontmatter.dependsOn ?? [], []);
+  });
+
+  test('only starting a blocked task is rejected', () => {
+    createTask('dep');
+    const task = createTask('blocked', 'doing');
+    store.update(task.path, { frontmatter: { dependsOn: ['dep'] } });
+
+    // Already started: finishing it or sending it back is allowed
+    move('blocked', 'doing', 'done');
+    move('blocked', 'done', 'pending');
+    assert.throws(() => move('blocked', 'pending', 'doing'), BlockedTaskError);
+
+    move('dep', 'pending', 'done');
+    move('blocked', 'pending', 'doing');
+  });
+
+  test('reports dependencies that match no task', () => {
+    const task = createTask('dangling');
+    // Edited by hand, so it skipped validation
+    store.storage.writeFile(
+      task.path,
+      '---\ntitle: dangling\ntype: task\nstate: pending\ndependsOn: [a, gone]\n---\n'
+    );
+    const graph = store.dependencyGraph();
+    assert.deepEqual(graph.get(path.basename(task.path, '.md'))?.missing, ['gone']);
+  });
+});
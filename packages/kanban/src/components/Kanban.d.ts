@@ -1,4 +1,4 @@
 import type { KanbanBoardProps } from '@/types';
-export declare function KanbanBoard({ columns, cards, onCardMove, onCardClick, onCardEdit, onCardDelete, onAddCard, onColumnAdd, renderCard, className, }: KanbanBoardProps): JSX.Element;
+export declare function KanbanBoard({ columns, cards, onCardMove, onCardReorder, onCardClick, onCardEdit, onCardDelete, cardActions, onAddCard, onColumnAdd, renderCard, className, }: KanbanBoardProps): JSX.Element;
 export { KanbanColumn } from './KanbanColumn';
 export { KanbanCard, KanbanCardOverlay } from './KanbanCard';
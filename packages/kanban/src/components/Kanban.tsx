@@ -28,9 +28,11 @@ export function KanbanBoard({
   columns,
   cards,
   onCardMove,
+  onCardReorder,
   onCardClick,
   onCardEdit,
   onCardDelete,
+  cardActions,
   onAddCard,
   onColumnAdd,
   renderCard,
@@ -105,8 +107,6 @@ export function KanbanBoard({
     const activeId = active.id as string;
     const overId = over.id as string;
 
-    if (activeId === overId) return;
-
     const activeCard = localCards.find((c) => c.id === activeId);
     if (!activeCard) return;
 
@@ -122,20 +122,27 @@ export function KanbanBoard({
       onCardMove?.(activeId, sourceColumnId, targetColumnId);
     }
 
-    // Reorder within column
-    if (overCard && activeCard.columnId === overCard.columnId) {
-      const columnCards = getCardsByColumnId(activeCard.columnId);
-      const oldIndex = columnCards.findIndex((c) => c.id === activeId);
-      const newIndex = columnCards.findIndex((c) => c.id === overId);
-
-      if (oldIndex !== newIndex) {
-        const reorderedCards = arrayMove(columnCards, oldIndex, newIndex);
-        setLocalCards((cards) => {
-          const otherCards = cards.filter((c) => c.columnId !== activeCard.columnId);
-          return [...otherCards, ...reorderedCards];
-        });
-      }
-    }
+    // Reorder within the target column
+    const columnCards = getCardsByColumnId(targetColumnId);
+    const oldIndex = columnCards.findIndex((c) => c.id === activeId);
+    const newIndex = columnCards.findIndex((c) => c.id === overId);
+    const reordered =
+      oldIndex !== -1 && newIndex !== -1 && oldIndex !== newIndex;
+
+    if (!reordered && sourceColumnId === targetColumnId) return;
+
+    const rankedCards = (
+      reordered ? arrayMove(columnCards, oldIndex, newIndex) : columnCards
+    ).map((card, index) => ({ ...card, order: index }));
+
+    setLocalCards((cards) => {
+      const otherCards = cards.filter((c) => c.columnId !== targetColumnId);
+      return [...otherCards, ...rankedCards];
+    });
+    onCardReorder?.(
+      targetColumnId,
+      rankedCards.map((card) => card.id)
+    );
   };
 
   return (
@@ -161,6 +168,7 @@ export function KanbanBoard({
               onAddCard={onAddCard}
               onCardEdit={onCardEdit}
               onCardDelete={onCardDelete}
+              cardActions={cardActions}
               onCardClick={onCardClick}
             />
           ))}
@@ -6,21 +6,32 @@ import { CSS } from '@dnd-kit/utilities';
 import {
   Calendar,
   AlertCircle,
+  Lock,
+  MoreHorizontal,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
-import type { KanbanCard as KanbanCardType, KanbanColumnColor } from '@/types';
+import type { KanbanCard as KanbanCardType, KanbanCardAction, KanbanColumnColor } from '@/types';
 
 interface KanbanCardProps {
   card: KanbanCardType;
   onEdit?: (card: KanbanCardType) => void;
   onDelete?: (cardId: string) => void;
+  actions?: KanbanCardAction[];
   onClick?: (card: KanbanCardType) => void;
   isDragging?: boolean;
   isOverlay?: boolean;
@@ -42,6 +53,12 @@ function getInitials(name: string): string {
     .slice(0, 2);
 }
 
+function startOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
 function formatDate(date: Date): string {
   const now = new Date();
   const diffTime = date.getTime() - now.getTime();
@@ -64,6 +81,7 @@ export function KanbanCard({
   card,
   onEdit,
   onDelete,
+  actions = [],
   onClick,
   isDragging,
   isOverlay,
@@ -89,7 +107,10 @@ export function KanbanCard({
   };
 
   const isCurrentlyDragging = isDragging || isSortableDragging;
-  const isOverdue = card.dueDate && new Date(card.dueDate) < new Date();
+  const isBlocked = card.blockedBy !== undefined && card.blockedBy.length > 0;
+  const hasMenu = !isOverlay && (onEdit || onDelete || actions.length > 0);
+  // A card due today isn't overdue until the day is over
+  const isOverdue = card.dueDate && new Date(card.dueDate) < startOfToday();
 
   return (
     <div
@@ -97,10 +118,11 @@ export function KanbanCard({
       style={style}
       className={cn(
         'group relative flex flex-col gap-2.5 rounded-xl p-3.5 transition-all duration-200',
-        'bg-gray-900/90',
-        'border border-gray-700/50',
+        'bg-card/90',
+        'border border-border/50',
         'shadow-sm shadow-black/10',
-        'hover:shadow-lg hover:shadow-black/20 hover:border-gray-600/60 hover:bg-gray-800/90',
+        'hover:shadow-lg hover:shadow-black/20 hover:border-muted/60 hover:bg-secondary/90',
+        isOverdue && 'border-red-500/40 hover:border-red-500/60',
         isCurrentlyDragging && 'opacity-50 shadow-xl scale-[1.02] ring-2 ring-blue-500/40 border-blue-500/30',
         isOverlay && 'rotate-2 shadow-2xl scale-105 border-blue-400/50',
         onClick && 'cursor-pointer',
@@ -127,19 +149,92 @@ export function KanbanCard({
       )}
 
       {/* Title */}
-      <h4 className="text-[13px] font-medium leading-snug text-gray-100">{card.title}</h4>
+      <div className="flex items-start justify-between gap-2">
+        <h4 className="text-[13px] font-medium leading-snug text-foreground">{card.title}</h4>
+
+        {hasMenu && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5 shrink-0 rounded-md text-muted-foreground opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 hover:text-foreground hover:bg-accent/50"
+                // Keep the menu from starting a drag or opening the card
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={(e) => e.stopPropagation()}
+              >
+                <MoreHorizontal className="h-3.5 w-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+              {onEdit && (
+                <DropdownMenuItem onSelect={() => onEdit(card)}>Edit</DropdownMenuItem>
+              )}
+              {actions.map((action) => (
+                <DropdownMenuItem key={action.id} onSelect={() => action.onSelect(card)}>
+                  {action.label}
+                </DropdownMenuItem>
+              ))}
+              {onDelete && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    className="text-destructive"
+                    onSelect={() => onDelete(card.id)}
+                  >
+                    Delete
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
 
       {/* Description */}
       {card.description && (
-        <p className="text-xs text-gray-400 line-clamp-2 leading-relaxed">
+        <p className="text-xs text-muted-foreground line-clamp-2 leading-relaxed">
           {card.description}
         </p>
       )}
 
-      {/* Footer: Priority, Due Date, Assignees */}
-      {(card.priority || card.dueDate || (card.assignees && card.assignees.length > 0)) && (
+      {/* Progress */}
+      {card.progress && card.progress.max > 0 && (
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center justify-between text-[11px] text-muted-foreground">
+            <span>{card.progress.label}</span>
+            <span>{Math.round((card.progress.value / card.progress.max) * 100)}%</span>
+          </div>
+          <div className="h-1.5 overflow-hidden rounded-full bg-accent/60">
+            <div
+              className="h-full rounded-full bg-green-500/80 transition-all"
+              style={{
+                width: `${Math.min(100, (card.progress.value / card.progress.max) * 100)}%`,
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Footer: Blocked, Priority, Due Date, Assignees */}
+      {(isBlocked || card.priority || card.dueDate || (card.assignees && card.assignees.length > 0)) && (
         <div className="flex items-center justify-between gap-2 pt-1.5 mt-0.5">
           <div className="flex items-center gap-2.5">
+            {/* Blocked */}
+            {isBlocked && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <div className="flex items-center gap-1 text-[11px] text-amber-500">
+                    <Lock className="h-3 w-3" />
+                    <span>Blocked</span>
+                  </div>
+                </TooltipTrigger>
+                <TooltipContent className="rounded-lg">
+                  Blocked by: {card.blockedBy!.join(', ')}
+                </TooltipContent>
+              </Tooltip>
+            )}
+
             {/* Priority */}
             {card.priority && (
               <Tooltip>
@@ -1,11 +1,12 @@
-import type { KanbanColumn as KanbanColumnType, KanbanCard as KanbanCardType } from '@/types';
+import type { KanbanColumn as KanbanColumnType, KanbanCard as KanbanCardType, KanbanCardAction } from '@/types';
 interface KanbanColumnProps {
     column: KanbanColumnType;
     cards: KanbanCardType[];
     onAddCard?: (columnId: string) => void;
     onCardEdit?: (card: KanbanCardType) => void;
     onCardDelete?: (cardId: string) => void;
+    cardActions?: KanbanCardAction[];
     onCardClick?: (card: KanbanCardType) => void;
 }
-export declare function KanbanColumn({ column, cards, onAddCard, onCardEdit, onCardDelete, onCardClick, }: KanbanColumnProps): JSX.Element;
+export declare function KanbanColumn({ column, cards, onAddCard, onCardEdit, onCardDelete, cardActions, onCardClick, }: KanbanColumnProps): JSX.Element;
 export {};
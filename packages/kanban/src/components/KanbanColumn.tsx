@@ -14,6 +14,7 @@ import { KanbanCard } from './KanbanCard';
 import type {
   KanbanColumn as KanbanColumnType,
   KanbanCard as KanbanCardType,
+  KanbanCardAction,
   KanbanColumnColor,
 } from '@/types';
 
@@ -23,6 +24,7 @@ interface KanbanColumnProps {
   onAddCard?: (columnId: string) => void;
   onCardEdit?: (card: KanbanCardType) => void;
   onCardDelete?: (cardId: string) => void;
+  cardActions?: KanbanCardAction[];
   onCardClick?: (card: KanbanCardType) => void;
 }
 
@@ -53,6 +55,7 @@ export function KanbanColumn({
   onAddCard,
   onCardEdit,
   onCardDelete,
+  cardActions,
   onCardClick,
 }: KanbanColumnProps) {
   const { setNodeRef, isOver } = useDroppable({
@@ -65,23 +68,36 @@ export function KanbanColumn({
 
   const cardIds = cards.map((card) => card.id);
   const color = column.color || 'gray';
+  const hasLimit = column.wipLimit !== undefined;
+  const overLimit = hasLimit && cards.length > column.wipLimit!;
 
   return (
     <div
       className={cn(
         'group flex h-full flex-1 basis-0 min-w-[160px] flex-col rounded-2xl transition-all duration-200',
-        'bg-gray-800/50 backdrop-blur-sm',
-        'border border-gray-700/40',
-        isOver && 'bg-gray-700/60 border-blue-500/40'
+        'bg-secondary/50 backdrop-blur-sm',
+        'border border-border/40',
+        overLimit && 'border-red-500/50',
+        isOver && 'bg-accent/60 border-blue-500/40'
       )}
     >
       {/* Column Header */}
       <div className="flex items-center justify-between px-4 py-3.5">
         <div className="flex items-center gap-2.5">
           <div className={cn('h-2.5 w-2.5 rounded-full shadow-sm', columnColorMap[color])} />
-          <h3 className="font-semibold text-sm text-gray-200">{column.title}</h3>
-          <span className="inline-flex h-5 min-w-5 items-center justify-center rounded-md bg-gray-700/60 px-1.5 text-[11px] font-medium text-gray-400">
-            {cards.length}
+          <h3 className="font-semibold text-sm text-foreground">{column.title}</h3>
+          <span
+            className={cn(
+              'inline-flex h-5 min-w-5 items-center justify-center rounded-md bg-accent/60 px-1.5 text-[11px] font-medium text-muted-foreground',
+              overLimit && 'bg-red-500/20 text-red-300'
+            )}
+            title={
+              hasLimit
+                ? `WIP limit: ${column.wipLimit}${overLimit ? ' (exceeded)' : ''}`
+                : undefined
+            }
+          >
+            {hasLimit ? `${cards.length}/${column.wipLimit}` : cards.length}
           </span>
         </div>
         <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -89,7 +105,7 @@ export function KanbanColumn({
             <Button
               variant="ghost"
               size="icon"
-              className="h-7 w-7 rounded-lg text-gray-400 hover:text-gray-200 hover:bg-gray-700/50"
+              className="h-7 w-7 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent/50"
               onClick={() => onAddCard(column.id)}
             >
               <Plus className="h-3.5 w-3.5" />
@@ -98,7 +114,7 @@ export function KanbanColumn({
           <Button 
             variant="ghost" 
             size="icon" 
-            className="h-7 w-7 rounded-lg text-gray-400 hover:text-gray-200 hover:bg-gray-700/50"
+            className="h-7 w-7 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent/50"
           >
             <MoreHorizontal className="h-3.5 w-3.5" />
           </Button>
@@ -111,7 +127,7 @@ export function KanbanColumn({
           ref={setNodeRef}
           className={cn(
             'flex flex-col gap-2.5 pb-2.5 min-h-[80px] transition-colors duration-200 rounded-xl',
-            isOver && 'bg-gray-700/30'
+            isOver && 'bg-accent/30'
           )}
         >
           <SortableContext items={cardIds} strategy={verticalListSortingStrategy}>
@@ -121,12 +137,13 @@ export function KanbanColumn({
                 card={card}
                 onEdit={onCardEdit}
                 onDelete={onCardDelete}
+                actions={cardActions}
                 onClick={onCardClick}
               />
             ))}
           </SortableContext>
           {cards.length === 0 && (
-            <div className="flex items-center justify-center h-20 text-xs text-gray-500">
+            <div className="flex items-center justify-center h-20 text-xs text-muted-foreground/70">
               No cards
             </div>
           )}
@@ -138,7 +155,7 @@ export function KanbanColumn({
         <div className="p-2.5 pt-0">
           <Button
             variant="ghost"
-            className="w-full h-9 justify-center gap-2 text-gray-400 hover:text-gray-200 hover:bg-gray-700/50 rounded-xl text-xs font-normal border border-dashed border-gray-600/40 hover:border-gray-500/50 transition-all"
+            className="w-full h-9 justify-center gap-2 text-muted-foreground hover:text-foreground hover:bg-accent/50 rounded-xl text-xs font-normal border border-dashed border-muted/40 hover:border-muted-foreground/50 transition-all"
             onClick={() => onAddCard(column.id)}
           >
             <Plus className="h-3.5 w-3.5" />
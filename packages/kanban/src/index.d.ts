@@ -1,2 +1,2 @@
 export { KanbanBoard, KanbanColumn, KanbanCard, KanbanCardOverlay } from './components/Kanban';
-export type { KanbanBoardProps, KanbanColumn as KanbanColumnType, KanbanCard as KanbanCardType, KanbanLabel, KanbanAssignee, KanbanColumnColor, } from './types';
+export type { KanbanBoardProps, KanbanColumn as KanbanColumnType, KanbanCard as KanbanCardType, KanbanLabel, KanbanAssignee, KanbanCardAction, KanbanProgress, KanbanColumnColor, } from './types';
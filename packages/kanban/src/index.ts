@@ -9,5 +9,7 @@ export type {
   KanbanCard as KanbanCardType,
   KanbanLabel,
   KanbanAssignee,
+  KanbanCardAction,
+  KanbanProgress,
   KanbanColumnColor,
 } from './types';
@@ -9,6 +9,11 @@ export interface KanbanAssignee {
     name: string;
     avatar?: string;
 }
+export interface KanbanProgress {
+    value: number;
+    max: number;
+    label?: string;
+}
 export interface KanbanCard {
     id: string;
     title: string;
@@ -18,6 +23,10 @@ export interface KanbanCard {
     assignees?: KanbanAssignee[];
     dueDate?: Date;
     priority?: 'low' | 'medium' | 'high' | 'urgent';
+    /** Rendered as a progress bar below the description */
+    progress?: KanbanProgress;
+    /** Names of the unfinished cards this one waits on */
+    blockedBy?: string[];
     order?: number;
 }
 export interface KanbanColumn {
@@ -25,14 +34,25 @@ export interface KanbanColumn {
     title: string;
     color?: KanbanColumnColor;
     order?: number;
+    /** Maximum number of cards; the header flags the column once it is exceeded */
+    wipLimit?: number;
+}
+/** Extra entry in the card menu, next to edit and delete */
+export interface KanbanCardAction {
+    id: string;
+    label: string;
+    onSelect: (card: KanbanCard) => void;
 }
 export interface KanbanBoardProps {
     columns: KanbanColumn[];
     cards: KanbanCard[];
     onCardMove?: (cardId: string, sourceColumnId: string, targetColumnId: string) => void;
+    /** Called after a drop with the ids of the target column in their new order */
+    onCardReorder?: (columnId: string, cardIds: string[]) => void;
     onCardClick?: (card: KanbanCard) => void;
     onCardEdit?: (card: KanbanCard) => void;
     onCardDelete?: (cardId: string) => void;
+    cardActions?: KanbanCardAction[];
     onAddCard?: (columnId: string) => void;
     onColumnAdd?: () => void;
     renderCard?: (card: KanbanCard) => React.ReactNode;
@@ -30,6 +30,12 @@ export interface KanbanAssignee {
   avatar?: string;
 }
 
+export interface KanbanProgress {
+  value: number;
+  max: number;
+  label?: string;
+}
+
 export interface KanbanCard {
   id: string;
   title: string;
@@ -39,6 +45,10 @@ export interface KanbanCard {
   assignees?: KanbanAssignee[];
   dueDate?: Date;
   priority?: 'low' | 'medium' | 'high' | 'urgent';
+  /** Rendered as a progress bar below the description */
+  progress?: KanbanProgress;
+  /** Names of the unfinished cards this one waits on */
+  blockedBy?: string[];
   order?: number;
 }
 
@@ -47,15 +57,27 @@ export interface KanbanColumn {
   title: string;
   color?: KanbanColumnColor;
   order?: number;
+  /** Maximum number of cards; the header flags the column once it is exceeded */
+  wipLimit?: number;
+}
+
+/** Extra entry in the card menu, next to edit and delete */
+export interface KanbanCardAction {
+  id: string;
+  label: string;
+  onSelect: (card: KanbanCard) => void;
 }
 
 export interface KanbanBoardProps {
   columns: KanbanColumn[];
   cards: KanbanCard[];
   onCardMove?: (cardId: string, sourceColumnId: string, targetColumnId: string) => void;
+  /** Called after a drop with the ids of the target column in their new order */
+  onCardReorder?: (columnId: string, cardIds: string[]) => void;
   onCardClick?: (card: KanbanCard) => void;
   onCardEdit?: (card: KanbanCard) => void;
   onCardDelete?: (cardId: string) => void;
+  cardActions?: KanbanCardAction[];
   onAddCard?: (columnId: string) => void;
   onColumnAdd?: () => void;
   renderCard?: (card: KanbanCard) => React.ReactNode;